@@ -0,0 +1,91 @@
+import type { CodeNode } from 'repograph';
+import type { SymbolTreeNode } from './serializer';
+import { estimateTokens } from './tokens';
+
+const collectSubtreeIds = (wrapper: SymbolTreeNode, into: string[] = []): string[] => {
+  into.push(wrapper.node.id);
+  for (const child of wrapper.children) collectSubtreeIds(child, into);
+  return into;
+};
+
+const pluralize = (count: number, singular: string, plural: string): string => `${count} ${count === 1 ? singular : plural}`;
+
+const formatBudgetFooter = (omittedEntities: number, omittedFiles: number, maxTokens: number): string => {
+  const parts = [];
+  if (omittedEntities > 0) parts.push(pluralize(omittedEntities, 'entity', 'entities'));
+  if (omittedFiles > 0) parts.push(pluralize(omittedFiles, 'file', 'files'));
+  return `// Omitted ${parts.join(' and ')} with the lowest rank to fit the ${maxTokens}-token budget.`;
+};
+
+/**
+ * Renders the largest map that fits within `maxTokens`.
+ *
+ * Candidates are dropped in rank order: all entities first (lowest rank first,
+ * each taking its nested entities with it), then whole files. A binary search
+ * finds the smallest number of drops that fits, and a footer comment records
+ * what was left out. Nodes in `excluded` are already absent from the output
+ * and are neither candidates nor counted.
+ *
+ * @returns The rendered output and the IDs of the nodes dropped to fit.
+ */
+export const fitToTokenBudget = (
+  fileNodes: readonly CodeNode[],
+  symbolTrees: ReadonlyMap<string, SymbolTreeNode[]>,
+  ranks: ReadonlyMap<string, number>,
+  maxTokens: number,
+  render: (omitted: ReadonlySet<string>) => string,
+  excluded: ReadonlySet<string> = new Set(),
+): { output: string; omitted: ReadonlySet<string> } => {
+  const rankOf = (node: CodeNode) => ranks.get(node.id) ?? 0;
+
+  const entityCandidates: SymbolTreeNode[] = [];
+  const visit = (wrapper: SymbolTreeNode) => {
+    if (excluded.has(wrapper.node.id)) return;
+    entityCandidates.push(wrapper);
+    wrapper.children.forEach(visit);
+  };
+  const candidateFiles = fileNodes.filter(fileNode => !excluded.has(fileNode.id));
+  for (const fileNode of candidateFiles) (symbolTrees.get(fileNode.id) || []).forEach(visit);
+
+  // Lowest rank first; among equals, drop entities later in a file before earlier ones.
+  entityCandidates.sort((a, b) =>
+    rankOf(a.node) - rankOf(b.node) ||
+    b.node.filePath.localeCompare(a.node.filePath) ||
+    b.node.startLine - a.node.startLine);
+  const fileCandidates = [...candidateFiles].sort((a, b) => rankOf(a) - rankOf(b) || b.filePath.localeCompare(a.filePath));
+
+  const dropSteps: string[][] = [
+    ...entityCandidates.map(wrapper => collectSubtreeIds(wrapper).filter(id => !excluded.has(id))),
+    ...fileCandidates.map(fileNode => [fileNode.id]),
+  ];
+  const fileIds = new Set(fileNodes.map(fileNode => fileNode.id));
+
+  const renderWithDrops = (count: number): { output: string; omitted: ReadonlySet<string>; fits: boolean } => {
+    const omitted = new Set(dropSteps.slice(0, count).flat());
+    let output = render(omitted);
+    if (omitted.size > 0) {
+      const omittedFiles = [...omitted].filter(id => fileIds.has(id)).length;
+      const footer = formatBudgetFooter(omitted.size - omittedFiles, omittedFiles, maxTokens);
+      output = output ? `${output}\n\n${footer}` : footer;
+    }
+    return { output, omitted, fits: estimateTokens(output) <= maxTokens };
+  };
+
+  const full = renderWithDrops(0);
+  if (full.fits) return full;
+
+  let low = 1;
+  let high = dropSteps.length;
+  let best = renderWithDrops(high);
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    const attempt = renderWithDrops(mid);
+    if (attempt.fits) {
+      best = attempt;
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return best;
+};
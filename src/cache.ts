@@ -0,0 +1,228 @@
+import type { Analyzer, CodeGraph, CodeNode, FileContent, FileDiscoverer, RankedCodeGraph, Ranker, RepoGraphOptions } from 'repograph';
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { createRequire } from 'module';
+import { isAbsolute, join, posix, relative, resolve, sep } from 'path';
+import { version } from '../package.json';
+import { getCandidatePaths, isRelative, scanImports } from './external-deps';
+import type { CodeEdge, ScnFragment } from './serializer';
+
+/** Default cache directory, resolved against the project root. */
+export const DEFAULT_CACHE_DIR = '.scn-cache';
+
+const CACHE_FILE = 'analysis.json';
+const FRAGMENTS_FILE = 'fragments.json';
+/** Bumped whenever the layout of the cache file changes. */
+const CACHE_FORMAT = 2;
+
+/** The analysis of one file: its nodes and the edges leaving them. */
+interface CachedFile {
+  hash: string;
+  nodes: CodeNode[];
+  edges: CodeEdge[];
+}
+
+interface AnalysisCache {
+  /** scn-ts and repograph versions the entries were produced with. */
+  key: string;
+  files: Record<string, CachedFile>;
+}
+
+/**
+ * The repograph stages `analyzeProject` runs, e.g. `createDefaultDiscoverer()`,
+ * `createTreeSitterAnalyzer()` and `createPageRanker()`.
+ */
+export interface AnalysisPipeline {
+  discover: FileDiscoverer;
+  analyze: Analyzer;
+  rank: Ranker;
+}
+
+const getRepographVersion = (): string => {
+  try {
+    return createRequire(import.meta.url)('repograph/package.json').version;
+  } catch {
+    return 'unknown';
+  }
+};
+
+const getCacheKey = (): string => `${CACHE_FORMAT}:scn-ts@${version}:repograph@${getRepographVersion()}`;
+
+const readCache = async (path: string, key: string): Promise<AnalysisCache | undefined> => {
+  try {
+    const cache: AnalysisCache = JSON.parse(await readFile(path, 'utf-8'));
+    // Entries written by other versions may have been analyzed differently.
+    return cache?.key === key && typeof cache.files === 'object' ? cache : undefined;
+  } catch {
+    // A missing or unreadable cache just means a full analysis.
+    return undefined;
+  }
+};
+
+/** Splits a graph into per-file entries; an edge belongs to the file of the node it leaves. */
+const groupByFile = (graph: CodeGraph): Map<string, { nodes: CodeNode[]; edges: CodeEdge[] }> => {
+  const byFile = new Map<string, { nodes: CodeNode[]; edges: CodeEdge[] }>();
+  const entry = (filePath: string) => {
+    if (!byFile.has(filePath)) byFile.set(filePath, { nodes: [], edges: [] });
+    return byFile.get(filePath)!;
+  };
+  for (const node of graph.nodes.values()) entry(node.filePath).nodes.push(node);
+  for (const edge of graph.edges as CodeEdge[]) {
+    const from = graph.nodes.get(edge.fromId);
+    if (from) entry(from.filePath).edges.push(edge);
+  }
+  return byFile;
+};
+
+/** Matches identifiers and CSS class names, e.g. `formatDate` or `btn-primary`. */
+const WORD = /[A-Za-z_$][\w$]*(?:-[\w$]+)*/g;
+
+/** The names a source mentions, which repograph may resolve to entities of other files. */
+const getWords = (source: string): Set<string> =>
+  new Set((source.match(WORD) ?? []).flatMap(word => [word, ...word.split('-')]));
+
+/** The names repograph resolves to a node: its own name and, for CSS rules, its selector. */
+const getDeclaredNames = (node: CodeNode): string[] => node.type === 'file'
+  ? []
+  : [node.name.split('.').pop()!, ...node.cssSelector ? [node.cssSelector.replace(/^[.#]/, '')] : []];
+
+/**
+ * Joins per-file entries into one graph in the order repograph's analyzer
+ * builds it: file nodes first, then the entities of each file, and import
+ * edges before the others. PageRank then ranks a merged graph exactly like
+ * a freshly analyzed one.
+ */
+const mergeFiles = (entries: readonly { nodes: CodeNode[]; edges: CodeEdge[] }[]): CodeGraph => {
+  const nodes = [
+    ...entries.flatMap(entry => entry.nodes.filter(node => node.type === 'file')),
+    ...entries.flatMap(entry => entry.nodes.filter(node => node.type !== 'file')),
+  ];
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const edges = [
+    ...entries.flatMap(entry => entry.edges.filter(edge => edge.type === 'imports')),
+    ...entries.flatMap(entry => entry.edges.filter(edge => edge.type !== 'imports')),
+  ].filter(edge => nodeIds.has(edge.fromId) && nodeIds.has(edge.toId));
+  return { nodes: new Map(nodes.map(node => [node.id, node])), edges: edges as CodeGraph['edges'] };
+};
+
+/**
+ * Analyzes a project like `analyzeProject`, reusing the per-file results of
+ * earlier runs stored in `cacheDir`. Entries are keyed by the SHA-1 of the
+ * file's content and are discarded when the scn-ts or repograph version
+ * changes.
+ *
+ * Files are discovered by the pipeline's discoverer, so `.gitignore` applies
+ * as it does without the cache. Only changed files and their dependents
+ * (files importing them, or linked to them in the cached graph) are
+ * re-analyzed, together with the files they import and the files declaring
+ * a name they mention, so that their links resolve as in a full analysis.
+ * When a changed file declares a name that an unchanged file mentions, the
+ * whole project is analyzed again. The merged graph is ranked by the pipeline's ranker, so a warm
+ * run ranks like a cold one.
+ *
+ * @param options - The repograph options; `root` defaults to the current directory.
+ * @param cacheDir - Absolute path of the cache directory.
+ * @param pipeline - The repograph stages to discover, analyze and rank with.
+ */
+export const analyzeWithCache = async (
+  options: RepoGraphOptions,
+  cacheDir: string,
+  pipeline: AnalysisPipeline,
+): Promise<RankedCodeGraph> => {
+  const rootDir = resolve(options.root ?? process.cwd());
+  const cachePath = join(cacheDir, CACHE_FILE);
+  const key = getCacheKey();
+
+  const cacheDirPath = relative(rootDir, cacheDir).split(sep).join(posix.sep);
+  const inRoot = cacheDirPath !== '' && !cacheDirPath.startsWith('..') && !isAbsolute(cacheDirPath);
+  const discovered: readonly FileContent[] = await pipeline.discover({
+    root: rootDir,
+    include: options.include,
+    ignore: inRoot ? [...options.ignore ?? [], `${cacheDirPath}/**`] : options.ignore,
+    noGitignore: options.noGitignore,
+  });
+  const files = discovered.map(file => file.path);
+  const sources = new Map(discovered.map(file => [file.path, file.content]));
+  const hashes = new Map(files.map(file => [file, createHash('sha1').update(sources.get(file)!).digest('hex')]));
+
+  const cache = await readCache(cachePath, key);
+  const cached = cache?.files ?? {};
+  const changed = files.filter(file => cached[file]?.hash !== hashes.get(file));
+  const removed = Object.keys(cached).filter(file => !hashes.has(file));
+
+  if (cache && changed.length === 0 && removed.length === 0) {
+    return pipeline.rank(mergeFiles(files.map(file => cached[file]!)));
+  }
+
+  // Without a cache everything is stale. Otherwise the changed files are,
+  // and so are the files linked to a changed or removed file.
+  const fileOfNode = new Map<string, string>();
+  for (const [file, entry] of Object.entries(cached)) entry.nodes.forEach(node => fileOfNode.set(node.id, file));
+  const linkedFiles = (file: string): string[] => [
+    ...scanImports(sources.get(file)!, file)
+      .filter(statement => isRelative(statement.specifier))
+      .flatMap(statement => getCandidatePaths(file, statement.specifier)),
+    ...(cached[file]?.edges ?? []).map(edge => fileOfNode.get(edge.toId)).filter((target): target is string => !!target),
+  ];
+  const touched = new Set([...changed, ...removed]);
+  const stale = new Set(changed);
+  for (const file of files) {
+    if (!stale.has(file) && linkedFiles(file).some(target => touched.has(target))) stale.add(file);
+  }
+  // The files the stale ones link to are analyzed too, so that repograph resolves those links.
+  const analyzed = new Set(stale);
+  for (const file of stale) linkedFiles(file).filter(target => sources.has(target)).forEach(target => analyzed.add(target));
+  // Repograph links a name found neither in the file nor in its imports to
+  // any file declaring it, e.g. calls through barrels and path aliases.
+  const words = new Map<string, Set<string>>();
+  const wordsOf = (file: string): Set<string> => words.get(file) ?? words.set(file, getWords(sources.get(file)!)).get(file)!;
+  const mentioned = new Set([...stale].flatMap(file => [...wordsOf(file)]));
+  for (const file of files) {
+    if (!analyzed.has(file) && cached[file]?.nodes.some(node => getDeclaredNames(node).some(name => mentioned.has(name)))) analyzed.add(file);
+  }
+
+  const analyze = async (paths: ReadonlySet<string>) =>
+    groupByFile(await pipeline.analyze(discovered.filter(file => paths.has(file.path))));
+  let fresh = await analyze(analyzed);
+  // A name a changed file declares for the first time may be what a reference
+  // in an unchanged file resolves to now; only a full analysis finds out.
+  const newNames = new Set(changed.flatMap(file => {
+    const before = new Set((cached[file]?.nodes ?? []).flatMap(getDeclaredNames));
+    return (fresh.get(file)?.nodes ?? []).flatMap(getDeclaredNames).filter(name => !before.has(name));
+  }));
+  if (newNames.size > 0 && files.some(file => !stale.has(file) && [...wordsOf(file)].some(word => newNames.has(word)))) {
+    files.forEach(file => stale.add(file));
+    fresh = await analyze(stale);
+  }
+  const entries: Record<string, CachedFile> = {};
+  for (const file of files) {
+    entries[file] = stale.has(file)
+      ? { hash: hashes.get(file)!, nodes: fresh.get(file)?.nodes ?? [], edges: fresh.get(file)?.edges ?? [] }
+      : cached[file]!;
+  }
+  await mkdir(cacheDir, { recursive: true });
+  const updated: AnalysisCache = { key, files: entries };
+  await writeFile(cachePath, JSON.stringify(updated), 'utf-8');
+  return pipeline.rank(mergeFiles(files.map(file => entries[file]!)));
+};
+
+/**
+ * Reads the files an earlier run described and rendered (see
+ * `SerializeOptions.fragmentCache`) from `cacheDir`. Fragments written by
+ * other scn-ts or repograph versions are discarded.
+ */
+export const readFragmentCache = async (cacheDir: string): Promise<Map<string, ScnFragment>> => {
+  try {
+    const cache = JSON.parse(await readFile(join(cacheDir, FRAGMENTS_FILE), 'utf-8'));
+    return cache?.key === getCacheKey() && typeof cache.files === 'object' ? new Map(Object.entries(cache.files)) : new Map();
+  } catch {
+    return new Map();
+  }
+};
+
+/** Stores the fragments of `filePaths` in `cacheDir`, dropping those of other files. */
+export const writeFragmentCache = async (cacheDir: string, fragments: ReadonlyMap<string, ScnFragment>, filePaths: readonly string[]): Promise<void> => {
+  const files = Object.fromEntries(filePaths.flatMap(path => fragments.has(path) ? [[path, fragments.get(path)!]] : []));
+  await mkdir(cacheDir, { recursive: true });
+  await writeFile(join(cacheDir, FRAGMENTS_FILE), JSON.stringify({ key: getCacheKey(), files }), 'utf-8');
+};
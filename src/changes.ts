@@ -0,0 +1,113 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import type { RankedCodeGraph } from 'repograph';
+
+const execFileAsync = promisify(execFile);
+
+/** A file that changed, and which of its lines did when that is known. */
+export interface ScnFileChange {
+  /** Path relative to the project root, as in the `§` line. */
+  path: string;
+  /**
+   * 1-based, inclusive line ranges of the file's current version that
+   * changed. Without them, every entity of the file counts as changed.
+   */
+  lines?: [number, number][];
+}
+
+const normalizePath = (path: string): string => path.replace(/\\/g, '/').replace(/^\.\//, '');
+
+/** Reads a path from a `+++` or `rename to` line, which git quotes when it has unusual characters. */
+const readDiffPath = (text: string): string => {
+  const path = text.replace(/\t$/, '');
+  if (!path.startsWith('"')) return path;
+  try {
+    return JSON.parse(path);
+  } catch {
+    return path.slice(1, -1);
+  }
+};
+
+/** Collects the files of a zero-context unified diff and the lines changed in their new versions. */
+const parseUnifiedDiff = (diff: string): ScnFileChange[] => {
+  const changes = new Map<string, ScnFileChange>();
+  let current: ScnFileChange | undefined;
+  const enter = (path: string) => {
+    current = changes.get(path) ?? { path, lines: [] };
+    changes.set(path, current);
+  };
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      current = undefined;
+    } else if (line.startsWith('rename to ')) {
+      // A rename without edits has no hunks, but the file is still new at its path.
+      enter(readDiffPath(line.slice('rename to '.length)));
+    } else if (line.startsWith('+++ ')) {
+      const path = readDiffPath(line.slice(4));
+      // Deleted files have no entities left to mark.
+      if (path === '/dev/null') current = undefined;
+      else enter(path.replace(/^b\//, ''));
+    } else if (current && line.startsWith('@@ ')) {
+      const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+      if (!hunk) continue;
+      const start = Number(hunk[1]);
+      const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+      // A hunk that only deletes lines starts at the line before the deletion.
+      current.lines!.push(count === 0 ? [Math.max(start, 1), Math.max(start, 1)] : [start, start + count - 1]);
+    }
+  }
+  return [...changes.values()];
+};
+
+const git = async (rootDir: string, args: string[]): Promise<string> => {
+  const { stdout } = await execFileAsync('git', ['-c', 'core.quotePath=false', ...args], { cwd: rootDir, maxBuffer: 64 * 1024 * 1024 });
+  return stdout;
+};
+
+/**
+ * Lists the files under `rootDir` that changed since a git ref (a branch,
+ * tag or commit), with the changed line ranges of each: committed changes,
+ * staged and unstaged edits, and untracked files, which count as changed
+ * throughout. Only the local repository is read; nothing is fetched.
+ *
+ * @param rootDir - The project root, inside a git working tree. Paths are relative to it.
+ * @param ref - The ref to compare the working tree with, e.g. `main` or `HEAD~3`.
+ * @throws {Error} When git is missing, `rootDir` is not in a repository or `ref` does not exist.
+ */
+export const readGitChanges = async (rootDir: string, ref: string): Promise<ScnFileChange[]> => {
+  if (ref.startsWith('-')) {
+    throw new Error(`Invalid git ref '${ref}'.`);
+  }
+  try {
+    const diff = await git(rootDir, [
+      'diff', '--no-color', '--no-ext-diff', '--relative', '--unified=0', '--src-prefix=a/', '--dst-prefix=b/', ref, '--',
+    ]);
+    const untracked = await git(rootDir, ['ls-files', '--others', '--exclude-standard']);
+    const changes = parseUnifiedDiff(diff);
+    const known = new Set(changes.map(change => change.path));
+    for (const path of untracked.split('\n').filter(Boolean)) {
+      if (!known.has(path)) changes.push({ path });
+    }
+    return changes;
+  } catch (error: any) {
+    const reason = typeof error?.stderr === 'string' && error.stderr.trim() ? error.stderr.trim() : error?.message ?? String(error);
+    throw new Error(`Could not list the changes since '${ref}': ${reason}`);
+  }
+};
+
+/**
+ * Finds the repograph IDs of the changed files, and of the entities in them
+ * whose lines overlap a changed range (all of them when a change has no
+ * line ranges).
+ */
+export const findChangedNodes = (graph: RankedCodeGraph, changes: readonly ScnFileChange[]): Set<string> => {
+  const changeOf = new Map(changes.map(change => [normalizePath(change.path), change]));
+  const changed = new Set<string>();
+  for (const node of graph.nodes.values()) {
+    const change = changeOf.get(node.filePath);
+    if (!change) continue;
+    const overlaps = !change.lines || change.lines.some(([start, end]) => start <= node.endLine && end >= node.startLine);
+    if (node.type === 'file' || overlaps) changed.add(node.id);
+  }
+  return changed;
+};
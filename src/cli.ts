@@ -1,28 +1,112 @@
-import { generateScn, type ScnTsConfig } from './index.js';
-import { existsSync, readFileSync, watch } from 'fs';
+import {
+  DEFAULT_CACHE_DIR,
+  DEFAULT_ID_LOCK_FILE,
+  diffEntitySnapshots,
+  formatEntityChanges,
+  formatStats,
+  generateScn,
+  generateScnChunks,
+  generateScnJson,
+  generateScnWithStats,
+  parseScn,
+  queryScn,
+  renderDot,
+  renderMermaid,
+  serveScn,
+  serveScnLanguageServer,
+  snapshotEntities,
+  watchProject,
+  type DiagramOptions,
+  type ScnDetailLevel,
+  type ScnChunk,
+  type ScnJsonDocument,
+  type ScnSplitLimits,
+  type ScnStats,
+  type ScnTsConfig,
+} from './index.js';
+import { existsSync, readFileSync } from 'fs';
 import { writeFile } from 'fs/promises';
-import { resolve, relative } from 'path';
+import { basename, dirname, extname, join, posix, resolve, relative } from 'path';
 import { version } from '../package.json';
 
+type OutputFormat = 'scn' | 'json' | 'mermaid' | 'dot';
+const OUTPUT_FORMATS: readonly OutputFormat[] = ['scn', 'json', 'mermaid', 'dot'];
+const DETAIL_LEVELS: readonly ScnDetailLevel[] = ['files', 'api', 'full'];
+const ORDERS: readonly NonNullable<ScnTsConfig['order']>[] = ['path', 'rank'];
+const COMMANDS = ['serve', 'lsp', 'query'] as const;
+
 interface CliOptions {
   include: string[];
   output?: string;
+  format?: OutputFormat;
+  detail?: ScnDetailLevel;
+  order?: 'path' | 'rank';
+  importance: boolean;
+  diagramEntities: boolean;
+  clusterByDirectory: boolean;
   project?: string;
   config?: string;
   maxWorkers?: number;
+  maxTokens?: number;
+  focus: string[];
+  depth?: number;
+  since?: string;
+  stableIds: boolean;
+  compactIds: boolean;
+  groupExternalDependencies: boolean;
+  publicApi: boolean;
+  workspace: boolean;
+  packages: string[];
+  cache: boolean;
+  noCache: boolean;
+  includeDocs: boolean;
+  docMaxLength?: number;
+  split?: number;
+  splitBytes?: number;
+  stats: boolean;
+  stdio: boolean;
   watch: boolean;
   help: boolean;
   version: boolean;
 }
 
+// Numeric options and the smallest value each accepts.
+const NUMERIC_OPTIONS: Partial<Record<keyof CliOptions, number>> = { maxWorkers: 1, maxTokens: 1, depth: 0, docMaxLength: 1, split: 1, splitBytes: 1 };
+// Options restricted to a fixed set of values.
+const CHOICE_OPTIONS: Partial<Record<keyof CliOptions, readonly string[]>> = { format: OUTPUT_FORMATS, detail: DETAIL_LEVELS, order: ORDERS };
+
 const ARG_CONFIG: Record<string, { key: keyof CliOptions; takesValue: boolean }> = {
   '-o': { key: 'output', takesValue: true },
   '--output': { key: 'output', takesValue: true },
+  '--format': { key: 'format', takesValue: true },
+  '--detail': { key: 'detail', takesValue: true },
+  '--order': { key: 'order', takesValue: true },
+  '--importance': { key: 'importance', takesValue: false },
+  '--diagram-entities': { key: 'diagramEntities', takesValue: false },
+  '--cluster-dirs': { key: 'clusterByDirectory', takesValue: false },
   '-p': { key: 'project', takesValue: true },
   '--project': { key: 'project', takesValue: true },
   '-c': { key: 'config', takesValue: true },
   '--config': { key: 'config', takesValue: true },
   '--max-workers': { key: 'maxWorkers', takesValue: true },
+  '--max-tokens': { key: 'maxTokens', takesValue: true },
+  '--focus': { key: 'focus', takesValue: true },
+  '--depth': { key: 'depth', takesValue: true },
+  '--since': { key: 'since', takesValue: true },
+  '--stable-ids': { key: 'stableIds', takesValue: false },
+  '--compact-ids': { key: 'compactIds', takesValue: false },
+  '--group-external': { key: 'groupExternalDependencies', takesValue: false },
+  '--public-api': { key: 'publicApi', takesValue: false },
+  '--workspace': { key: 'workspace', takesValue: false },
+  '--package': { key: 'packages', takesValue: true },
+  '--cache': { key: 'cache', takesValue: false },
+  '--no-cache': { key: 'noCache', takesValue: false },
+  '--include-docs': { key: 'includeDocs', takesValue: false },
+  '--doc-max-length': { key: 'docMaxLength', takesValue: true },
+  '--split': { key: 'split', takesValue: true },
+  '--split-bytes': { key: 'splitBytes', takesValue: true },
+  '--stats': { key: 'stats', takesValue: false },
+  '--stdio': { key: 'stdio', takesValue: false },
   '--watch': { key: 'watch', takesValue: false },
   '-h': { key: 'help', takesValue: false },
   '--help': { key: 'help', takesValue: false },
@@ -33,6 +117,21 @@ const ARG_CONFIG: Record<string, { key: keyof CliOptions; takesValue: boolean }>
 function parseArgs(args: string[]): CliOptions {
   const options: CliOptions = {
     include: [],
+    focus: [],
+    stableIds: false,
+    compactIds: false,
+    groupExternalDependencies: false,
+    publicApi: false,
+    workspace: false,
+    packages: [],
+    cache: false,
+    noCache: false,
+    includeDocs: false,
+    importance: false,
+    diagramEntities: false,
+    clusterByDirectory: false,
+    stats: false,
+    stdio: false,
     watch: false,
     help: false,
     version: false,
@@ -50,13 +149,19 @@ function parseArgs(args: string[]): CliOptions {
           console.error(`Error: Missing value for argument ${arg}`);
           process.exit(1);
         }
-        if (config.key === 'maxWorkers') {
+        const minValue = NUMERIC_OPTIONS[config.key];
+        if (minValue !== undefined) {
           const numValue = parseInt(value, 10);
-          if (isNaN(numValue) || numValue < 1) {
-            console.error(`Invalid value for --max-workers: ${value}. Must be a positive integer.`);
+          if (isNaN(numValue) || numValue < minValue) {
+            console.error(`Invalid value for ${arg}: ${value}. Must be a ${minValue > 0 ? 'positive' : 'non-negative'} integer.`);
             process.exit(1);
           }
           (options as any)[config.key] = numValue;
+        } else if (config.key === 'focus' || config.key === 'packages') {
+          options[config.key].push(value);
+        } else if (CHOICE_OPTIONS[config.key] && !CHOICE_OPTIONS[config.key]!.includes(value)) {
+          console.error(`Invalid value for ${arg}: ${value}. Must be one of: ${CHOICE_OPTIONS[config.key]!.join(', ')}.`);
+          process.exit(1);
         } else {
           (options as any)[config.key] = value;
         }
@@ -74,7 +179,7 @@ function parseArgs(args: string[]): CliOptions {
   return options;
 }
 
-async function loadConfig(configPath?: string): Promise<Partial<ScnTsConfig> & { output?: string }> {
+async function loadConfig(configPath?: string): Promise<Partial<ScnTsConfig> & { output?: string; format?: OutputFormat; diagramEntities?: boolean; clusterByDirectory?: boolean; stats?: boolean }> {
   const path = resolve(process.cwd(), configPath || 'scn.config.js');
   if (existsSync(path)) {
     try {
@@ -94,6 +199,39 @@ async function loadConfig(configPath?: string): Promise<Partial<ScnTsConfig> & {
   return {};
 }
 
+/**
+ * Generates the map in the requested output format, along with the JSON
+ * document it was rendered from, if any. With split limits, the SCN map is
+ * generated as chunks, and `output` joins them. With `stats`, the SCN map
+ * comes with its statistics.
+ */
+async function generateOutput(
+  config: ScnTsConfig,
+  format: OutputFormat,
+  diagramOptions: DiagramOptions,
+  splitLimits?: ScnSplitLimits,
+  stats?: boolean,
+): Promise<{ output: string; document?: ScnJsonDocument; chunks?: ScnChunk[]; stats?: ScnStats }> {
+  if (splitLimits) {
+    const chunks = await generateScnChunks(config, splitLimits);
+    return { output: chunks.map(chunk => chunk.text).join('\n\n'), chunks };
+  }
+  if (stats) {
+    const result = await generateScnWithStats(config);
+    return { output: result.scn, stats: result.stats };
+  }
+  if (format === 'scn') return { output: await generateScn(config) };
+  const document = await generateScnJson(config);
+  if (format === 'json') return { output: JSON.stringify(document, null, 2), document };
+  return { output: format === 'mermaid' ? renderMermaid(document, diagramOptions) : renderDot(document, diagramOptions), document };
+}
+
+/** Names chunk files after the output file: `map.scn` -> `map.1.scn`, `map.2.scn`, ... */
+function getChunkPath(output: string, index: number): string {
+  const extension = extname(output);
+  return join(dirname(output), `${basename(output, extension)}.${index}${extension}`);
+}
+
 function showHelp() {
   console.log(`
   scn-ts v${version}
@@ -102,23 +240,69 @@ function showHelp() {
 
   Usage:
     scn-ts [globs...] [options]
+    scn-ts serve --stdio [globs...] [options]
+    scn-ts lsp --stdio [globs...] [options]
+    scn-ts query <expr> [globs...] [options]
+
+  Commands:
+    serve --stdio    Analyze once and answer MCP (JSON-RPC) requests on stdin/stdout: the whole map,
+                     the map of some files, entities by name, the links of an ID, and re-analysis.
+    lsp --stdio      Run a language server for .scn files: go-to-definition, references, outline and
+                     dangling-ID diagnostics. With globs or a config file, hovers show the source of IDs.
+    query <expr>     Answer a question about the graph and print the matches as SCN (or --format json):
+                       callers of <target> / dependencies of <target> [transitively]
+                       files importing <target> / files imported by <target> [transitively]
+                       [async|throwing|pure|public|private] functions|classes|...|files [that throw] [in <glob>]
+                       path from <target> to <target>
+                     Targets are IDs (2.1), file paths, Class.member names or path#Class.member.
 
   Arguments:
     globs...         Glob patterns specifying files to include.
 
   Options:
     -o, --output <path>      Path to write the SCN output file. (default: stdout)
-    -p, --project <path>     Path to tsconfig.json.
+    --format <format>        Output format: scn, json, mermaid or dot. (default: scn)
+    --detail <level>         Detail level: files, api or full. (default: full)
+    --order <order>          Order files and entities by path or by rank, most central first. (default: path)
+    --importance             Annotate each file header with its importance, normalized to the most central file.
+    --diagram-entities       With mermaid/dot, also draw entities and their links.
+    --cluster-dirs           With mermaid/dot, group files by directory.
+    -p, --project <path>     Path to tsconfig.json. Enables type-checker analysis.
     -c, --config <path>      Path to a config file. (default: scn.config.js)
     --max-workers <num>      Number of parallel workers for analysis. (default: 1)
-    --watch                  Watch files for changes and re-generate.
+    --max-tokens <num>       Approximate token budget; drops the lowest-ranked entities and files to fit.
+    --focus <file|file#Sym>  Only emit the neighborhood of a file or symbol. Repeatable.
+    --depth <num>            Dependency/caller hops to include around --focus or --since. (default: 1)
+    --since <git-ref>        Only emit the files changed since a git ref, with their direct dependencies and
+                             dependents, marking changed files and entities // changed.
+    --stable-ids             Persist IDs in .scn-ids.json so they survive code edits.
+    --compact-ids            Renumber IDs sequentially and rewrite the ID lockfile.
+    --group-external         Name external dependencies by package (react) instead of module (react-dom/client).
+    --public-api             Only emit the package's public API, reached from its package.json entry points.
+    --workspace              Map every package of an npm/yarn/pnpm/bun workspace, grouped by package.
+    --package <name>         With --workspace, only map this package and its dependencies. Repeatable.
+    --cache                  Cache analysis results in .scn-cache/ and only re-analyze changed files.
+    --no-cache               Disable the cache, even when the config file enables it.
+    --include-docs           Append the first sentence of each entity's doc comment, plus @deprecated
+                             and @returns; @throws adds the ! qualifier.
+    --doc-max-length <num>   Cap on the length of each doc comment sentence. Implies --include-docs. (default: 80)
+    --split <tokens>         Split the SCN map into files of at most this many tokens, keeping files whole and
+                             grouping linked ones. With -o map.scn, writes map.1.scn, map.2.scn, ...
+    --split-bytes <bytes>    Like --split, with a limit in bytes.
+    --stats                  Print source vs. SCN tokens per file and in total, entity and edge counts, and
+                             the files contributing most to the map's size to stderr.
+    --watch                  Watch the included files and re-generate on changes, re-analyzing only
+                             what changed. Enables --cache unless --no-cache is given.
     -v, --version            Display version number.
     -h, --help               Display this help message.
   `);
 }
 
 async function run() {
-  const cliOptions = parseArgs(process.argv);
+  const command = COMMANDS.find(candidate => candidate === process.argv[2]);
+  const cliOptions = parseArgs(command ? [...process.argv.slice(0, 2), ...process.argv.slice(3)] : process.argv);
+  // The first argument of `query` is the query; the globs follow it.
+  const query = command === 'query' ? cliOptions.include.shift() : undefined;
 
   if (cliOptions.version) {
     console.log(version);
@@ -138,9 +322,62 @@ async function run() {
     exclude: fileConfig.exclude,
     project: cliOptions.project || fileConfig.project,
     maxWorkers: cliOptions.maxWorkers || fileConfig.maxWorkers,
+    maxTokens: cliOptions.maxTokens || fileConfig.maxTokens,
+    focus: cliOptions.focus.length > 0 ? cliOptions.focus : fileConfig.focus,
+    depth: cliOptions.depth ?? fileConfig.depth,
+    since: cliOptions.since ?? fileConfig.since,
+    changedFiles: fileConfig.changedFiles,
+    stableIds: cliOptions.stableIds || fileConfig.stableIds,
+    compactIds: cliOptions.compactIds || fileConfig.compactIds,
+    groupExternalDependencies: cliOptions.groupExternalDependencies || fileConfig.groupExternalDependencies,
+    detail: cliOptions.detail || fileConfig.detail,
+    order: cliOptions.order || fileConfig.order,
+    importance: cliOptions.importance || fileConfig.importance,
+    publicApi: cliOptions.publicApi || fileConfig.publicApi,
+    workspace: cliOptions.workspace || fileConfig.workspace,
+    packages: cliOptions.packages.length > 0 ? cliOptions.packages : fileConfig.packages,
+    // Watch mode relies on the cache to only re-analyze what changed.
+    cache: cliOptions.noCache ? false : cliOptions.cache || fileConfig.cache || cliOptions.watch,
+    includeDocs: cliOptions.docMaxLength
+      ? { maxLength: cliOptions.docMaxLength }
+      : cliOptions.includeDocs || fileConfig.includeDocs,
+    heuristics: fileConfig.heuristics,
+    plugins: fileConfig.plugins,
+    tokenizer: fileConfig.tokenizer,
   };
   
   const output = cliOptions.output || fileConfig.output;
+  const format = cliOptions.format || fileConfig.format || 'scn';
+  const splitLimits: ScnSplitLimits | undefined = cliOptions.split || cliOptions.splitBytes
+    ? { maxTokens: cliOptions.split, maxBytes: cliOptions.splitBytes }
+    : undefined;
+  const diagramOptions: DiagramOptions = {
+    entities: cliOptions.diagramEntities || fileConfig.diagramEntities,
+    clusterByDirectory: cliOptions.clusterByDirectory || fileConfig.clusterByDirectory,
+  };
+
+  const stats = cliOptions.stats || fileConfig.stats;
+
+  if (splitLimits && format !== 'scn') {
+    console.error('Error: --split and --split-bytes only apply to the scn format.');
+    process.exit(1);
+  }
+  if (stats && (format !== 'scn' || splitLimits)) {
+    console.error('Error: --stats only applies to the scn format, without --split.');
+    process.exit(1);
+  }
+
+  if ((command === 'serve' || command === 'lsp') && !cliOptions.stdio) {
+    console.error(`Error: ${command} needs a transport; only --stdio is supported.`);
+    process.exit(1);
+  }
+
+  // The language server works on the maps alone; the project only adds source to hovers.
+  if (command === 'lsp') {
+    console.error('[SCN-TS] Serving the SCN language server over stdio...');
+    await serveScnLanguageServer(config.include.length > 0 ? config : undefined);
+    return;
+  }
 
   if (config.include.length === 0) {
     console.error('Error: No input files specified. Provide glob patterns as arguments or in a config file.');
@@ -148,16 +385,64 @@ async function run() {
     process.exit(1);
   }
 
+  if (command === 'query') {
+    if (!query) {
+      console.error('Error: Missing query, e.g. scn-ts query "callers of AuthService.login".');
+      process.exit(1);
+    }
+    if (format !== 'scn' && format !== 'json') {
+      console.error('Error: query results can only be printed in the scn or json format.');
+      process.exit(1);
+    }
+    try {
+      const { scn, result } = await queryScn(config, query);
+      const text = format === 'json' ? JSON.stringify(result, null, 2) : scn;
+      if (output) {
+        await writeFile(output, text, 'utf-8');
+      } else if (text) {
+        console.log(text);
+      }
+      console.error(`[SCN-TS] ${result.ids.length} match${result.ids.length === 1 ? '' : 'es'}.`);
+    } catch (e: any) {
+      console.error(`Error: ${e.message}`);
+      process.exit(1);
+    }
+    return;
+  }
+
+  if (command === 'serve') {
+    // stdout carries the protocol, so progress goes to stderr.
+    console.error('[SCN-TS] Serving the SCN map over stdio...');
+    await serveScn(config);
+    return;
+  }
+
+  // Absolute paths of the chunk files written so far, which watch mode ignores.
+  const writtenChunks = new Set<string>();
+  // Entities of the previous map, to summarize what each re-generation changed.
+  let previousEntities: Map<string, string> | undefined;
+
   const executeGeneration = async () => {
     try {
       console.error(`[SCN-TS] Analyzing project...`);
-      const scn = await generateScn(config);
-      if (output) {
+      const { output: scn, document, chunks, stats: mapStats } = await generateOutput(config, format, diagramOptions, splitLimits, stats);
+      if (output && chunks) {
+        const paths = chunks.map(chunk => getChunkPath(output, chunk.index));
+        paths.forEach(path => writtenChunks.add(resolve(path)));
+        await Promise.all(chunks.map((chunk, index) => writeFile(paths[index]!, chunk.text, 'utf-8')));
+        console.error(`[SCN-TS] SCN map written to ${chunks.length} chunks: ${paths.map(path => relative(process.cwd(), path)).join(', ')}`);
+      } else if (output) {
         await writeFile(output, scn, 'utf-8');
         console.error(`[SCN-TS] SCN map written to ${relative(process.cwd(), output)}`);
       } else {
         console.log(scn);
       }
+      if (mapStats) console.error(formatStats(mapStats));
+      if (cliOptions.watch) {
+        const entities = snapshotEntities(document?.files ?? parseScn(scn).files);
+        if (previousEntities) console.error(`[SCN-TS] ${formatEntityChanges(diffEntitySnapshots(previousEntities, entities))}`);
+        previousEntities = entities;
+      }
     } catch (e: any) {
       console.error(`[SCN-TS] Error during generation: ${e.message}`);
       if (!cliOptions.watch) {
@@ -169,12 +454,30 @@ async function run() {
   await executeGeneration();
   
   if (cliOptions.watch) {
+    const root = resolve(config.root || process.cwd());
+    const stableIds = config.stableIds || config.compactIds;
+    const watcher = watchProject({
+      root,
+      // In a workspace, the globs apply inside every package.
+      include: config.workspace ? config.include.map(glob => posix.join('**', glob)) : config.include,
+      exclude: config.exclude,
+      // Never react to the files generation itself writes.
+      ignore: [
+        ...(output ? [resolve(output)] : []),
+        (path: string) => writtenChunks.has(path),
+        ...(config.cache ? [resolve(root, typeof config.cache === 'string' ? config.cache : DEFAULT_CACHE_DIR)] : []),
+        ...(stableIds ? [resolve(root, typeof stableIds === 'string' ? stableIds : DEFAULT_ID_LOCK_FILE)] : []),
+      ],
+      onChange: async changedPaths => {
+        console.error(`[SCN-TS] Change detected in ${changedPaths.map(path => `'${path}'`).join(', ')}. Re-generating...`);
+        await executeGeneration();
+      },
+    });
     console.error('[SCN-TS] Watching for file changes...');
-    watch(config.root || process.cwd(), { recursive: true }, async (_eventType, filename) => {
-        if (filename) {
-            console.error(`[SCN-TS] Change detected in '${filename}'. Re-generating...`);
-            await executeGeneration();
-        }
+    process.once('SIGINT', () => {
+      watcher.close();
+      console.error('[SCN-TS] Stopped watching.');
+      process.exit(0);
     });
   }
 }
@@ -182,4 +485,4 @@ async function run() {
 run().catch(e => {
     console.error(e);
     process.exit(1);
-});
\ No newline at end of file
+});
@@ -0,0 +1,123 @@
+import { posix } from 'path';
+import type { ScnJsonDocument, ScnJsonEntity, ScnJsonFile } from './scn-json';
+
+/** Options for rendering an SCN map as a Mermaid or Graphviz DOT diagram. */
+export interface DiagramOptions {
+  /**
+   * Also draw entities, grouped under their file, with their `->` links
+   * (calls, inheritance, references). By default only files and their
+   * imports are drawn.
+   */
+  entities?: boolean;
+  /** Group files into one cluster per directory. */
+  clusterByDirectory?: boolean;
+}
+
+/** A node or cluster of the diagram, independent of the output syntax. */
+type DiagramItem =
+  | { kind: 'node'; id: string; label: string }
+  | { kind: 'cluster'; id: string; label: string; items: DiagramItem[] };
+
+interface Diagram {
+  items: DiagramItem[];
+  edges: { from: string; to: string }[];
+}
+
+const fileNodeId = (fileId: string): string => `f${fileId}`;
+const entityNodeId = (entityId: string): string => `e${entityId.replace(/\./g, '_')}`;
+
+/** Diagram node ID for an SCN link target: `2.0` is file 2, `2.1` is an entity. */
+const linkTargetId = (id: string): string => id.endsWith('.0') ? fileNodeId(id.slice(0, -2)) : entityNodeId(id);
+
+const collectEntities = (entities: readonly ScnJsonEntity[], into: ScnJsonEntity[] = []): ScnJsonEntity[] => {
+  for (const entity of entities) {
+    into.push(entity);
+    collectEntities(entity.children, into);
+  }
+  return into;
+};
+
+/**
+ * Lays out the diagram shared by both syntaxes: file nodes labelled
+ * `§ (1) path`, entity nodes labelled `~ (1.2) name`, and the `->` links
+ * between them. Links to nodes outside the diagram are left out.
+ */
+const buildDiagram = (document: ScnJsonDocument, options: DiagramOptions): Diagram => {
+  const edges: Diagram['edges'] = [];
+  const nodeIds = new Set<string>();
+
+  const fileItems = document.files.map((file: ScnJsonFile): { path: string; item: DiagramItem } => {
+    const fileNode: DiagramItem = { kind: 'node', id: fileNodeId(file.id), label: `§ (${file.id}) ${file.path}` };
+    nodeIds.add(fileNode.id);
+    file.dependencies.forEach(link => link.kind === 'id' && edges.push({ from: fileNode.id, to: linkTargetId(link.id) }));
+    if (!options.entities) return { path: file.path, item: fileNode };
+
+    const entities = collectEntities(file.entities);
+    const entityNodes = entities.map((entity): DiagramItem => {
+      const id = entityNodeId(entity.id);
+      nodeIds.add(id);
+      entity.dependencies.forEach(link => link.kind === 'id' && edges.push({ from: id, to: linkTargetId(link.id) }));
+      return { kind: 'node', id, label: `${entity.symbol} (${entity.id}) ${entity.name}` };
+    });
+    return { path: file.path, item: { kind: 'cluster', id: `${fileNode.id}_entities`, label: '', items: [fileNode, ...entityNodes] } };
+  });
+
+  let items = fileItems.map(({ item }) => item);
+  if (options.clusterByDirectory) {
+    const byDirectory = new Map<string, DiagramItem[]>();
+    for (const { path, item } of fileItems) {
+      const directory = posix.dirname(path);
+      if (!byDirectory.has(directory)) byDirectory.set(directory, []);
+      byDirectory.get(directory)!.push(item);
+    }
+    items = [...byDirectory].flatMap(([directory, children], index): DiagramItem[] => directory === '.'
+      ? children
+      : [{ kind: 'cluster', id: `dir${index}`, label: `${directory}/`, items: children }]);
+  }
+
+  return { items, edges: edges.filter(edge => nodeIds.has(edge.to)) };
+};
+
+const escapeMermaid = (label: string): string => label.replace(/"/g, '#quot;');
+
+/**
+ * Renders an SCN map as a Mermaid flowchart, e.g. for GitHub PR descriptions
+ * and Markdown docs.
+ */
+export const renderMermaid = (document: ScnJsonDocument, options: DiagramOptions = {}): string => {
+  const { items, edges } = buildDiagram(document, options);
+  const lines = ['flowchart LR'];
+  const renderItem = (item: DiagramItem, indent: string) => {
+    if (item.kind === 'node') {
+      lines.push(`${indent}${item.id}["${escapeMermaid(item.label)}"]`);
+      return;
+    }
+    lines.push(`${indent}subgraph ${item.id} ["${escapeMermaid(item.label || ' ')}"]`);
+    item.items.forEach(child => renderItem(child, `${indent}  `));
+    lines.push(`${indent}end`);
+  };
+  items.forEach(item => renderItem(item, '  '));
+  edges.forEach(edge => lines.push(`  ${edge.from} --> ${edge.to}`));
+  return lines.join('\n');
+};
+
+const escapeDot = (label: string): string => label.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+/** Renders an SCN map as a Graphviz DOT digraph. */
+export const renderDot = (document: ScnJsonDocument, options: DiagramOptions = {}): string => {
+  const { items, edges } = buildDiagram(document, options);
+  const lines = ['digraph scn {', '  rankdir=LR;', '  node [shape=box, fontname="monospace"];'];
+  const renderItem = (item: DiagramItem, indent: string) => {
+    if (item.kind === 'node') {
+      lines.push(`${indent}${item.id} [label="${escapeDot(item.label)}"];`);
+      return;
+    }
+    lines.push(`${indent}subgraph cluster_${item.id} {`, `${indent}  label="${escapeDot(item.label)}";`);
+    item.items.forEach(child => renderItem(child, `${indent}  `));
+    lines.push(`${indent}}`);
+  };
+  items.forEach(item => renderItem(item, '  '));
+  edges.forEach(edge => lines.push(`  ${edge.from} -> ${edge.to};`));
+  lines.push('}');
+  return lines.join('\n');
+};
@@ -0,0 +1,88 @@
+/** What an entity's JSDoc/TSDoc comment contributes to the map. */
+export interface DocSummary {
+  /** First sentence of the description, without its final period. */
+  summary?: string;
+  /** Set for `@deprecated`; the first sentence of its reason, or `''` without one. */
+  deprecated?: string;
+  /** First sentence of the `@returns` text. */
+  returns?: string;
+  /** Whether the comment declares `@throws`/`@exception`. */
+  throws: boolean;
+}
+
+/** Default cap on the length of each summary sentence, in characters. */
+export const DEFAULT_DOC_MAX_LENGTH = 80;
+
+/**
+ * Finds the `/** ... *\/` comment documenting a declaration starting on
+ * `startLine` (1-based): the one on the line itself, or the one right above
+ * it, skipping blank lines and decorators.
+ */
+const findDocComment = (source: string, startLine: number): string | undefined => {
+  const lines = source.split('\n');
+  const declaration = lines[startLine - 1]?.trimStart() ?? '';
+  if (declaration.startsWith('/**')) {
+    const end = lines.findIndex((line, index) => index >= startLine - 1 && line.includes('*/'));
+    return end < 0 ? undefined : lines.slice(startLine - 1, end + 1).join('\n');
+  }
+  let end = startLine - 2;
+  while (end >= 0 && (lines[end]!.trim() === '' || lines[end]!.trim().startsWith('@'))) end--;
+  if (end < 0 || !lines[end]!.trimEnd().endsWith('*/')) return undefined;
+  for (let start = end; start >= 0; start--) {
+    const line = lines[start]!;
+    if (line.includes('/**')) return lines.slice(start, end + 1).join('\n');
+    // A plain `/*` comment, another comment's end or code ends the search.
+    if (line.includes('/*')) return undefined;
+    if (start < end && (line.includes('*/') || !line.trim().startsWith('*'))) return undefined;
+  }
+  return undefined;
+};
+
+/** The first sentence of `text`, with `{@link X}` reduced to `X` and capped at `maxLength` characters. */
+const firstSentence = (text: string, maxLength: number): string => {
+  const flat = text.replace(/\{@(?:link|linkcode|linkplain)\s+([^}|\s]+)(?:[\s|][^}]*)?\}/g, '$1').replace(/\s+/g, ' ').trim();
+  const sentence = (flat.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? flat).replace(/\.$/, '');
+  if (sentence.length <= maxLength) return sentence;
+  const cut = sentence.slice(0, maxLength - 1);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}…`;
+};
+
+/**
+ * Reads the doc comment of the declaration starting on `startLine` of
+ * `source`. Returns `undefined` when there is none.
+ */
+export const readDocSummary = (source: string, startLine: number, maxLength = DEFAULT_DOC_MAX_LENGTH): DocSummary | undefined => {
+  const comment = findDocComment(source, startLine);
+  if (!comment) return undefined;
+  const body = comment
+    .replace(/^\s*\/\*\*/, '')
+    .replace(/\*\/\s*$/, '')
+    .split('\n')
+    .map(line => line.replace(/^\s*\*(?!\/) ?/, ''))
+    .join('\n');
+
+  // The description runs up to the first block tag; each tag runs up to the next.
+  const [description = '', ...tagBlocks] = body.split(/^\s*(?=@\w)/m);
+  const tags = tagBlocks.map(block => {
+    const match = block.match(/^@(\w+)\s*([\s\S]*)$/)!;
+    return { name: match[1]!, text: match[2]! };
+  });
+  const tagText = (...names: string[]) => tags.find(tag => names.includes(tag.name))?.text;
+
+  const summary = firstSentence(description, maxLength);
+  const deprecated = tagText('deprecated');
+  const returns = tagText('returns', 'return');
+  return {
+    ...(summary && { summary }),
+    ...(deprecated !== undefined && { deprecated: firstSentence(deprecated, maxLength) }),
+    ...(returns && { returns: firstSentence(returns.replace(/^\{[^}]*\}\s*/, ''), maxLength) }),
+    throws: tagText('throws', 'exception') !== undefined,
+  };
+};
+
+/** Renders a summary for a trailing comment, e.g. `@deprecated Use signIn | Logs a user in | @returns the session`. */
+export const formatDocSummary = (doc: Omit<DocSummary, 'throws'>): string => [
+  doc.deprecated !== undefined && (doc.deprecated ? `@deprecated ${doc.deprecated}` : '@deprecated'),
+  doc.summary,
+  doc.returns && `@returns ${doc.returns}`,
+].filter(Boolean).join(' | ');
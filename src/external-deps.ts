@@ -0,0 +1,184 @@
+import type { CodeNode } from 'repograph';
+import ts from 'typescript';
+import { existsSync, statSync } from 'fs';
+import { join, posix } from 'path';
+import type { ModuleResolver } from './module-resolver';
+import type { SymbolTreeNode } from './serializer';
+
+const SCANNED_EXTENSIONS = /\.(?:[cm]?[jt]sx?)$/;
+const RESOLVABLE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts', '.css'];
+
+/** An import statement found in a source file. */
+export interface ImportStatement {
+  specifier: string;
+  /** Local binding names the import introduces, e.g. `useState` or `fs` in `* as fs`. */
+  bindings: string[];
+}
+
+/** Named references to modules outside the scanned graph, keyed by repograph node ID. */
+export interface ExternalReferences {
+  byFile: Map<string, string[]>;
+  byEntity: Map<string, string[]>;
+}
+
+const getBindings = (clause: ts.ImportClause | undefined): string[] => {
+  if (!clause) return [];
+  const bindings = clause.name ? [clause.name.text] : [];
+  const named = clause.namedBindings;
+  if (named && ts.isNamespaceImport(named)) bindings.push(named.name.text);
+  else if (named) bindings.push(...named.elements.map(element => element.name.text));
+  return bindings;
+};
+
+/** The module a `require('x')` or dynamic `import('x')` call loads. */
+const getCallSpecifier = (call: ts.CallExpression): string | undefined => {
+  const [argument] = call.arguments;
+  if (call.arguments.length !== 1 || !argument || !ts.isStringLiteralLike(argument)) return undefined;
+  const isImport = call.expression.kind === ts.SyntaxKind.ImportKeyword;
+  const isRequire = ts.isIdentifier(call.expression) && call.expression.text === 'require';
+  return isImport || isRequire ? argument.text : undefined;
+};
+
+/**
+ * Finds `import`/`export ... from`, `import x = require()`, `require()` and
+ * dynamic `import()` statements in JS/TS source. The source is parsed, so
+ * imports mentioned in comments and strings are not picked up.
+ *
+ * @param fileName - Decides how the source is parsed, e.g. with JSX for `.tsx` files.
+ */
+export const scanImports = (source: string, fileName = 'module.ts'): ImportStatement[] => {
+  const sourceFile = ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest);
+  const statements: ImportStatement[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+      statements.push({ specifier: node.moduleSpecifier.text, bindings: getBindings(node.importClause) });
+    } else if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+      statements.push({ specifier: node.moduleSpecifier.text, bindings: [] });
+    } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)
+      && ts.isStringLiteral(node.moduleReference.expression)) {
+      statements.push({ specifier: node.moduleReference.expression.text, bindings: [node.name.text] });
+    } else if (ts.isCallExpression(node)) {
+      const specifier = getCallSpecifier(node);
+      if (specifier !== undefined) statements.push({ specifier, bindings: [] });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return statements;
+};
+
+/** `lodash/fp/map` -> `lodash`, `@scope/pkg/sub` -> `@scope/pkg`, `node:fs/promises` -> `node:fs`. */
+export const getPackageName = (specifier: string): string => {
+  const segments = specifier.split('/');
+  return specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0]!;
+};
+
+export const isRelative = (specifier: string): boolean => specifier.startsWith('./') || specifier.startsWith('../') || specifier === '.' || specifier === '..';
+
+const isFile = (path: string): boolean => existsSync(path) && statSync(path).isFile();
+
+/** Project-relative paths a relative import could refer to, most likely first. */
+export const getCandidatePaths = (fromFile: string, specifier: string): string[] => {
+  const base = posix.normalize(posix.join(posix.dirname(fromFile), specifier));
+  // TypeScript ESM code imports `./x.js` for a `./x.ts` source file.
+  const withoutJs = base.replace(/\.(?:[cm]?js|jsx)$/, '');
+  return [
+    base,
+    ...RESOLVABLE_EXTENSIONS.map(ext => withoutJs + ext),
+    ...RESOLVABLE_EXTENSIONS.map(ext => `${base}/index${ext}`),
+  ];
+};
+
+/**
+ * Attributes import bindings to the innermost entities that mention them:
+ * an entity is credited only for its own lines, not for those of the
+ * entities nested in it.
+ *
+ * @returns The bindings each entity uses, keyed by repograph node ID.
+ */
+export const attributeBindings = (
+  source: string,
+  symbolTree: readonly SymbolTreeNode[],
+  bindings: readonly string[],
+): Map<string, string[]> => {
+  const usedBindings = new Map<string, string[]>();
+  if (bindings.length === 0) return usedBindings;
+  const lines = source.split('\n');
+  const patterns = bindings.map(binding => [binding, new RegExp(`(?<![\\w$.])${binding.replace(/\$/g, '\\$')}(?![\\w$])`)] as const);
+  const visit = (wrapper: SymbolTreeNode) => {
+    const childLines = new Set<number>();
+    for (const child of wrapper.children) {
+      for (let line = child.node.startLine; line <= child.node.endLine; line++) childLines.add(line);
+    }
+    const ownText = lines
+      .slice(wrapper.node.startLine - 1, wrapper.node.endLine)
+      .filter((_, i) => !childLines.has(wrapper.node.startLine + i))
+      .join('\n');
+    const used = patterns.filter(([, pattern]) => pattern.test(ownText)).map(([binding]) => binding);
+    if (used.length > 0) usedBindings.set(wrapper.node.id, used);
+    wrapper.children.forEach(visit);
+  };
+  symbolTree.forEach(visit);
+  return usedBindings;
+};
+
+/**
+ * Collects imports that the graph has no node for: npm packages, Node
+ * builtins and local files outside the include globs. Each becomes a named
+ * reference such as `(react)`, `(node:fs)` or `(src/legacy/util.ts)` (or
+ * `(./util.js)`, as written, when no such file exists) on the
+ * importing file, and on every entity whose own lines use one of the
+ * import's bindings.
+ *
+ * @param options.groupByPackage - Collapse subpath imports (`lodash/map`) to their package (`lodash`).
+ * @param options.resolveModule - Resolves aliased and workspace imports; those
+ *   landing on a scanned file are already `imports` edges and are skipped.
+ */
+export const collectExternalReferences = (
+  fileNodes: readonly CodeNode[],
+  symbolTrees: ReadonlyMap<string, SymbolTreeNode[]>,
+  getSource: (filePath: string) => string,
+  rootDir: string | undefined,
+  options: { groupByPackage?: boolean; resolveModule?: ModuleResolver } = {},
+): ExternalReferences => {
+  const scannedPaths = new Set(fileNodes.map(fileNode => fileNode.filePath));
+  const byFile = new Map<string, string[]>();
+  const byEntity = new Map<string, string[]>();
+
+  for (const fileNode of fileNodes) {
+    if (!SCANNED_EXTENSIONS.test(fileNode.filePath)) continue;
+    const source = getSource(fileNode.filePath);
+    if (!source) continue;
+
+    const bindingTargets = new Map<string, string>();
+    const fileRefs = new Set<string>();
+    for (const statement of scanImports(source, fileNode.filePath)) {
+      let name: string;
+      const resolved = options.resolveModule?.(statement.specifier, fileNode.filePath);
+      if (resolved && scannedPaths.has(resolved)) continue;
+      if (resolved && !resolved.startsWith('..') && !resolved.split('/').includes('node_modules')) {
+        // An aliased or workspace import of a project file outside the map.
+        name = resolved;
+      } else if (isRelative(statement.specifier)) {
+        const candidates = getCandidatePaths(fileNode.filePath, statement.specifier);
+        if (candidates.some(candidate => scannedPaths.has(candidate))) continue;
+        // Name the file that exists on disk, or the import as written when none does.
+        name = candidates.find(candidate => isFile(rootDir ? join(rootDir, candidate) : candidate)) ?? statement.specifier;
+      } else {
+        name = options.groupByPackage ? getPackageName(statement.specifier) : statement.specifier;
+      }
+      fileRefs.add(name);
+      statement.bindings.forEach(binding => bindingTargets.set(binding, name));
+    }
+    if (fileRefs.size === 0) continue;
+    byFile.set(fileNode.id, [...fileRefs]);
+
+    // Attribute each binding to the innermost entities that mention it.
+    const usedBindings = attributeBindings(source, symbolTrees.get(fileNode.id) || [], [...bindingTargets.keys()]);
+    for (const [entityId, bindings] of usedBindings) {
+      byEntity.set(entityId, [...new Set(bindings.map(binding => bindingTargets.get(binding)!))]);
+    }
+  }
+
+  return { byFile, byEntity };
+};
@@ -0,0 +1,112 @@
+import type { CodeNode, RankedCodeGraph } from 'repograph';
+import type { CodeEdge, SymbolTreeNode } from './serializer';
+
+/** Which nodes a focused map renders in full, which it renders as bare ID stubs, and which it leaves out. */
+export interface FocusSlice {
+  omitted: Set<string>;
+  stubs: Set<string>;
+}
+
+const normalizePath = (path: string): string => path.replace(/\\/g, '/').replace(/^\.\//, '');
+
+const matchesSymbol = (node: CodeNode, symbol: string): boolean =>
+  node.name === symbol || node.name.split('.').pop() === symbol;
+
+/**
+ * Resolves `--focus` targets to repograph node IDs. A target is a file path
+ * (`src/api.ts`), which selects the file and every entity in it, or a symbol
+ * inside a file (`src/api.ts#AuthService.login`).
+ */
+const resolveFocusTargets = (graph: RankedCodeGraph, focus: readonly string[]): Set<string> => {
+  const seeds = new Set<string>();
+  for (const target of focus) {
+    const hashIndex = target.indexOf('#');
+    const filePath = normalizePath(hashIndex === -1 ? target : target.slice(0, hashIndex));
+    const symbol = hashIndex === -1 ? undefined : target.slice(hashIndex + 1);
+
+    const matches = [...graph.nodes.values()].filter(node =>
+      (!filePath || node.filePath === filePath) &&
+      (symbol ? node.type !== 'file' && matchesSymbol(node, symbol) : true));
+    if (matches.length === 0) {
+      throw new Error(`Focus target '${target}' does not match any file or symbol.`);
+    }
+    matches.forEach(node => seeds.add(node.id));
+  }
+  return seeds;
+};
+
+/**
+ * Computes the k-hop neighborhood of the focus targets.
+ *
+ * The walk follows every `->`/`<-` edge in both directions. Nodes within
+ * `depth` hops are rendered in full; nodes one hop further are kept as bare
+ * ID stubs so that links out of the slice still point at a declaration.
+ * Enclosing entities of anything visible are stubbed too, which keeps the
+ * indentation hierarchy intact.
+ */
+export const computeFocusSlice = (
+  graph: RankedCodeGraph,
+  symbolTrees: ReadonlyMap<string, SymbolTreeNode[]>,
+  focus: readonly string[],
+  depth: number,
+): FocusSlice => {
+  const neighbors = new Map<string, Set<string>>();
+  const link = (from: string, to: string) => {
+    if (!neighbors.has(from)) neighbors.set(from, new Set());
+    neighbors.get(from)!.add(to);
+  };
+  for (const edge of graph.edges as CodeEdge[]) {
+    if (edge.type === 'contains') continue;
+    link(edge.fromId, edge.toId);
+    link(edge.toId, edge.fromId);
+  }
+
+  const reached = resolveFocusTargets(graph, focus);
+  const stubs = new Set<string>();
+  let frontier = [...reached];
+  for (let hop = 0; hop <= depth && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const neighbor of neighbors.get(id) ?? []) {
+        if (reached.has(neighbor) || stubs.has(neighbor)) continue;
+        if (hop < depth) {
+          reached.add(neighbor);
+          next.push(neighbor);
+        } else {
+          stubs.add(neighbor);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  const parents = new Map<string, string>();
+  const recordParents = (wrapper: SymbolTreeNode) => {
+    for (const child of wrapper.children) {
+      parents.set(child.node.id, wrapper.node.id);
+      recordParents(child);
+    }
+  };
+  symbolTrees.forEach(trees => trees.forEach(recordParents));
+
+  const fileIdByPath = new Map<string, string>();
+  for (const node of graph.nodes.values()) {
+    if (node.type === 'file') fileIdByPath.set(node.filePath, node.id);
+  }
+
+  for (const id of [...reached, ...stubs]) {
+    const node = graph.nodes.get(id);
+    if (!node || node.type === 'file') continue;
+    for (let parent = parents.get(id); parent && !reached.has(parent); parent = parents.get(parent)) {
+      stubs.add(parent);
+    }
+    const fileId = fileIdByPath.get(node.filePath);
+    if (fileId && !reached.has(fileId)) stubs.add(fileId);
+  }
+
+  const omitted = new Set<string>();
+  for (const id of graph.nodes.keys()) {
+    if (!reached.has(id) && !stubs.has(id)) omitted.add(id);
+  }
+  return { omitted, stubs };
+};
@@ -0,0 +1,47 @@
+/** Converts a glob (`src/**\/*.{ts,tsx}`) to a regular expression matching project-relative paths. */
+export const globToRegExp = (glob: string): RegExp => {
+  let pattern = '';
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === '*' && glob[i + 1] === '*') {
+      const isSegment = glob[i + 2] === '/';
+      pattern += isSegment ? '(?:.*/)?' : '.*';
+      i += isSegment ? 2 : 1;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      pattern += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      pattern += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      pattern += '|';
+    } else if (char === '[' && glob.indexOf(']', i) > i) {
+      const end = glob.indexOf(']', i);
+      pattern += glob.slice(i, end + 1).replace(/^\[!/, '[^');
+      i = end;
+    } else {
+      pattern += char.replace(/[.+^$()|\\[\]]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+};
+
+/**
+ * Creates a test for project-relative paths: it passes paths matching an
+ * include glob and no exclude glob. An exclude glob matching a directory
+ * excludes everything in it.
+ */
+export const createPathMatcher = (include: readonly string[], exclude: readonly string[] = []): (path: string) => boolean => {
+  const includes = include.map(glob => globToRegExp(glob.replace(/^\.\//, '')));
+  const excludes = exclude.map(glob => globToRegExp(glob.replace(/^\.\//, '')));
+  return path => {
+    const segments = path.split('/');
+    const isExcluded = segments.some((_, i) => excludes.some(pattern => pattern.test(segments.slice(0, i + 1).join('/'))));
+    return !isExcluded && includes.some(pattern => pattern.test(path));
+  };
+};
@@ -0,0 +1,195 @@
+import type { CodeNode } from 'repograph';
+import ts from 'typescript';
+import { getPackageName, scanImports, type ImportStatement } from './external-deps';
+
+/** Options of the purity heuristic that marks functions `o`. */
+export interface ScnPurityOptions {
+  /**
+   * Further patterns that make a function impure, on top of the built-in
+   * ones (`console.`, `fetch(`, mutating array methods, ...). Strings match
+   * literally, e.g. `logger.` or `db.query(`.
+   */
+  impurePatterns?: (string | RegExp)[];
+  /**
+   * Packages whose exports are known to be pure, e.g. `lodash/fp` or
+   * `date-fns`; a package covers its subpaths. When set, a function that
+   * calls anything imported from another module, including relative ones,
+   * is not pure.
+   */
+  pureModules?: string[];
+  /**
+   * Check the parsed body of every function, method and arrow function in
+   * JavaScript and TypeScript files, so that a lone `return` or an arrow's
+   * expression counts over any number of lines. Without it, only
+   * `export function` declarations whose body is a single `return ...;` are.
+   * @default false
+   */
+  parseBodies?: boolean;
+}
+
+/** Tunes the heuristics that pick symbols and qualifiers from source text. */
+export interface ScnHeuristics {
+  /**
+   * Which functions are components (`◇`, with their props as signature):
+   * `'pascal-case'` any PascalCase function, `'jsx'` PascalCase functions
+   * that return JSX or are typed as `FC`/`FunctionComponent`, a predicate
+   * called for every function with its source text, or `false` for none.
+   * @default 'pascal-case'
+   */
+  components?: 'pascal-case' | 'jsx' | false | ((node: CodeNode, source: string) => boolean);
+  /**
+   * Show PascalCase variables and constants, e.g. `const Api = { ... }`, as
+   * `◇` containers (the module pattern), with an object literal value shown
+   * without `=`. `false` shows them as `@` variables.
+   * @default true
+   */
+  moduleContainers?: boolean;
+  /**
+   * Mark functions whose body is a single `return` without side effects as
+   * pure (`o`). `false` turns it off.
+   * @default true
+   */
+  purity?: boolean | ScnPurityOptions;
+}
+
+/** The heuristics of a serialization, bound to the project's sources. */
+export interface NodeHeuristics {
+  isComponent: (node: CodeNode) => boolean;
+  isModuleContainer: (node: CodeNode) => boolean;
+  isPure: (node: CodeNode) => boolean;
+}
+
+const DEFAULT_IMPURE_PATTERNS: readonly RegExp[] = [
+  /console\./,
+  /document\./,
+  /window\./,
+  /localStorage/,
+  /sessionStorage/,
+  /fetch\(/,
+  /XMLHttpRequest/,
+  /setTimeout/,
+  /setInterval/,
+  /Math\.random/,
+  /Date\(/,
+  /new Date/,
+  /\.push\(/,
+  /\.pop\(/,
+  /\.shift\(/,
+  /\.unshift\(/,
+  /\.splice\(/,
+  /\.sort\(/,
+  /\.reverse\(/,
+  /\+\+/,
+  /--/,
+  /\w+\s*=\s*(?!.*return)/,
+];
+
+const FUNCTION_TYPES = ['function', 'arrow_function'];
+const SCRIPT_FILE = /\.[cm]?[jt]sx?$/;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** The lines a node spans, or `''` when they are out of range. */
+const getNodeSource = (node: CodeNode, source: string): string => {
+  const lines = source.split('\n');
+  const startLine = node.startLine - 1;
+  const endLine = node.endLine - 1;
+  if (startLine < 0 || endLine >= lines.length) return '';
+  return lines.slice(startLine, endLine + 1).join('\n');
+};
+
+/** Whether a function only returns a value: a lone `return` statement, or an arrow's expression body. */
+const isSingleReturn = (fn: ts.FunctionLikeDeclaration): boolean => {
+  if (!fn.body) return false;
+  if (!ts.isBlock(fn.body)) return true;
+  const [statement, ...rest] = fn.body.statements;
+  return rest.length === 0 && !!statement && ts.isReturnStatement(statement) && !!statement.expression;
+};
+
+const returnsJsx = (text: string): boolean =>
+  /(?:\breturn|=>)\s*\(?\s*<(?:[A-Za-z][\w.]*|>)/.test(text)
+  || /:\s*(?:React\.)?(?:FC|FunctionComponent|VFC)\b/.test(text);
+
+/**
+ * Binds the configured heuristics to the project's sources. `readSource`
+ * reads a project-relative file, returning `''` when it is missing.
+ */
+export const createNodeHeuristics = (options: ScnHeuristics = {}, readSource: (filePath: string) => string): NodeHeuristics => {
+  const { components = 'pascal-case', moduleContainers = true, purity = true } = options;
+  const purityOptions: ScnPurityOptions = typeof purity === 'object' ? purity : {};
+  const impurePatterns = [
+    ...DEFAULT_IMPURE_PATTERNS,
+    ...(purityOptions.impurePatterns ?? []).map(pattern => typeof pattern === 'string' ? new RegExp(escapeRegExp(pattern)) : pattern),
+  ];
+  const pureModules = purityOptions.pureModules;
+  const importsByFile = new Map<string, ImportStatement[]>();
+  const getImports = (filePath: string): ImportStatement[] => {
+    if (!importsByFile.has(filePath)) importsByFile.set(filePath, scanImports(readSource(filePath), filePath));
+    return importsByFile.get(filePath)!;
+  };
+  // The outermost function, method or arrow function starting on each line of a file, by 1-based line.
+  const functionsByFile = new Map<string, Map<number, ts.FunctionLikeDeclaration>>();
+  const getFunctionAt = (node: CodeNode): ts.FunctionLikeDeclaration | undefined => {
+    if (!functionsByFile.has(node.filePath)) {
+      const functions = new Map<number, ts.FunctionLikeDeclaration>();
+      const sourceFile = ts.createSourceFile(node.filePath, readSource(node.filePath), ts.ScriptTarget.Latest, true);
+      const visit = (child: ts.Node) => {
+        if (ts.isFunctionDeclaration(child) || ts.isMethodDeclaration(child) || ts.isArrowFunction(child) || ts.isFunctionExpression(child)) {
+          const line = sourceFile.getLineAndCharacterOfPosition(child.getStart(sourceFile)).line + 1;
+          if (!functions.has(line)) functions.set(line, child);
+        }
+        ts.forEachChild(child, visit);
+      };
+      visit(sourceFile);
+      functionsByFile.set(node.filePath, functions);
+    }
+    return functionsByFile.get(node.filePath)!.get(node.startLine);
+  };
+  const isPureModule = (specifier: string) => !!pureModules?.some(pure =>
+    specifier === pure || specifier.startsWith(`${pure}/`) || getPackageName(specifier) === pure);
+
+  // Whether the body calls anything imported from a module that is not known to be pure.
+  const callsImpureImport = (node: CodeNode, body: string): boolean => getImports(node.filePath)
+    .filter(statement => !isPureModule(statement.specifier))
+    .some(statement => statement.bindings.some(binding =>
+      new RegExp(`(?<![\\w$.])${escapeRegExp(binding)}(?:\\s*\\.\\s*[\\w$]+)*\\s*\\(`).test(body)));
+
+  const isComponent = (node: CodeNode): boolean => {
+    if (!components || !FUNCTION_TYPES.includes(node.type)) return false;
+    if (typeof components === 'function') return components(node, getNodeSource(node, readSource(node.filePath)));
+    if (!/^[A-Z]/.test(node.name)) return false;
+    return components === 'pascal-case' || returnsJsx(getNodeSource(node, readSource(node.filePath)));
+  };
+
+  // The text to look for side effects in, and whether it only returns a value.
+  const readBody = (node: CodeNode): { body: string; returnsOnly: boolean } | undefined => {
+    if (purityOptions.parseBodies) {
+      const fn = SCRIPT_FILE.test(node.filePath) ? getFunctionAt(node) : undefined;
+      return fn?.body && { body: fn.body.getText(), returnsOnly: isSingleReturn(fn) };
+    }
+    if (!node.codeSnippet) return undefined;
+    const body = getNodeSource(node, readSource(node.filePath));
+    return body ? {
+      body,
+      returnsOnly: /^\s*export\s+(?:async\s+)?function\s+\w+\([^)]*\)(?:\s*:\s*[^{]+)?\s*{\s*return\s+[^;]+;\s*}\s*$/.test(body.replace(/\n/g, ' ')),
+    } : undefined;
+  };
+
+  const isPure = (node: CodeNode): boolean => {
+    if (!purity) return false;
+    if (!['function', 'method', 'arrow_function'].includes(node.type)) return false;
+    const checked = readBody(node);
+    if (!checked) return false;
+    // If it contains any impure patterns, it's not pure
+    if (impurePatterns.some(pattern => pattern.test(checked.body))) return false;
+    if (pureModules && callsImpureImport(node, checked.body)) return false;
+    // If it only contains return statements and basic operations, likely pure
+    return checked.returnsOnly;
+  };
+
+  return {
+    isComponent,
+    isModuleContainer: node => moduleContainers && (node.type === 'variable' || node.type === 'constant') && /^[A-Z]/.test(node.name),
+    isPure,
+  };
+};
@@ -0,0 +1,130 @@
+import type { CodeNode, RankedCodeGraph } from 'repograph';
+import { readFile, writeFile } from 'fs/promises';
+
+/** Default lockfile name, resolved against the project root. */
+export const DEFAULT_ID_LOCK_FILE = '.scn-ids.json';
+
+const ID_LOCK_VERSION = 1;
+
+/** The persisted IDs of one file and its entities. */
+export interface ScnIdLockFile {
+  id: number;
+  /** Next entity number to hand out. Numbers of removed entities are never reused. */
+  nextEntityId: number;
+  /** Entity key (see `getEntityLockKeys`) -> entity number. */
+  entities: Record<string, number>;
+}
+
+/**
+ * Contents of an SCN ID lockfile. IDs recorded here survive across runs, so
+ * adding a file or function no longer renumbers everything after it.
+ */
+export interface ScnIdLock {
+  version: typeof ID_LOCK_VERSION;
+  /** Next file number to hand out. Numbers of removed files are never reused. */
+  nextFileId: number;
+  /** File path -> IDs of that file. */
+  files: Record<string, ScnIdLockFile>;
+}
+
+/**
+ * Computes the lock keys for a file's entities: the qualified symbol name
+ * (e.g. `AuthService.login`), suffixed with `#2`, `#3`, ... when the same name
+ * occurs more than once in the file, counted in line order.
+ */
+export const getEntityLockKeys = (entities: readonly CodeNode[]): Map<string, string> => {
+  const occurrences = new Map<string, number>();
+  const keys = new Map<string, string>();
+  for (const entity of [...entities].sort((a, b) => a.startLine - b.startLine)) {
+    const count = (occurrences.get(entity.name) ?? 0) + 1;
+    occurrences.set(entity.name, count);
+    keys.set(entity.id, count === 1 ? entity.name : `${entity.name}#${count}`);
+  }
+  return keys;
+};
+
+/**
+ * Brings a lock up to date with the graph. Files and entities already in the
+ * lock keep their numbers, new ones take fresh numbers, and entries for
+ * entities removed from a file are dropped without their numbers being reused.
+ * Files missing from the graph keep their entries, since a run over narrower
+ * globs does not see them; only `compact` prunes them.
+ *
+ * @param graph - The graph about to be serialized.
+ * @param previous - The lock from an earlier run, if any.
+ * @param options.compact - Discard previous numbers and renumber everything
+ *   sequentially by path and line order, closing the gaps left by removals.
+ * @returns A new lock covering every file and entity in the graph, and the files of `previous` outside it.
+ */
+export const updateIdLock = (
+  graph: RankedCodeGraph,
+  previous?: ScnIdLock,
+  options: { compact?: boolean } = {},
+): ScnIdLock => {
+  const base = options.compact ? undefined : previous;
+  const lock: ScnIdLock = { version: ID_LOCK_VERSION, nextFileId: base?.nextFileId ?? 1, files: {} };
+
+  const entitiesByFile = new Map<string, CodeNode[]>();
+  const fileNodes: CodeNode[] = [];
+  for (const node of graph.nodes.values()) {
+    if (node.type === 'file') {
+      fileNodes.push(node);
+    } else {
+      if (!entitiesByFile.has(node.filePath)) entitiesByFile.set(node.filePath, []);
+      entitiesByFile.get(node.filePath)!.push(node);
+    }
+  }
+  fileNodes.sort((a, b) => a.filePath.localeCompare(b.filePath));
+
+  for (const fileNode of fileNodes) {
+    const previousFile = base?.files[fileNode.filePath];
+    const file: ScnIdLockFile = {
+      id: previousFile?.id ?? lock.nextFileId++,
+      nextEntityId: previousFile?.nextEntityId ?? 1,
+      entities: {},
+    };
+    const entities = (entitiesByFile.get(fileNode.filePath) || []).sort((a, b) => a.startLine - b.startLine);
+    const keys = getEntityLockKeys(entities);
+    for (const entity of entities) {
+      const key = keys.get(entity.id)!;
+      file.entities[key] = previousFile?.entities[key] ?? file.nextEntityId++;
+    }
+    lock.files[fileNode.filePath] = file;
+  }
+
+  if (base) {
+    for (const [path, file] of Object.entries(base.files)) {
+      if (!lock.files[path]) lock.files[path] = file;
+    }
+    // Keep the lockfile sorted by path so that it diffs cleanly.
+    lock.files = Object.fromEntries(Object.entries(lock.files).sort(([a], [b]) => a.localeCompare(b)));
+  }
+
+  return lock;
+};
+
+/** Reads a lockfile, returning `undefined` when it does not exist yet. */
+export const readIdLock = async (path: string): Promise<ScnIdLock | undefined> => {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf-8');
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return undefined;
+    throw e;
+  }
+
+  let lock: ScnIdLock;
+  try {
+    lock = JSON.parse(content);
+  } catch {
+    throw new Error(`Invalid SCN ID lockfile at ${path}: not valid JSON.`);
+  }
+  if (lock?.version !== ID_LOCK_VERSION || typeof lock.files !== 'object') {
+    throw new Error(`Invalid SCN ID lockfile at ${path}: unsupported version ${lock?.version}.`);
+  }
+  return lock;
+};
+
+export const writeIdLock = async (path: string, lock: ScnIdLock): Promise<void> => {
+  await writeFile(path, `${JSON.stringify(lock, null, 2)}\n`, 'utf-8');
+};
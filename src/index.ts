@@ -1,6 +1,43 @@
-import { analyzeProject } from 'repograph';
+import { analyzeProject, createDefaultDiscoverer, createPageRanker, createTreeSitterAnalyzer } from 'repograph';
 import type { RankedCodeGraph, RepoGraphOptions } from 'repograph';
-import { serializeGraph } from './serializer';
+import { posix, resolve } from 'path';
+import type { Readable, Writable } from 'stream';
+import type ts from 'typescript';
+import { getSourceSpans, serializeGraph, serializeGraphQuery, serializeGraphToChunks, serializeGraphToJson, serializeGraphWithStats, type ScnDetailLevel, type SerializeOptions } from './serializer';
+import type { ScnChunk, ScnSplitLimits } from './split';
+import type { ScnStats, ScnTokenizer } from './stats';
+import type { ScnQueryResult } from './query';
+import { serveStdio } from './server';
+import { serveLanguageServer } from './lsp';
+import type { ScnJsonDocument } from './scn-json';
+import { addResolvedImportEdges, createModuleResolver, readTsconfig, type ModuleResolver } from './module-resolver';
+import { createTsProgram, enrichGraphWithTypeChecker } from './type-checker';
+import { collectPublicApi, readPackageEntryPoints, type PublicApi } from './public-api';
+import { discoverWorkspacePackages, selectWorkspacePackages } from './workspace';
+import { analyzeWithCache, DEFAULT_CACHE_DIR, readFragmentCache, writeFragmentCache } from './cache';
+import { augmentGraph, validatePlugins, type ScnPlugin } from './plugin';
+import type { ScnHeuristics } from './heuristics';
+import { DEFAULT_ID_LOCK_FILE, readIdLock, updateIdLock, writeIdLock } from './id-lock';
+import { readGitChanges, type ScnFileChange } from './changes';
+
+export { parseScn, ScnParseError } from './parser';
+export type { ScnDocument, ScnFile, ScnEntity, ScnReference } from './parser';
+export type { ScnIdLock } from './id-lock';
+export type { ScnDetailLevel, ScnSymbol } from './serializer';
+export type { ScnPlugin, ScnPluginContext } from './plugin';
+export type { ScnChunk, ScnSplitLimits } from './split';
+export { formatStats, type ScnStats, type ScnFileStats, type ScnTokenizer } from './stats';
+export { estimateTokens } from './tokens';
+export { runQuery, ScnQueryError, type ScnQueryResult } from './query';
+export { readGitChanges, type ScnFileChange } from './changes';
+export type { ScnHeuristics, ScnPurityOptions } from './heuristics';
+export { discoverWorkspacePackages, type WorkspacePackage } from './workspace';
+export { SCN_JSON_SCHEMA_VERSION } from './scn-json';
+export { renderMermaid, renderDot, type DiagramOptions } from './diagram';
+export { invalidateSourceFiles, getSourceSpans, type ScnSourceSpan } from './serializer';
+export { watchProject, snapshotEntities, diffEntitySnapshots, formatEntityChanges, type WatchOptions, type EntityChanges } from './watch';
+export { DEFAULT_CACHE_DIR, DEFAULT_ID_LOCK_FILE };
+export type { ScnJsonDocument, ScnJsonFile, ScnJsonEntity, ScnJsonLink } from './scn-json';
 
 /**
  * Configuration options for generating an SCN map.
@@ -9,11 +46,16 @@ import { serializeGraph } from './serializer';
 export interface ScnTsConfig {
   /** The root directory of the project to analyze. Defaults to the current working directory. */
   root?: string;
-  /** Glob patterns for files to include. */
+  /** Glob patterns for files to include. In `workspace` mode they are relative to each package. */
   include: string[];
-  /** Glob patterns for files to exclude. */
+  /** Glob patterns for files to exclude. In `workspace` mode they are relative to each package. */
   exclude?: string[];
-  /** Path to the project's tsconfig.json. (Not currently used by repograph) */
+  /**
+   * Path to the project's tsconfig.json, relative to the root. When set, a
+   * TypeScript program is built from it and the type checker supplies
+   * exports, modifiers, parameter and return types and symbol references.
+   * A tsconfig that cannot be read is skipped with a warning.
+   */
   project?: string;
   /**
    * The maximum number of parallel workers to use for analysis.
@@ -22,32 +64,343 @@ export interface ScnTsConfig {
    * @default 1
    */
   maxWorkers?: number;
-  /** (Future) An array of language parser plugins. */
-  // plugins?: unknown[];
+  /**
+   * Approximate token budget for the generated map. When the full map is larger,
+   * the lowest-ranked entities and then files are omitted, and a footer notes what was dropped.
+   */
+  maxTokens?: number;
+  /**
+   * Emit only the neighborhood of these targets. Each target is a file path
+   * (`src/api.ts`) or a symbol inside a file (`src/api.ts#AuthService.login`).
+   */
+  focus?: string[];
+  /**
+   * Number of dependency/caller hops around the `focus` targets to include.
+   * Neighbors one hop further are shown as bare ID stubs.
+   * @default 1
+   */
+  depth?: number;
+  /**
+   * Emit only the files changed since this git ref (a branch, tag or commit)
+   * and their direct dependencies and dependents (`depth` hops), marking the
+   * changed files and entities `// changed`. Uncommitted and untracked files
+   * count as changed. Only the local repository is read.
+   */
+  since?: string;
+  /**
+   * Like `since`, with the changed files given instead of read from git:
+   * paths relative to the root, or `ScnFileChange`s whose line ranges pick
+   * the changed entities. Ignored when `since` is set.
+   */
+  changedFiles?: (string | ScnFileChange)[];
+  /**
+   * Keep IDs stable across runs by persisting them in a lockfile keyed by file
+   * path and qualified symbol name. `true` uses `.scn-ids.json` in the root;
+   * a string is a lockfile path relative to the root.
+   */
+  stableIds?: boolean | string;
+  /**
+   * Renumber all IDs sequentially, closing gaps left by removed files and
+   * entities, and rewrite the lockfile. Implies `stableIds`.
+   */
+  compactIds?: boolean;
+  /**
+   * Name imported packages by package (`-> (lodash)`) instead of by the
+   * module imported (`-> (lodash/debounce)`).
+   */
+  groupExternalDependencies?: boolean;
+  /**
+   * How much of each file to emit: `files` for the `§` headers and their
+   * links only, `api` for the public (`+`) surface, `full` for everything.
+   * @default 'full'
+   */
+  detail?: ScnDetailLevel;
+  /**
+   * Emit files, and the top-level entities of each file, by `path` or by
+   * repograph `rank`, most central first, so that the hubs of the codebase
+   * come first. IDs follow the order, unless `stableIds` pins them.
+   * @default 'path'
+   */
+  order?: 'path' | 'rank';
+  /** Annotate each `§` header with the file's rank normalized to the most central file (`// importance 0.42`). */
+  importance?: boolean;
+  /**
+   * Emit only a package's public API: the entities reachable from the entry
+   * files in its `package.json` (`exports`, `types`, `module` or `main`),
+   * following re-exports, each labelled with the paths it is exported under.
+   * `true` uses the package.json in the root; a string is a package
+   * directory relative to the root.
+   */
+  publicApi?: boolean | string;
+  /**
+   * Treat the root as an npm, yarn, pnpm or bun workspace: discover its
+   * packages from package.json `workspaces` or pnpm-workspace.yaml, analyze
+   * each one and group the map by package. Imports of other workspace
+   * packages link to their files and entities.
+   */
+  workspace?: boolean;
+  /**
+   * In `workspace` mode, only map these packages (by name) and the
+   * workspace packages they depend on.
+   */
+  packages?: string[];
+  /**
+   * Cache per-file analysis results on disk, keyed by content hash and the
+   * scn-ts and repograph versions, so that later runs only re-analyze
+   * changed files and their dependents. The serialized form of each file
+   * is cached too, and reused while nothing it shows changed. `true` uses
+   * `.scn-cache/` in the root; a string is a cache directory relative to the root.
+   */
+  cache?: boolean | string;
+  /**
+   * Append the first sentence of each entity's JSDoc/TSDoc comment as a
+   * trailing `// ...` comment, together with its `@deprecated` reason and
+   * `@returns` text; `@throws` adds the `!` qualifier. `maxLength` caps each
+   * sentence.
+   * @default { maxLength: 80 } when enabled
+   */
+  includeDocs?: boolean | { maxLength?: number };
+  /**
+   * Tunes the heuristics that read source text: which functions are
+   * components, whether PascalCase constants are `◇` containers, and which
+   * functions are pure (`o`), with extra impure patterns and an allow-list
+   * of pure packages. Each heuristic can be turned off.
+   */
+  heuristics?: ScnHeuristics;
+  /**
+   * Plugins that surface framework conventions in the map: they can add
+   * nodes and edges to the graph, override the symbol and signature of
+   * nodes, and post-process each file's output. See `ScnPlugin`.
+   */
+  plugins?: ScnPlugin[];
+  /**
+   * Counts tokens for the statistics of `generateScnWithStats`, e.g. with
+   * the tokenizer of the target model. Defaults to `estimateTokens`, about
+   * four characters per token.
+   */
+  tokenizer?: ScnTokenizer;
+}
+
+/** The SCN map of a project together with statistics about it. */
+export interface ScnResult {
+  scn: string;
+  stats: ScnStats;
 }
 
 /**
- * High-level API to generate an SCN context map from a project.
- *
- * This function orchestrates the entire process:
- * 1. Invokes `repograph` to analyze the codebase and build a `RankedCodeGraph`.
- * 2. Serializes the resulting graph into the SCN text format.
- *
- * @param config - The configuration specifying which files to analyze.
- * @returns A promise that resolves to the SCN map as a string.
+ * Returns `tsconfigPath` if the tsconfig can be read. Otherwise it warns and
+ * returns `undefined`, so that the map is built without the resolution and
+ * type-checking steps rather than not at all.
+ */
+const findReadableTsconfig = (tsconfigPath: string): string | undefined => {
+  try {
+    readTsconfig(tsconfigPath);
+    return tsconfigPath;
+  } catch (error) {
+    console.warn(`[SCN-TS] Ignoring "project": ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+};
+
+/**
+ * Runs the analysis pipeline shared by all output formats:
+ * 1. Invokes `repograph` to analyze the codebase and build a `RankedCodeGraph`,
+ *    reusing cached results for unchanged files when `cache` is set.
+ *    When a `project` tsconfig is given, imports are resolved through its `paths`
+ *    and package `exports`, and the type checker enriches the graph; a
+ *    tsconfig that cannot be read is reported and skipped. In a
+ *    workspace, every package is analyzed and imports between them are
+ *    resolved. Plugins then add their nodes and edges. With `publicApi`, the
+ *    entities reachable from the package entry points are found.
+ * 2. Optionally reconciles the graph with a lockfile of stable IDs, which is
+ *    written back afterwards unless `readOnly` is set, as it is for commands
+ *    that only look at the map (`query`, `serve`, `lsp`).
+ * 3. Serializes the resulting graph with `serialize`, restricted to the files
+ *    changed since the `since` ref (or to `changedFiles`) when one is set.
+ *    With `cache`, files whose output is unchanged since the last run are
+ *    taken from the cache rather than described again.
  */
-export const generateScn = async (config: ScnTsConfig): Promise<string> => {
+const runPipeline = async <T>(
+  config: ScnTsConfig,
+  serialize: (graph: RankedCodeGraph, rootDir: string | undefined, options: SerializeOptions) => T,
+  { readOnly = false }: { readOnly?: boolean } = {},
+): Promise<T> => {
+  const root = resolve(config.root ?? process.cwd());
+  const plugins = validatePlugins(config.plugins);
+  const allPackages = config.workspace ? discoverWorkspacePackages(root) : undefined;
+  const packages = allPackages && config.packages?.length ? selectWorkspacePackages(allPackages, config.packages) : allPackages;
+  // In a workspace, the globs apply inside every package.
+  const inPackages = (globs: string[] | undefined) =>
+    packages && globs ? packages.flatMap(pkg => globs.map(glob => posix.join(pkg.dir, glob))) : globs;
+
   // 1. repograph analyzes the project and returns a structured graph.
   const repoGraphOptions: RepoGraphOptions = {
     root: config.root,
-    include: config.include,
-    ignore: config.exclude,
+    include: inPackages(config.include)!,
+    ignore: inPackages(config.exclude),
     maxWorkers: config.maxWorkers,
     // We can set other repograph options here if needed, e.g. rankingStrategy
   };
-  const graph: RankedCodeGraph = await analyzeProject(repoGraphOptions);
+  const cacheDir = config.cache
+    ? resolve(root, typeof config.cache === 'string' ? config.cache : DEFAULT_CACHE_DIR)
+    : undefined;
+  let graph: RankedCodeGraph = cacheDir
+    ? await analyzeWithCache(repoGraphOptions, cacheDir, {
+      discover: createDefaultDiscoverer(),
+      analyze: createTreeSitterAnalyzer({ maxWorkers: config.maxWorkers }),
+      rank: createPageRanker(),
+    })
+    : await analyzeProject(repoGraphOptions);
+  let resolveModule: ModuleResolver | undefined;
+  let program: ts.Program | undefined;
+  const filePaths = [...graph.nodes.values()].filter(node => node.type === 'file').map(node => node.filePath);
+  const tsconfigPath = config.project ? findReadableTsconfig(resolve(root, config.project)) : undefined;
+  if (tsconfigPath || packages) {
+    // Resolve `paths` aliases and workspace packages that repograph leaves unlinked.
+    resolveModule = createModuleResolver(tsconfigPath, root, filePaths);
+    graph = addResolvedImportEdges(graph, resolveModule, root);
+  }
+  if (tsconfigPath) {
+    program = createTsProgram(tsconfigPath, filePaths.map(filePath => resolve(root, filePath)));
+    graph = enrichGraphWithTypeChecker(graph, program, root);
+  }
+  graph = await augmentGraph(graph, plugins, root);
+  let publicApi: PublicApi | undefined;
+  if (config.publicApi) {
+    const packageDir = resolve(root, typeof config.publicApi === 'string' ? config.publicApi : '.');
+    publicApi = collectPublicApi(graph, root, readPackageEntryPoints(packageDir), program);
+  }
 
-  // 2. scn-ts serializes that graph into the SCN text format.
-  const scnOutput = serializeGraph(graph, config.root);
-  return scnOutput;
+  // 2. With stable IDs, reconcile the graph with the persisted lockfile.
+  const stableIds = config.stableIds || config.compactIds;
+  const idLockPath = stableIds
+    ? resolve(root, typeof stableIds === 'string' ? stableIds : DEFAULT_ID_LOCK_FILE)
+    : undefined;
+  const idLock = idLockPath
+    ? updateIdLock(graph, await readIdLock(idLockPath), { compact: config.compactIds })
+    : undefined;
+
+  const changes = config.since !== undefined
+    ? await readGitChanges(root, config.since)
+    : config.changedFiles?.map(change => typeof change === 'string' ? { path: change } : change);
+
+  // 3. scn-ts serializes that graph into the requested format, reusing the
+  // files of the last run whose output is unchanged when caching.
+  const fragmentCache = cacheDir ? await readFragmentCache(cacheDir) : undefined;
+  const output = serialize(graph, config.root, {
+    maxTokens: config.maxTokens,
+    focus: config.focus,
+    depth: config.depth,
+    idLock,
+    groupExternalDependencies: config.groupExternalDependencies,
+    resolveModule,
+    detail: config.detail,
+    order: config.order,
+    importance: config.importance,
+    publicApi,
+    packages,
+    heuristics: config.heuristics,
+    includeDocs: config.includeDocs,
+    plugins,
+    changes,
+    fragmentCache,
+  });
+
+  if (cacheDir && fragmentCache) {
+    const mappedFiles = [...graph.nodes.values()].filter(node => node.type === 'file').map(node => node.filePath);
+    await writeFragmentCache(cacheDir, fragmentCache, mappedFiles);
+  }
+  if (idLockPath && idLock && !readOnly) {
+    await writeIdLock(idLockPath, idLock);
+  }
+  return output;
 };
+
+/**
+ * High-level API to generate an SCN context map from a project.
+ *
+ * @param config - The configuration specifying which files to analyze.
+ * @returns A promise that resolves to the SCN map as a string.
+ */
+export const generateScn = (config: ScnTsConfig): Promise<string> => runPipeline(config, serializeGraph);
+
+/**
+ * Generates the SCN map of a project like `generateScn`, along with its
+ * statistics: source tokens against SCN tokens per file and in total,
+ * entities by symbol, edges by type and the files contributing most to the
+ * map's size. Tokens are counted with `config.tokenizer`.
+ *
+ * @param config - The configuration specifying which files to analyze.
+ */
+export const generateScnWithStats = (config: ScnTsConfig): Promise<ScnResult> =>
+  runPipeline(config, (graph, rootDir, options) => serializeGraphWithStats(graph, rootDir, options, config.tokenizer));
+
+/**
+ * Generates the SCN map of a project as JSON: the same files, entities, IDs,
+ * qualifiers, signatures and links as `generateScn`, following the versioned
+ * `ScnJsonDocument` schema.
+ *
+ * @param config - The configuration specifying which files to analyze.
+ */
+export const generateScnJson = (config: ScnTsConfig): Promise<ScnJsonDocument> => runPipeline(config, serializeGraphToJson);
+
+/**
+ * Generates the SCN map of a project split into several documents, each
+ * within `limits`, for maps larger than a single context window. Files are
+ * kept whole and grouped with the files they import; IDs are unique across
+ * chunks, and each chunk's header names the chunks its links point into.
+ *
+ * @param config - The configuration specifying which files to analyze.
+ * @param limits - The token and/or byte limit of each chunk.
+ */
+export const generateScnChunks = (config: ScnTsConfig, limits: ScnSplitLimits): Promise<ScnChunk[]> =>
+  runPipeline(config, (graph, rootDir, options) => serializeGraphToChunks(graph, rootDir, options, limits));
+
+/**
+ * Answers a query over the project's graph, such as `callers of
+ * AuthService.login`, `files importing src/db.ts transitively`, `async
+ * functions that throw in src/api/**` or `path from A to B` (see
+ * `runQuery`). Returns the matches as an SCN fragment and as JSON.
+ *
+ * @param config - The configuration specifying which files to analyze.
+ * @param query - The query to answer.
+ * @throws {ScnQueryError} When the query is malformed or names something the map does not have.
+ */
+export const queryScn = (config: ScnTsConfig, query: string): Promise<{ scn: string; result: ScnQueryResult }> =>
+  runPipeline(config, (graph, rootDir, options) => serializeGraphQuery(graph, rootDir, options, query), { readOnly: true });
+
+/**
+ * Serves the project's SCN map over stdio as an MCP (JSON-RPC) server. The
+ * project is analyzed once and kept in memory; tools return the whole map,
+ * the map of some files, entities found by name and the links of an ID, and
+ * `reanalyze` picks up changes. Resolves once `input` ends.
+ *
+ * @param config - The configuration specifying which files to analyze.
+ */
+export const serveScn = (
+  config: ScnTsConfig,
+  input: Readable = process.stdin,
+  output: Writable = process.stdout,
+): Promise<void> => serveStdio(() => runPipeline(config, (graph, rootDir, options) => ({ graph, rootDir, options }), { readOnly: true }), input, output);
+
+/**
+ * Serves a language server for `.scn` files over stdio: go-to-definition
+ * and references of IDs, an outline, and diagnostics for dangling IDs. With
+ * a `config`, the project is analyzed once so that hovers show the source
+ * each ID was generated from; it should match the config the maps were
+ * generated with. Resolves once the client exits.
+ *
+ * @param config - The configuration the maps were generated with, if any.
+ */
+export const serveScnLanguageServer = (
+  config?: ScnTsConfig,
+  input: Readable = process.stdin,
+  output: Writable = process.stdout,
+): Promise<void> => serveLanguageServer(
+  config && (() => runPipeline(config, (graph, rootDir, options) => ({
+    rootDir: resolve(rootDir ?? process.cwd()),
+    spans: getSourceSpans(graph, rootDir, options),
+  }), { readOnly: true })),
+  input,
+  output,
+);
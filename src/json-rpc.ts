@@ -0,0 +1,72 @@
+export type JsonRpcId = string | number | null;
+
+/** A JSON-RPC 2.0 response. */
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export const PARSE_ERROR = -32700;
+export const INVALID_REQUEST = -32600;
+export const METHOD_NOT_FOUND = -32601;
+export const INVALID_PARAMS = -32602;
+export const INTERNAL_ERROR = -32603;
+
+/** Thrown by request handlers to answer with a specific JSON-RPC error code. */
+export class JsonRpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'JsonRpcError';
+  }
+}
+
+/** Handles one request and returns its result. */
+export type JsonRpcDispatch = (method: string, params: unknown) => Promise<unknown>;
+
+/**
+ * Answers one JSON-RPC 2.0 message. Requests go to `dispatch`, whose
+ * `JsonRpcError`s keep their code and other errors become internal errors.
+ * Notifications, which have no `id`, go to `notify` and get no response.
+ */
+export const handleJsonRpcMessage = async (
+  message: unknown,
+  dispatch: JsonRpcDispatch,
+  notify: (method: string, params: unknown) => Promise<void> | void = () => {},
+): Promise<JsonRpcResponse | undefined> => {
+  const request = message as { jsonrpc?: unknown; id?: unknown; method?: unknown; params?: unknown } | null;
+  const hasId = typeof request === 'object' && request !== null && 'id' in request;
+  const id: JsonRpcId = hasId && (typeof request.id === 'string' || typeof request.id === 'number') ? request.id : null;
+  if (typeof request !== 'object' || request === null || Array.isArray(request) || request.jsonrpc !== '2.0' || typeof request.method !== 'string') {
+    return { jsonrpc: '2.0', id, error: { code: INVALID_REQUEST, message: 'Invalid JSON-RPC request.' } };
+  }
+  if (!hasId) {
+    await notify(request.method, request.params);
+    return undefined;
+  }
+  try {
+    return { jsonrpc: '2.0', id, result: await dispatch(request.method, request.params) };
+  } catch (error) {
+    return error instanceof JsonRpcError
+      ? { jsonrpc: '2.0', id, error: { code: error.code, message: error.message } }
+      : { jsonrpc: '2.0', id, error: { code: INTERNAL_ERROR, message: error instanceof Error ? error.message : String(error) } };
+  }
+};
+
+/** Like `handleJsonRpcMessage`, for a message still in its JSON text form. */
+export const handleJsonRpcText = (
+  text: string,
+  handle: (message: unknown) => Promise<JsonRpcResponse | undefined>,
+): Promise<JsonRpcResponse | undefined> => {
+  let message: unknown;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return Promise.resolve({ jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Parse error.' } });
+  }
+  return handle(message);
+};
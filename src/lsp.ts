@@ -0,0 +1,346 @@
+import { readFileSync } from 'fs';
+import { extname, join } from 'path';
+import type { Readable, Writable } from 'stream';
+import { parseScn, ScnParseError, type ScnEntity, type ScnFile } from './parser';
+import type { ScnSourceSpan, ScnSymbol } from './serializer';
+import { handleJsonRpcMessage, handleJsonRpcText, METHOD_NOT_FOUND, JsonRpcError, type JsonRpcResponse } from './json-rpc';
+import { version } from '../package.json';
+
+/** Where the IDs of the maps being edited come from in the source, for hovers. */
+export interface ScnSourceIndex {
+  /** Directory the span paths are relative to. */
+  rootDir: string;
+  /** Keyed by ID, with files in their `N.0` link form (see `getSourceSpans`). */
+  spans: ReadonlyMap<string, ScnSourceSpan>;
+}
+
+interface Position {
+  line: number;
+  character: number;
+}
+
+interface Range {
+  start: Position;
+  end: Position;
+}
+
+interface DocumentSymbol {
+  name: string;
+  detail?: string;
+  kind: number;
+  range: Range;
+  selectionRange: Range;
+  children: DocumentSymbol[];
+}
+
+interface Diagnostic {
+  range: Range;
+  severity: number;
+  source: 'scn-ts';
+  message: string;
+}
+
+/** An `(N)`/`(N.M)` ID written in a map, normalized to the link form (`N.0` for files). */
+interface IdToken {
+  id: string;
+  range: Range;
+}
+
+interface AnalyzedDocument {
+  lines: string[];
+  tokens: IdToken[];
+  /** The token declaring each ID on its `§` or entity line, with the line's text. */
+  declarations: Map<string, { token: IdToken; text: string }>;
+  symbols: DocumentSymbol[];
+  diagnostics: Diagnostic[];
+}
+
+const SEVERITY_ERROR = 1;
+const SEVERITY_INFORMATION = 3;
+
+/** LSP `SymbolKind`s of the outline, by SCN symbol. */
+const SYMBOL_KINDS: Record<ScnSymbol, number> = {
+  '◇': 5, // Class
+  '~': 12, // Function
+  '@': 13, // Variable
+  '{}': 11, // Interface
+  '☰': 10, // Enum
+  '=:': 26, // TypeParameter
+  '⛶': 8, // Field
+  '¶': 7, // Property
+  '?': 13, // Variable
+};
+const FILE_KIND = 1;
+const METHOD_KIND = 6;
+
+/** Lines of source shown in a hover before it is cut off. */
+const MAX_HOVER_LINES = 20;
+
+const ID_PATTERN = /\((\d+(?:\.\d+)?)\)/g;
+// Chunks written by `--split` link to IDs declared in the other chunks.
+const CHUNK_HEADER_PATTERN = /^\/\/ Chunk \d+ of \d+\./;
+
+const normalizeId = (id: string): string => id.includes('.') ? id : `${id}.0`;
+
+const lineRange = (lines: readonly string[], startLine: number, endLine: number): Range => ({
+  start: { line: startLine, character: 0 },
+  end: { line: endLine, character: lines[endLine]?.length ?? 0 },
+});
+
+/** Finds every ID written in the document, outside `//` comments. */
+const scanIdTokens = (lines: readonly string[]): IdToken[] => lines.flatMap((text, line) => {
+  if (text.trimStart().startsWith('//')) return [];
+  const body = text.replace(/\s+\/\/.*$/, '');
+  return [...body.matchAll(ID_PATTERN)].map(match => ({
+    id: normalizeId(match[1]!),
+    range: { start: { line, character: match.index! }, end: { line, character: match.index! + match[0].length } },
+  }));
+});
+
+/** The last non-blank line from `startLine` up to `endLine`. */
+const trimBlockEnd = (lines: readonly string[], startLine: number, endLine: number): number => {
+  let end = endLine;
+  while (end > startLine && !lines[end]?.trim()) end--;
+  return end;
+};
+
+const analyzeDocument = (text: string): AnalyzedDocument => {
+  const lines = text.split(/\r?\n/);
+  const tokens = scanIdTokens(lines);
+  const analysis: AnalyzedDocument = { lines, tokens, declarations: new Map(), symbols: [], diagnostics: [] };
+  let files: ScnFile[];
+  try {
+    files = parseScn(text).files;
+  } catch (error) {
+    if (!(error instanceof ScnParseError)) throw error;
+    const position = { line: error.line - 1, character: error.column - 1 };
+    analysis.diagnostics.push({ range: { start: position, end: { line: position.line, character: lines[position.line]?.length ?? 0 } }, severity: SEVERITY_ERROR, source: 'scn-ts', message: error.reason });
+    return analysis;
+  }
+
+  const declare = (id: string, line: number): IdToken | undefined => {
+    const token = tokens.find(candidate => candidate.range.start.line === line && candidate.id === id);
+    if (token) analysis.declarations.set(id, { token, text: lines[line]!.trim() });
+    return token;
+  };
+  // Each block runs until the next sibling starts, or until its parent's block ends.
+  const describeEntities = (entities: readonly ScnEntity[], endLine: number, nested: boolean): DocumentSymbol[] =>
+    entities.map((entity, index) => {
+      const line = entity.line - 1;
+      const blockEnd = trimBlockEnd(lines, line, (entities[index + 1]?.line ?? endLine + 2) - 2);
+      const token = entity.id ? declare(normalizeId(entity.id), line) : undefined;
+      return {
+        name: entity.name,
+        detail: [entity.id && `(${entity.id})`, entity.signature].filter(Boolean).join(' ') || undefined,
+        kind: nested && entity.symbol === '~' ? METHOD_KIND : SYMBOL_KINDS[entity.symbol],
+        range: lineRange(lines, line, blockEnd),
+        selectionRange: token?.range ?? lineRange(lines, line, line),
+        children: describeEntities(entity.children, blockEnd, true),
+      };
+    });
+  analysis.symbols = files.map((file, index) => {
+    const line = file.line - 1;
+    const blockEnd = trimBlockEnd(lines, line, (files[index + 1]?.line ?? lines.length + 1) - 2);
+    const token = declare(`${file.id}.0`, line);
+    return {
+      name: file.path,
+      detail: `(${file.id})`,
+      kind: FILE_KIND,
+      range: lineRange(lines, line, blockEnd),
+      selectionRange: token?.range ?? lineRange(lines, line, line),
+      children: describeEntities(file.entities, blockEnd, false),
+    };
+  });
+
+  const isChunk = CHUNK_HEADER_PATTERN.test(lines[0] ?? '');
+  const declaredFiles = new Set(files.map(file => file.id));
+  for (const token of tokens) {
+    if (analysis.declarations.has(token.id)) continue;
+    const inOtherChunk = isChunk && !declaredFiles.has(token.id.split('.')[0]!);
+    analysis.diagnostics.push({
+      range: token.range,
+      severity: inOtherChunk ? SEVERITY_INFORMATION : SEVERITY_ERROR,
+      source: 'scn-ts',
+      message: inOtherChunk
+        ? `(${token.id}) is declared in another chunk of the map.`
+        : `Dangling ID (${token.id}): no file or entity in this map declares it.`,
+    });
+  }
+  return analysis;
+};
+
+const contains = (range: Range, position: Position): boolean =>
+  range.start.line === position.line && range.start.character <= position.character && position.character <= range.end.character;
+
+const readSourceLines = (rootDir: string, span: ScnSourceSpan): string | undefined => {
+  if (span.startLine === undefined) return undefined;
+  let source: string;
+  try {
+    source = readFileSync(join(rootDir, span.path), 'utf-8');
+  } catch {
+    return undefined;
+  }
+  const lines = source.split('\n').slice(span.startLine - 1, span.endLine ?? span.startLine);
+  return lines.length > MAX_HOVER_LINES ? [...lines.slice(0, MAX_HOVER_LINES), '…'].join('\n') : lines.join('\n');
+};
+
+/**
+ * Creates a language server for SCN maps. It keeps the open documents
+ * parsed and offers go-to-definition from any ID to the line declaring it,
+ * references of an ID, an outline of `§` and entity lines, and diagnostics
+ * for dangling IDs and syntax errors. Hovers show the declaring line and,
+ * when `loadSources` is given, the source span the ID was generated from.
+ *
+ * @param notify - Sends a notification to the client, such as `textDocument/publishDiagnostics`.
+ * @param loadSources - Analyzes the project the maps are generated from; called once, right away.
+ * @returns `handle`, which answers one JSON-RPC message, and `state.exited`, set once the client sends `exit`.
+ */
+export const createScnLanguageServer = (
+  notify: (method: string, params: unknown) => void,
+  loadSources?: () => Promise<ScnSourceIndex>,
+) => {
+  const documents = new Map<string, AnalyzedDocument>();
+  // Hovers fall back to the map alone when the project cannot be analyzed.
+  const sources = loadSources?.().catch(() => undefined);
+  const state = { exited: false };
+
+  const update = (uri: string, text: string) => {
+    const analysis = analyzeDocument(text);
+    documents.set(uri, analysis);
+    notify('textDocument/publishDiagnostics', { uri, diagnostics: analysis.diagnostics });
+  };
+
+  /** The document and the ID token at the position of a `TextDocumentPositionParams`. */
+  const locate = (params: unknown) => {
+    const { textDocument, position } = params as { textDocument: { uri: string }; position: Position };
+    const document = documents.get(textDocument.uri);
+    const token = document?.tokens.find(candidate => contains(candidate.range, position));
+    return document && token ? { uri: textDocument.uri, document, token } : undefined;
+  };
+
+  const dispatch = async (method: string, params: unknown): Promise<unknown> => {
+    switch (method) {
+      case 'initialize':
+        return {
+          capabilities: {
+            textDocumentSync: { openClose: true, change: 1 },
+            definitionProvider: true,
+            referencesProvider: true,
+            hoverProvider: true,
+            documentSymbolProvider: true,
+          },
+          serverInfo: { name: 'scn-ts', version },
+        };
+      case 'shutdown':
+        return null;
+      case 'textDocument/definition': {
+        const target = locate(params);
+        const declaration = target?.document.declarations.get(target.token.id);
+        return target && declaration ? { uri: target.uri, range: declaration.token.range } : null;
+      }
+      case 'textDocument/references': {
+        const target = locate(params);
+        if (!target) return [];
+        const includeDeclaration = (params as { context?: { includeDeclaration?: boolean } }).context?.includeDeclaration ?? true;
+        const declaration = target.document.declarations.get(target.token.id)?.token;
+        return target.document.tokens
+          .filter(token => token.id === target.token.id && (includeDeclaration || token !== declaration))
+          .map(token => ({ uri: target.uri, range: token.range }));
+      }
+      case 'textDocument/hover': {
+        const target = locate(params);
+        const declaration = target?.document.declarations.get(target.token.id);
+        if (!target || !declaration) return null;
+        const index = await sources;
+        const span = index?.spans.get(target.token.id);
+        const snippet = index && span ? readSourceLines(index.rootDir, span) : undefined;
+        const location = span && (span.startLine === undefined ? span.path : `${span.path}:${span.startLine}${span.endLine && span.endLine !== span.startLine ? `-${span.endLine}` : ''}`);
+        const value = [
+          `\`\`\`scn\n${declaration.text}\n\`\`\``,
+          location,
+          snippet !== undefined && `\`\`\`${extname(span!.path).slice(1)}\n${snippet}\n\`\`\``,
+        ].filter(Boolean).join('\n\n');
+        return { contents: { kind: 'markdown', value }, range: target.token.range };
+      }
+      case 'textDocument/documentSymbol': {
+        const { textDocument } = params as { textDocument: { uri: string } };
+        return documents.get(textDocument.uri)?.symbols ?? [];
+      }
+      default:
+        throw new JsonRpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  };
+
+  const onNotification = (method: string, params: unknown) => {
+    switch (method) {
+      case 'textDocument/didOpen': {
+        const { textDocument } = params as { textDocument: { uri: string; text: string } };
+        update(textDocument.uri, textDocument.text);
+        break;
+      }
+      case 'textDocument/didChange': {
+        // Documents are synced in full, so the last change holds the whole text.
+        const { textDocument, contentChanges } = params as { textDocument: { uri: string }; contentChanges: { text: string }[] };
+        const last = contentChanges[contentChanges.length - 1];
+        if (last) update(textDocument.uri, last.text);
+        break;
+      }
+      case 'textDocument/didClose': {
+        const { textDocument } = params as { textDocument: { uri: string } };
+        documents.delete(textDocument.uri);
+        notify('textDocument/publishDiagnostics', { uri: textDocument.uri, diagnostics: [] });
+        break;
+      }
+      case 'exit':
+        state.exited = true;
+        break;
+    }
+  };
+
+  const handle = (message: unknown): Promise<JsonRpcResponse | undefined> => handleJsonRpcMessage(message, dispatch, onNotification);
+
+  return { handle, state };
+};
+
+/** Splits an LSP byte stream into the JSON bodies of its `Content-Length` framed messages. */
+async function* readFramedMessages(input: Readable): AsyncGenerator<string> {
+  let buffer = Buffer.alloc(0);
+  for await (const chunk of input) {
+    buffer = Buffer.concat([buffer, typeof chunk === 'string' ? Buffer.from(chunk) : chunk]);
+    for (;;) {
+      const headerEnd = buffer.indexOf('\r\n\r\n');
+      if (headerEnd < 0) break;
+      const length = Number(buffer.subarray(0, headerEnd).toString('ascii').match(/Content-Length: *(\d+)/i)?.[1]);
+      const start = headerEnd + 4;
+      if (Number.isNaN(length)) {
+        // Skip a header block without a length.
+        buffer = buffer.subarray(start);
+        continue;
+      }
+      if (buffer.length < start + length) break;
+      yield buffer.subarray(start, start + length).toString('utf-8');
+      buffer = buffer.subarray(start + length);
+    }
+  }
+}
+
+/**
+ * Serves the SCN language server over stdio, with LSP `Content-Length`
+ * framing. Resolves once the client sends `exit` or `input` ends.
+ */
+export const serveLanguageServer = async (
+  loadSources?: () => Promise<ScnSourceIndex>,
+  input: Readable = process.stdin,
+  output: Writable = process.stdout,
+): Promise<void> => {
+  const write = (message: unknown) => {
+    if (!message) return;
+    const body = JSON.stringify(message);
+    output.write(`Content-Length: ${Buffer.byteLength(body, 'utf-8')}\r\n\r\n${body}`);
+  };
+  const server = createScnLanguageServer((method, params) => write({ jsonrpc: '2.0', method, params }), loadSources);
+  for await (const text of readFramedMessages(input)) {
+    write(await handleJsonRpcText(text, server.handle));
+    if (server.state.exited) break;
+  }
+};
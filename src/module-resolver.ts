@@ -0,0 +1,256 @@
+import ts from 'typescript';
+import type { CodeNode, RankedCodeGraph } from 'repograph';
+import { existsSync, readFileSync, statSync } from 'fs';
+import { dirname, join, posix, relative, resolve, sep } from 'path';
+import { attributeBindings, scanImports } from './external-deps';
+import { buildSymbolTree, type CodeEdge } from './serializer';
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+const EXPORT_CONDITIONS = ['types', 'import', 'module', 'require', 'node', 'default'];
+
+/** Compiler options for projects without a tsconfig: resolve imports the way bundlers do. */
+export const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  allowJs: true,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+};
+
+/**
+ * Resolves an import specifier to a project-relative file path, or returns
+ * `undefined` when it cannot be resolved.
+ */
+export type ModuleResolver = (specifier: string, fromFile: string) => string | undefined;
+
+/** Reads and parses a tsconfig.json, following `extends`. */
+export const readTsconfig = (tsconfigPath: string): ts.ParsedCommandLine => {
+  const configFile = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+  if (configFile.error) {
+    throw new Error(`Failed to read tsconfig at ${tsconfigPath}: ${ts.flattenDiagnosticMessageText(configFile.error.messageText, '\n')}`);
+  }
+  return ts.parseJsonConfigFileContent(configFile.config, ts.sys, dirname(tsconfigPath));
+};
+
+export const isFile = (path: string): boolean => existsSync(path) && statSync(path).isFile();
+
+export const readJson = (path: string): unknown => {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+};
+
+/** Reads a JSON object such as a package.json, or `undefined` when it is missing, malformed or not an object. */
+export const readJsonObject = (path: string): Record<string, unknown> | undefined => {
+  const json = readJson(path);
+  return json && typeof json === 'object' && !Array.isArray(json) ? json as Record<string, unknown> : undefined;
+};
+
+/** Picks the file an `exports` entry points to, preferring type and ESM conditions. */
+export const pickExportTarget = (entry: unknown): string | undefined => {
+  if (typeof entry === 'string') return entry;
+  if (Array.isArray(entry)) return entry.map(pickExportTarget).find(Boolean);
+  if (entry && typeof entry === 'object') {
+    const conditions = entry as Record<string, unknown>;
+    for (const condition of EXPORT_CONDITIONS) {
+      const target = condition in conditions ? pickExportTarget(conditions[condition]) : undefined;
+      if (target) return target;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Maps a built file back to the source it was compiled from when that source
+ * exists next to it, e.g. `dist/index.d.ts` -> `dist/index.ts`, then `src/index.ts`.
+ */
+export const toSourceFile = (path: string): string => {
+  if (/\.(?:[cm]?ts|tsx)$/.test(path) && !/\.d\.[cm]?ts$/.test(path)) return path;
+  const stem = path.replace(/\.d\.[cm]?ts$|\.[cm]?jsx?$/, '');
+  const stems = [stem, stem.replace(/([\\/])(?:dist|lib|build|out)([\\/])/, '$1src$2')];
+  for (const candidate of stems.flatMap(s => SOURCE_EXTENSIONS.map(ext => s + ext))) {
+    if (isFile(candidate)) return candidate;
+  }
+  return path;
+};
+
+/** Normalizes a package's `exports` field to a map from subpath (`.`, `./parser`) to target. */
+export const getExportsMap = (exports: unknown): Record<string, unknown> =>
+  exports && typeof exports === 'object' && !Array.isArray(exports) && Object.keys(exports).some(key => key.startsWith('.'))
+    ? exports as Record<string, unknown>
+    : { '.': exports };
+
+/**
+ * Finds the file a package entry target points to, trying source extensions
+ * and `index` files. The target may only exist after a build, so its source
+ * is looked for too.
+ */
+export const findPackageFile = (packageDir: string, target: string): string | undefined => {
+  const base = join(packageDir, target);
+  const candidates = [base, ...SOURCE_EXTENSIONS.map(ext => base + ext), ...SOURCE_EXTENSIONS.map(ext => join(base, `index${ext}`))];
+  for (const candidate of candidates) {
+    const source = toSourceFile(candidate);
+    if (isFile(source)) return source;
+  }
+  return undefined;
+};
+
+/**
+ * Finds the workspace packages under `rootDir` that contain the given files
+ * and maps each package name to its directory.
+ */
+const findWorkspacePackages = (rootDir: string, filePaths: readonly string[]): Map<string, string> => {
+  const packages = new Map<string, string>();
+  const visited = new Set<string>();
+  for (const filePath of filePaths) {
+    for (let dir = dirname(resolve(rootDir, filePath)); !visited.has(dir); dir = dirname(dir)) {
+      visited.add(dir);
+      const name = readJsonObject(join(dir, 'package.json'))?.name;
+      if (typeof name === 'string' && !packages.has(name)) packages.set(name, dir);
+      if (dir === rootDir || relative(rootDir, dir).startsWith('..') || dirname(dir) === dir) break;
+    }
+  }
+  return packages;
+};
+
+/** Resolves `name` or `name/sub` through a workspace package's `exports`, `module` or `main` field. */
+const resolveWorkspaceImport = (specifier: string, packages: ReadonlyMap<string, string>): string | undefined => {
+  for (const [name, dir] of packages) {
+    if (specifier !== name && !specifier.startsWith(`${name}/`)) continue;
+    const subpath = `.${specifier.slice(name.length)}`;
+    const manifest = readJsonObject(join(dir, 'package.json')) ?? {};
+    let target: string | undefined;
+    if (manifest.exports !== undefined) {
+      target = pickExportTarget(getExportsMap(manifest.exports)[subpath]);
+    } else {
+      target = subpath === '.' ? pickExportTarget(manifest.types ?? manifest.module ?? manifest.main ?? 'index.js') : subpath;
+    }
+    return target ? findPackageFile(dir, target) : undefined;
+  }
+  return undefined;
+};
+
+/**
+ * Creates a resolver that follows the tsconfig's `baseUrl`, `paths` and
+ * module resolution settings, including package `exports`. Imports of
+ * workspace packages under `rootDir` that the compiler cannot find (e.g.
+ * because they are not linked into `node_modules`) are resolved through the
+ * package's own `package.json`. Built files are mapped back to their sources
+ * where possible.
+ *
+ * @param tsconfigPath - Absolute path to the tsconfig.json. Without one,
+ *   imports are resolved the way bundlers resolve them.
+ * @param rootDir - Absolute project root; resolved paths are relative to it.
+ * @param filePaths - Project-relative paths of the analyzed files, used to discover workspace packages.
+ */
+export const createModuleResolver = (tsconfigPath: string | undefined, rootDir: string, filePaths: readonly string[] = []): ModuleResolver => {
+  const options: ts.CompilerOptions = tsconfigPath
+    ? readTsconfig(tsconfigPath).options
+    : DEFAULT_COMPILER_OPTIONS;
+  const cache = ts.createModuleResolutionCache(rootDir, fileName => fileName, options);
+  const packages = findWorkspacePackages(rootDir, filePaths);
+
+  return (specifier, fromFile) => {
+    const containingFile = resolve(rootDir, fromFile);
+    const resolvedFile = ts.resolveModuleName(specifier, containingFile, options, ts.sys, cache).resolvedModule?.resolvedFileName;
+    const absolute = resolvedFile && !resolvedFile.split(/[\\/]/).includes('node_modules')
+      ? toSourceFile(resolvedFile)
+      : resolveWorkspaceImport(specifier, packages) ?? resolvedFile;
+    return absolute && relative(rootDir, absolute).split(sep).join(posix.sep);
+  };
+};
+
+/** Maps the local names of an import declaration to the names they import: `{ a as b }` gives `b` -> `a`. */
+const getImportedNames = (declaration: ts.ImportDeclaration): Map<string, string> => {
+  const names = new Map<string, string>();
+  const clause = declaration.importClause;
+  if (clause?.name) names.set(clause.name.text, 'default');
+  if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+    for (const element of clause.namedBindings.elements) {
+      names.set(element.name.text, (element.propertyName ?? element.name).text);
+    }
+  }
+  return names;
+};
+
+/**
+ * Links the entities of `source` to the entities they use from the newly
+ * resolved imports, e.g. a function calling `formatDate` from `@acme/shared`
+ * to the `formatDate` function in that package.
+ */
+const linkImportedEntities = (
+  source: string,
+  filePath: string,
+  targetsBySpecifier: ReadonlyMap<string, string>,
+  entitiesByFile: ReadonlyMap<string, CodeNode[]>,
+): CodeEdge[] => {
+  const sourceFile = ts.createSourceFile(filePath, source, ts.ScriptTarget.Latest, false);
+  const targetIds = new Map<string, string>(); // local binding -> repograph ID
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+    const targetPath = targetsBySpecifier.get(statement.moduleSpecifier.text);
+    if (!targetPath) continue;
+    const topLevel = (entitiesByFile.get(targetPath) ?? []).filter(node => !node.name.includes('.'));
+    for (const [local, imported] of getImportedNames(statement)) {
+      const target = topLevel.find(node => node.name === imported);
+      if (target) targetIds.set(local, target.id);
+    }
+  }
+
+  const symbolTree = buildSymbolTree([...entitiesByFile.get(filePath) ?? []]);
+  const edges: CodeEdge[] = [];
+  for (const [entityId, bindings] of attributeBindings(source, symbolTree, [...targetIds.keys()])) {
+    for (const binding of bindings) edges.push({ fromId: entityId, toId: targetIds.get(binding)!, type: 'references' });
+  }
+  return edges;
+};
+
+/**
+ * Adds the `imports` edges that repograph could not resolve, such as path
+ * aliases (`@app/utils`) and workspace package imports, and links the
+ * entities using the imported bindings to the entities they refer to.
+ *
+ * @returns A new graph; the input graph is not modified.
+ */
+export const addResolvedImportEdges = (graph: RankedCodeGraph, resolveModule: ModuleResolver, rootDir: string): RankedCodeGraph => {
+  const fileIdsByPath = new Map<string, string>();
+  const entitiesByFile = new Map<string, CodeNode[]>();
+  for (const node of graph.nodes.values()) {
+    if (node.type === 'file') {
+      fileIdsByPath.set(node.filePath, node.id);
+    } else {
+      if (!entitiesByFile.has(node.filePath)) entitiesByFile.set(node.filePath, []);
+      entitiesByFile.get(node.filePath)!.push(node);
+    }
+  }
+
+  const linked = new Set(graph.edges.filter((edge: CodeEdge) => edge.type === 'imports').map((edge: CodeEdge) => `${edge.fromId}->${edge.toId}`));
+  const edges: CodeEdge[] = [...graph.edges];
+  for (const [filePath, fromId] of fileIdsByPath) {
+    if (!SOURCE_EXTENSIONS.some(ext => filePath.endsWith(ext))) continue;
+    let source: string;
+    try {
+      source = readFileSync(resolve(rootDir, filePath), 'utf-8');
+    } catch {
+      continue;
+    }
+    // Imports repograph left unlinked have no entity links either.
+    const targetsBySpecifier = new Map<string, string>();
+    for (const { specifier } of scanImports(source, filePath)) {
+      const target = resolveModule(specifier, filePath);
+      const toId = target && fileIdsByPath.get(target);
+      if (!toId || toId === fromId || linked.has(`${fromId}->${toId}`)) continue;
+      linked.add(`${fromId}->${toId}`);
+      edges.push({ fromId, toId, type: 'imports' });
+      targetsBySpecifier.set(specifier, target);
+    }
+    if (targetsBySpecifier.size === 0) continue;
+    for (const edge of linkImportedEntities(source, filePath, targetsBySpecifier, entitiesByFile)) {
+      if (linked.has(`${edge.fromId}->${edge.toId}`)) continue;
+      linked.add(`${edge.fromId}->${edge.toId}`);
+      edges.push(edge);
+    }
+  }
+
+  return { ...graph, edges: edges as RankedCodeGraph['edges'] };
+};
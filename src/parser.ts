@@ -0,0 +1,298 @@
+import type { ScnSymbol, QualifierSymbol } from './serializer';
+
+type AccessSymbol = Extract<QualifierSymbol, '+' | '-'>;
+type BehaviorSymbol = Exclude<QualifierSymbol, '+' | '-'>;
+
+/** A reference inside a `->`/`<-` link line, e.g. `(2.1)`, `(3.0)` or `(react)`. */
+export type ScnReference =
+  | { kind: 'id'; id: string; fileId: number; entityId: number; line: number; column: number }
+  | { kind: 'name'; name: string; line: number; column: number };
+
+/** An entity line (`◇`, `~`, `@`, ...) together with its links and nested entities. */
+export interface ScnEntity {
+  /** The compound ID without parentheses, e.g. `"1.2"`. Absent for entities written without an ID. */
+  id?: string;
+  access?: AccessSymbol;
+  symbol: ScnSymbol;
+  name: string;
+  /** Everything between the name and the qualifiers, e.g. `(a: #): #(User)` or `{ 📐 💧 }`. */
+  signature?: string;
+  qualifiers: BehaviorSymbol[];
+  /** Text of a trailing `// ...` comment. */
+  comment?: string;
+  dependencies: ScnReference[];
+  callers: ScnReference[];
+  children: ScnEntity[];
+  line: number;
+  column: number;
+}
+
+/** A `§` file declaration and everything nested under it. */
+export interface ScnFile {
+  id: string;
+  path: string;
+  comment?: string;
+  dependencies: ScnReference[];
+  callers: ScnReference[];
+  entities: ScnEntity[];
+  line: number;
+  column: number;
+}
+
+export interface ScnDocument {
+  files: ScnFile[];
+}
+
+/** Thrown by `parseScn` when the input is not a well-formed SCN document. Line and column are 1-based. */
+export class ScnParseError extends Error {
+  constructor(
+    readonly reason: string,
+    readonly line: number,
+    readonly column: number,
+  ) {
+    super(`${reason} (line ${line}, column ${column})`);
+    this.name = 'ScnParseError';
+  }
+}
+
+const SCN_SYMBOLS: readonly ScnSymbol[] = ['◇', '~', '@', '{}', '☰', '=:', '⛶', '¶', '?'];
+const INDENT_WIDTH = 2;
+
+/** Splits off a trailing `// comment`. The `//` must be preceded by whitespace so URLs in values survive. */
+const splitComment = (text: string): { body: string; comment?: string } => {
+  const match = text.match(/\s+\/\/\s?(.*)$/);
+  if (!match || match.index === undefined) return { body: text };
+  return { body: text.slice(0, match.index), comment: match[1]?.trim() };
+};
+
+const parseReferences = (text: string, line: number, column: number): ScnReference[] => {
+  const refs: ScnReference[] = [];
+  let pos = 0;
+  while (pos < text.length) {
+    const char = text[pos];
+    if (char === ' ' || char === ',') {
+      pos++;
+      continue;
+    }
+    if (char !== '(') {
+      throw new ScnParseError(`Expected a reference like (1.2) but found '${char}'`, line, column + pos);
+    }
+
+    // Named references such as `(Promise<(2.3)[]>)` may contain parentheses, so match them by depth.
+    let depth = 0;
+    let end = pos;
+    for (; end < text.length; end++) {
+      if (text[end] === '(') depth++;
+      else if (text[end] === ')' && --depth === 0) break;
+    }
+    if (end >= text.length) {
+      throw new ScnParseError('Unterminated reference', line, column + pos);
+    }
+
+    const inner = text.slice(pos + 1, end).trim();
+    if (!inner) throw new ScnParseError('Empty reference', line, column + pos);
+    const idMatch = inner.match(/^(\d+)(?:\.(\d+))?$/);
+    refs.push(idMatch
+      ? { kind: 'id', id: inner, fileId: Number(idMatch[1]), entityId: Number(idMatch[2] ?? 0), line, column: column + pos }
+      : { kind: 'name', name: inner, line, column: column + pos });
+    pos = end + 1;
+  }
+  return refs;
+};
+
+/** Parses the text after a `->`/`<-` marker, which may itself contain further `->`/`<-` segments. */
+const parseLinkSegments = (
+  text: string,
+  line: number,
+  column: number,
+  target: { dependencies: ScnReference[]; callers: ScnReference[] },
+): void => {
+  const segmentPattern = /(->|<-)\s+/g;
+  const markers = [...text.matchAll(segmentPattern)];
+  if (markers.length === 0 || markers[0]?.index !== 0) {
+    throw new ScnParseError("Expected '->' or '<-'", line, column);
+  }
+  markers.forEach((marker, i) => {
+    const start = marker.index! + marker[0].length;
+    const end = markers[i + 1]?.index ?? text.length;
+    const refs = parseReferences(text.slice(start, end).trimEnd(), line, column + start);
+    if (refs.length === 0) throw new ScnParseError('Link line has no references', line, column + marker.index!);
+    (marker[1] === '->' ? target.dependencies : target.callers).push(...refs);
+  });
+};
+
+const parseFileHeader = (content: string, line: number): ScnFile => {
+  const { body, comment } = splitComment(content);
+  const match = body.match(/^§\s+\((\d+)\)\s+(.+)$/);
+  if (!match) {
+    throw new ScnParseError('Malformed file declaration, expected `§ (id) path`', line, 1);
+  }
+  let path = match[2]!.trim();
+  if (path.startsWith('"')) {
+    if (!path.endsWith('"') || path.length < 2) {
+      throw new ScnParseError('Unterminated quoted file path', line, body.indexOf('"') + 1);
+    }
+    path = path.slice(1, -1);
+  } else if (/\s/.test(path)) {
+    throw new ScnParseError('File paths containing spaces must be quoted', line, body.indexOf(path) + 1);
+  }
+  return { id: match[1]!, path, comment, dependencies: [], callers: [], entities: [], line, column: 1 };
+};
+
+const parseEntityLine = (content: string, line: number, column: number): ScnEntity => {
+  const { body, comment } = splitComment(content);
+  let rest = body;
+  let offset = 0;
+  const advance = (length: number) => {
+    const skipped = rest.slice(length).match(/^\s*/)![0].length;
+    offset += length + skipped;
+    rest = rest.slice(length + skipped);
+  };
+
+  let access: AccessSymbol | undefined;
+  const accessMatch = rest.match(/^([+-])\s/);
+  if (accessMatch) {
+    access = accessMatch[1] as AccessSymbol;
+    advance(1);
+  }
+
+  const symbol = SCN_SYMBOLS.find(s => rest.startsWith(s) && (rest.length === s.length || rest[s.length] === ' '));
+  if (!symbol) {
+    throw new ScnParseError(`Unknown entity symbol '${rest.split(/\s/)[0]}'`, line, column + offset);
+  }
+  advance(symbol.length);
+
+  let id: string | undefined;
+  const idMatch = rest.match(/^\((\d+\.\d+)\)/);
+  if (idMatch) {
+    id = idMatch[1];
+    advance(idMatch[0].length);
+  }
+
+  const entity: ScnEntity = {
+    id, access, symbol, name: '', qualifiers: [], comment,
+    dependencies: [], callers: [], children: [], line, column,
+  };
+
+  // Inline links, e.g. `~ (1.2) myMethod() -> (2.1)`
+  const inlineLink = rest.match(/\s(?:->|<-)\s+\(/);
+  if (inlineLink?.index !== undefined) {
+    const linkStart = inlineLink.index + 1;
+    parseLinkSegments(rest.slice(linkStart), line, column + offset + linkStart, entity);
+    rest = rest.slice(0, inlineLink.index);
+  }
+
+  const qualifierMatch = rest.match(/\s((?:\.\.\.|!|o)(?:\s*(?:\.\.\.|!|o))*)$/);
+  if (qualifierMatch?.index !== undefined) {
+    entity.qualifiers = qualifierMatch[1]!.match(/\.\.\.|!|o/g) as BehaviorSymbol[];
+    rest = rest.slice(0, qualifierMatch.index);
+  }
+  rest = rest.trimEnd();
+
+  let name = rest;
+  let signature = '';
+  const parenIndex = rest.indexOf('(');
+  const cssBlock = rest.match(/\s+\{/);
+  if (symbol === '~' && parenIndex > 0 && !/\s/.test(rest.slice(0, parenIndex))) {
+    name = rest.slice(0, parenIndex);
+    signature = rest.slice(parenIndex);
+  } else if (symbol === '¶' && cssBlock?.index !== undefined) {
+    name = rest.slice(0, cssBlock.index);
+    signature = rest.slice(cssBlock.index).trim();
+  } else if (symbol !== '¶') {
+    name = rest.match(/^[^\s:]*/)![0];
+    signature = rest.slice(name.length).trim();
+  }
+
+  if (!name) throw new ScnParseError('Missing entity name', line, column + offset);
+  entity.name = name;
+  if (signature) entity.signature = signature;
+  return entity;
+};
+
+/**
+ * Parses an SCN v1.0 document into a typed tree of files and entities.
+ * This is the inverse of `serializeGraph`: every `§` header, entity line and
+ * `->`/`<-` link line it writes can be read back.
+ *
+ * @param text - The SCN document.
+ * @returns The parsed document.
+ * @throws {ScnParseError} If the text is malformed. The error carries the 1-based line and column.
+ */
+export const parseScn = (text: string): ScnDocument => {
+  const files: ScnFile[] = [];
+  const seenFileIds = new Set<string>();
+  const seenEntityIds = new Set<string>();
+  let currentFile: ScnFile | undefined;
+  let stack: { entity: ScnEntity; indent: number }[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = index + 1;
+    const trimmedEnd = rawLine.trimEnd();
+    if (!trimmedEnd.trim()) return;
+
+    const indent = trimmedEnd.match(/^ */)![0].length;
+    if (trimmedEnd[indent] === '\t') {
+      throw new ScnParseError('Tabs are not allowed for indentation', line, indent + 1);
+    }
+    const content = trimmedEnd.slice(indent);
+    if (content.startsWith('//')) return;
+
+    if (content.startsWith('§')) {
+      if (indent !== 0) throw new ScnParseError('File declarations must not be indented', line, indent + 1);
+      currentFile = parseFileHeader(content, line);
+      if (seenFileIds.has(currentFile.id)) {
+        throw new ScnParseError(`Duplicate file ID (${currentFile.id})`, line, 3);
+      }
+      seenFileIds.add(currentFile.id);
+      files.push(currentFile);
+      stack = [];
+      return;
+    }
+
+    if (!currentFile) {
+      throw new ScnParseError('Expected a § file declaration', line, indent + 1);
+    }
+    if (indent % INDENT_WIDTH !== 0) {
+      throw new ScnParseError(`Indentation must be a multiple of ${INDENT_WIDTH} spaces`, line, indent + 1);
+    }
+
+    if (content.startsWith('->') || content.startsWith('<-')) {
+      const { body } = splitComment(content);
+      if (indent === INDENT_WIDTH) {
+        parseLinkSegments(body, line, indent + 1, currentFile);
+        return;
+      }
+      const owner = stack.find(entry => entry.indent === indent - INDENT_WIDTH);
+      if (!owner) throw new ScnParseError('Link line is not attached to an entity', line, indent + 1);
+      parseLinkSegments(body, line, indent + 1, owner.entity);
+      return;
+    }
+
+    if (indent === 0) {
+      throw new ScnParseError('Entities must be indented under a § file declaration', line, 1);
+    }
+    while (stack.length > 0 && stack[stack.length - 1]!.indent >= indent) stack.pop();
+    const level = indent / INDENT_WIDTH - 1;
+    if (stack.length !== level) {
+      throw new ScnParseError('Unexpected indentation', line, indent + 1);
+    }
+
+    const entity = parseEntityLine(content, line, indent + 1);
+    if (entity.id) {
+      if (entity.id.split('.')[0] !== currentFile.id) {
+        throw new ScnParseError(`Entity ID (${entity.id}) does not belong to file (${currentFile.id})`, line, indent + 1);
+      }
+      if (seenEntityIds.has(entity.id)) {
+        throw new ScnParseError(`Duplicate entity ID (${entity.id})`, line, indent + 1);
+      }
+      seenEntityIds.add(entity.id);
+    }
+
+    const parent = stack[stack.length - 1];
+    (parent ? parent.entity.children : currentFile.entities).push(entity);
+    stack.push({ entity, indent });
+  });
+
+  return { files };
+};
@@ -0,0 +1,126 @@
+import type { CodeNode, RankedCodeGraph } from 'repograph';
+import type { ScnSymbol } from './serializer';
+import type { ScnJsonFile } from './scn-json';
+
+/** What the serialization hooks of a plugin get to work with. */
+export interface ScnPluginContext {
+  /** Absolute project root, when known. */
+  rootDir?: string;
+  /** Reads a project-relative source file, sharing the serializer's cache. Missing files read as `''`. */
+  readSource: (filePath: string) => string;
+}
+
+/**
+ * Extends scn-ts with framework conventions, such as route files or DI
+ * containers, without forking the serializer. Every hook is optional;
+ * plugins run in the order they are listed, each one seeing the result of
+ * the previous one.
+ */
+export interface ScnPlugin {
+  /** Shown in error messages. */
+  name: string;
+  /**
+   * Adds nodes and edges to the graph after repograph and the optional
+   * resolution and type-checking steps ran. Nodes of a file need a file
+   * node with the same `filePath` to be emitted; nodes without a rank get 0.
+   */
+  augmentGraph?: (graph: RankedCodeGraph, context: { rootDir: string }) => RankedCodeGraph | Promise<RankedCodeGraph>;
+  /** Overrides the symbol chosen for a node. Returning `undefined` keeps `symbol`. */
+  symbol?: (node: CodeNode, symbol: ScnSymbol, context: ScnPluginContext) => ScnSymbol | undefined;
+  /**
+   * Overrides the signature rendered after a node's name, e.g. `(id: #(string))`
+   * or `{ 📐 }`. Returning `undefined` keeps `signature`; `''` removes it.
+   */
+  signature?: (node: CodeNode, signature: string, context: ScnPluginContext) => string | undefined;
+  /** Post-processes a file's `§` section in both output formats, e.g. to add entities or links. */
+  transformFile?: (file: ScnJsonFile, context: ScnPluginContext) => ScnJsonFile;
+  /** Post-processes the SCN text of a file's `§` section. */
+  formatFile?: (text: string, file: ScnJsonFile, context: ScnPluginContext) => string;
+}
+
+/** Wraps errors thrown by a plugin hook so the failing plugin is named. */
+const runHook = <T>(plugin: ScnPlugin, hook: keyof ScnPlugin, run: () => T): T => {
+  try {
+    return run();
+  } catch (e: any) {
+    throw new Error(`Plugin '${plugin.name}' failed in ${hook}: ${e?.message ?? e}`, { cause: e });
+  }
+};
+
+/** Runs the `augmentGraph` hooks in order, giving the nodes they add a rank of 0. */
+export const augmentGraph = async (
+  graph: RankedCodeGraph,
+  plugins: readonly ScnPlugin[],
+  rootDir: string,
+): Promise<RankedCodeGraph> => {
+  let augmented = graph;
+  for (const plugin of plugins) {
+    if (!plugin.augmentGraph) continue;
+    const hook = plugin.augmentGraph;
+    const current = augmented;
+    augmented = await runHook(plugin, 'augmentGraph', () => hook(current, { rootDir }));
+  }
+  if (augmented === graph) return graph;
+  const ranks = new Map(augmented.ranks);
+  for (const id of augmented.nodes.keys()) {
+    if (!ranks.has(id)) ranks.set(id, 0);
+  }
+  return { ...augmented, ranks };
+};
+
+/** Applies the `symbol` hooks to the symbol chosen for `node`. */
+export const applySymbolPlugins = (
+  node: CodeNode,
+  symbol: ScnSymbol,
+  plugins: readonly ScnPlugin[],
+  context: ScnPluginContext,
+): ScnSymbol => plugins.reduce(
+  (current, plugin) => plugin.symbol ? runHook(plugin, 'symbol', () => plugin.symbol!(node, current, context)) ?? current : current,
+  symbol,
+);
+
+/** Applies the `signature` hooks to the signature formatted for `node`. */
+export const applySignaturePlugins = (
+  node: CodeNode,
+  signature: string,
+  plugins: readonly ScnPlugin[],
+  context: ScnPluginContext,
+): string => plugins.reduce(
+  (current, plugin) => plugin.signature ? runHook(plugin, 'signature', () => plugin.signature!(node, current, context)) ?? current : current,
+  signature,
+);
+
+/** Applies the `transformFile` hooks to a described file. */
+export const applyFilePlugins = (file: ScnJsonFile, plugins: readonly ScnPlugin[], context: ScnPluginContext): ScnJsonFile =>
+  plugins.reduce(
+    (current, plugin) => plugin.transformFile ? runHook(plugin, 'transformFile', () => plugin.transformFile!(current, context)) : current,
+    file,
+  );
+
+/** Applies the `formatFile` hooks to the SCN text of a file. */
+export const applyFormatPlugins = (text: string, file: ScnJsonFile, plugins: readonly ScnPlugin[], context: ScnPluginContext): string =>
+  plugins.reduce(
+    (current, plugin) => plugin.formatFile ? runHook(plugin, 'formatFile', () => plugin.formatFile!(current, file, context)) : current,
+    text,
+  );
+
+/**
+ * Checks that the `plugins` of a config are plugin objects, so that a typo in
+ * scn.config.js fails early rather than being silently ignored.
+ */
+export const validatePlugins = (plugins: unknown): ScnPlugin[] => {
+  if (plugins === undefined) return [];
+  if (!Array.isArray(plugins)) throw new Error('Config option "plugins" must be an array of plugin objects.');
+  const hooks = ['augmentGraph', 'symbol', 'signature', 'transformFile', 'formatFile'];
+  return plugins.map((plugin, index) => {
+    if (typeof plugin !== 'object' || plugin === null || typeof plugin.name !== 'string') {
+      throw new Error(`Plugin at index ${index} must be an object with a "name".`);
+    }
+    for (const hook of hooks) {
+      if (plugin[hook] !== undefined && typeof plugin[hook] !== 'function') {
+        throw new Error(`Plugin '${plugin.name}': "${hook}" must be a function.`);
+      }
+    }
+    return plugin as ScnPlugin;
+  });
+};
@@ -0,0 +1,121 @@
+import ts from 'typescript';
+import type { RankedCodeGraph } from 'repograph';
+import { basename, join, resolve } from 'path';
+import { DEFAULT_COMPILER_OPTIONS, findPackageFile, getExportsMap, pickExportTarget, readJsonObject } from './module-resolver';
+import { collectDeclarations, matchDeclaration, type Declaration } from './type-checker';
+
+/** A module consumers of a package can import, e.g. `@acme/lib/parser`. */
+export interface PackageEntryPoint {
+  /** The specifier consumers import it by. */
+  specifier: string;
+  /** Absolute path of its source file. */
+  filePath: string;
+}
+
+/**
+ * Maps repograph node IDs to the public paths they are exported under, e.g.
+ * `@acme/lib#login` or `@acme/lib/parser#Parser`.
+ */
+export type PublicApi = ReadonlyMap<string, readonly string[]>;
+
+/**
+ * Reads the entry points of the package in `packageDir` from its
+ * `package.json`: every subpath of `exports`, or else `types`, `module` or
+ * `main`. Subpath patterns (`./*`) and blocked subpaths (`null`) are skipped.
+ * Built targets are mapped back to their source files.
+ */
+export const readPackageEntryPoints = (packageDir: string): PackageEntryPoint[] => {
+  const manifest = readJsonObject(join(packageDir, 'package.json'));
+  if (!manifest) {
+    throw new Error(`Failed to read package.json in ${packageDir}`);
+  }
+  const name: string = typeof manifest.name === 'string' ? manifest.name : basename(packageDir);
+  const targets: [string, unknown][] = manifest.exports !== undefined
+    ? Object.entries(getExportsMap(manifest.exports))
+    : [['.', manifest.types ?? manifest.typings ?? manifest.module ?? manifest.main ?? 'index.js']];
+
+  const entryPoints: PackageEntryPoint[] = [];
+  for (const [subpath, entry] of targets) {
+    const target = subpath.includes('*') ? undefined : pickExportTarget(entry);
+    const filePath = target && findPackageFile(packageDir, target);
+    if (filePath) entryPoints.push({ specifier: subpath === '.' ? name : `${name}${subpath.slice(1)}`, filePath });
+  }
+  if (entryPoints.length === 0) {
+    throw new Error(`No entry points of ${name} could be found. Check the exports, types and main fields of its package.json.`);
+  }
+  return entryPoints;
+};
+
+/** Collects the declarations each public path refers to, following re-exports and `export * as ns`. */
+const collectExportedDeclarations = (program: ts.Program, entryPoints: readonly PackageEntryPoint[]) => {
+  const checker = program.getTypeChecker();
+  const pathsByDeclaration = new Map<ts.Declaration, string[]>();
+  const visitModule = (moduleSymbol: ts.Symbol, prefix: string, visited: Set<ts.Symbol>) => {
+    if (visited.has(moduleSymbol)) return;
+    visited.add(moduleSymbol);
+    for (const symbol of checker.getExportsOfModule(moduleSymbol)) {
+      const target = symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol;
+      // `export =` exports the target itself rather than a named member.
+      const publicPath = symbol.escapedName === ts.InternalSymbolName.ExportEquals
+        ? prefix.replace(/[#.]$/, '')
+        : `${prefix}${symbol.name}`;
+      for (const declaration of target.declarations ?? []) {
+        if (ts.isSourceFile(declaration)) {
+          visitModule(target, `${publicPath}.`, new Set(visited));
+          continue;
+        }
+        const paths = pathsByDeclaration.get(declaration) ?? [];
+        if (!paths.includes(publicPath)) paths.push(publicPath);
+        pathsByDeclaration.set(declaration, paths);
+      }
+    }
+  };
+
+  for (const entryPoint of entryPoints) {
+    const sourceFile = program.getSourceFile(entryPoint.filePath);
+    const moduleSymbol = sourceFile && checker.getSymbolAtLocation(sourceFile);
+    if (moduleSymbol) visitModule(moduleSymbol, `${entryPoint.specifier}#`, new Set());
+  }
+  return pathsByDeclaration;
+};
+
+/**
+ * Finds the entities consumers of a package can reach through its entry
+ * points, following `export { x } from`, `export *` and `export * as ns`
+ * re-exports across files.
+ *
+ * @param graph - The graph produced by `repograph`.
+ * @param rootDir - The directory the graph's file paths are relative to.
+ * @param entryPoints - The package's entry points, see `readPackageEntryPoints`.
+ * @param program - A program to reuse, e.g. the one built from the project's
+ *   tsconfig. It is replaced by one with the same options when it does not
+ *   contain every entry point.
+ */
+export const collectPublicApi = (
+  graph: RankedCodeGraph,
+  rootDir: string,
+  entryPoints: readonly PackageEntryPoint[],
+  program?: ts.Program,
+): PublicApi => {
+  const entryFiles = entryPoints.map(entryPoint => entryPoint.filePath);
+  const containsEntryFiles = (candidate: ts.Program) => entryFiles.every(file => candidate.getSourceFile(file));
+  if (!program || !containsEntryFiles(program)) {
+    const options = program?.getCompilerOptions() ?? DEFAULT_COMPILER_OPTIONS;
+    program = ts.createProgram({ rootNames: entryFiles, options: { ...options, noEmit: true } });
+  }
+  const pathsByDeclaration = collectExportedDeclarations(program, entryPoints);
+
+  const publicApi = new Map<string, readonly string[]>();
+  const declarationsByFile = new Map<string, Declaration[]>();
+  for (const node of graph.nodes.values()) {
+    if (node.type === 'file') continue;
+    if (!declarationsByFile.has(node.filePath)) {
+      const sourceFile = program.getSourceFile(resolve(rootDir, node.filePath));
+      declarationsByFile.set(node.filePath, sourceFile ? collectDeclarations(sourceFile) : []);
+    }
+    const declaration = matchDeclaration(node, declarationsByFile.get(node.filePath)!)?.node;
+    const paths = declaration && pathsByDeclaration.get(declaration);
+    if (paths) publicApi.set(node.id, paths);
+  }
+  return publicApi;
+};
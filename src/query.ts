@@ -0,0 +1,233 @@
+import type { ScnJsonEntity, ScnJsonFile, ScnJsonLink } from './scn-json';
+import type { QualifierSymbol, ScnSymbol } from './serializer';
+import { globToRegExp } from './glob';
+
+/** Thrown by `runQuery` when a query cannot be parsed or names something the map does not have. */
+export class ScnQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScnQueryError';
+  }
+}
+
+/** The answer to a query over a map. */
+export interface ScnQueryResult {
+  query: string;
+  /** IDs of the matching files (`N.0`) and entities, in map order. */
+  ids: string[];
+  /** For `path from A to B`, the IDs along the shortest path from A to B; empty when there is none. */
+  path?: string[];
+  /** The files of the map, reduced to the matches and the entities containing them. */
+  files: ScnJsonFile[];
+}
+
+/** A file (`N.0`) or entity of the map. */
+interface QueryNode {
+  id: string;
+  file: ScnJsonFile;
+  entity?: ScnJsonEntity;
+  /** `AuthService.login` for entities. */
+  qualifiedName?: string;
+  order: number;
+}
+
+type Step = (id: string) => string[];
+
+/** Entity kinds a filter can select, by plural noun. `entities` selects every kind. */
+const KINDS: Record<string, readonly ScnSymbol[] | undefined> = {
+  entities: undefined,
+  functions: ['~'],
+  classes: ['◇'],
+  containers: ['◇'],
+  variables: ['@'],
+  interfaces: ['{}'],
+  enums: ['☰'],
+  types: ['=:'],
+  elements: ['⛶'],
+  rules: ['¶'],
+};
+
+/** Adjectives a filter accepts before its kind, and the qualifier each requires. */
+const ADJECTIVES: Record<string, QualifierSymbol> = {
+  async: '...',
+  throwing: '!',
+  pure: 'o',
+  public: '+',
+  exported: '+',
+  private: '-',
+};
+
+/** Splits a query into words, keeping `quoted` or "quoted" text together without its quotes. */
+const tokenize = (query: string): string[] =>
+  [...query.matchAll(/`([^`]*)`|"([^"]*)"|'([^']*)'|(\S+)/g)].map(match => match[1] ?? match[2] ?? match[3] ?? match[4]!);
+
+const indexFiles = (files: readonly ScnJsonFile[]): Map<string, QueryNode> => {
+  const nodes = new Map<string, QueryNode>();
+  const visit = (entity: ScnJsonEntity, file: ScnJsonFile, prefix: string) => {
+    const qualifiedName = `${prefix}${entity.name}`;
+    nodes.set(entity.id, { id: entity.id, file, entity, qualifiedName, order: nodes.size });
+    entity.children.forEach(child => visit(child, file, `${qualifiedName}.`));
+  };
+  for (const file of files) {
+    nodes.set(`${file.id}.0`, { id: `${file.id}.0`, file, order: nodes.size });
+    file.entities.forEach(entity => visit(entity, file, ''));
+  }
+  return nodes;
+};
+
+const idLinks = (links: readonly ScnJsonLink[]): string[] =>
+  links.flatMap(link => link.kind === 'id' ? [link.id] : []);
+
+/** Every node reachable from `starts` in one step, or in any number of steps when `transitive`; the starts themselves are left out. */
+const follow = (starts: readonly string[], step: Step, transitive: boolean): Set<string> => {
+  const reached = new Set<string>();
+  const queue = [...starts];
+  const seen = new Set(starts);
+  while (queue.length > 0) {
+    for (const next of step(queue.shift()!)) {
+      if (seen.has(next)) continue;
+      seen.add(next);
+      reached.add(next);
+      if (transitive) queue.push(next);
+    }
+  }
+  return reached;
+};
+
+/** The shortest path from any of `sources` to any of `targets` taking `step`s, or `[]`. */
+const findPath = (sources: readonly string[], targets: ReadonlySet<string>, step: Step): string[] => {
+  const previous = new Map<string, string | undefined>(sources.map(source => [source, undefined]));
+  const queue = [...sources];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (targets.has(current)) {
+      const path = [current];
+      for (let node = previous.get(current); node !== undefined; node = previous.get(node)) path.unshift(node);
+      return path;
+    }
+    for (const next of step(current)) {
+      if (previous.has(next)) continue;
+      previous.set(next, current);
+      queue.push(next);
+    }
+  }
+  return [];
+};
+
+/** Keeps the selected files and entities, and the entities containing them without their links. */
+const pruneFiles = (files: readonly ScnJsonFile[], selected: ReadonlySet<string>): ScnJsonFile[] => {
+  const prune = (entities: readonly ScnJsonEntity[]): ScnJsonEntity[] => entities.flatMap(entity => {
+    const children = prune(entity.children);
+    if (selected.has(entity.id)) return [{ ...entity, children }];
+    return children.length > 0 ? [{ ...entity, dependencies: [], callers: [], children }] : [];
+  });
+  return files.flatMap(file => {
+    const entities = prune(file.entities);
+    if (selected.has(`${file.id}.0`)) return [{ ...file, entities }];
+    return entities.length > 0 ? [{ ...file, dependencies: [], callers: [], entities }] : [];
+  });
+};
+
+/**
+ * Answers a query over the files of a map. Targets are IDs (`2.1`), file
+ * paths (`src/db.ts`), qualified names (`AuthService.login`, or just
+ * `login`) or both (`src/auth.ts#AuthService.login`). Queries are:
+ *
+ * - `callers of <target>` and `dependencies of <target>`, following `<-`/`->` links
+ * - `files importing <target>` and `files imported by <target>`, following imports between files
+ * - `[async|throwing|pure|public|private ...] <functions|classes|variables|interfaces|enums|types|entities|files> [that throw] [in <glob>]`
+ * - `path from <target> to <target>`, the shortest chain of `->` links
+ *
+ * Relations take a trailing `transitively` to follow links any number of steps.
+ *
+ * @throws {ScnQueryError} When the query is malformed or a target is not in the map.
+ */
+export const runQuery = (files: readonly ScnJsonFile[], query: string): ScnQueryResult => {
+  const nodes = indexFiles(files);
+  const words = tokenize(query);
+  const lower = words.map(word => word.toLowerCase());
+  const transitive = lower[lower.length - 1] === 'transitively';
+  if (transitive) {
+    words.pop();
+    lower.pop();
+  }
+
+  const resolveTarget = (text: string): string[] => {
+    const target = text.trim().replace(/^\((.*)\)$/, '$1');
+    if (/^\d+(\.\d+)?$/.test(target)) {
+      const id = target.includes('.') ? target : `${target}.0`;
+      if (nodes.has(id)) return [id];
+    } else {
+      const [path, name] = target.includes('#') ? target.split('#') as [string, string] : [undefined, target];
+      const matches = [...nodes.values()].filter(node => path === undefined
+        ? node.entity ? node.qualifiedName === name || node.qualifiedName!.endsWith(`.${name}`) : node.file.path === name
+        : node.file.path === path && node.qualifiedName === name);
+      if (matches.length > 0) return matches.map(node => node.id);
+    }
+    throw new ScnQueryError(`'${text}' does not match any file, entity or ID in the map.`);
+  };
+  const fileOf = (id: string) => `${nodes.get(id)!.file.id}.0`;
+  const linksOf = (direction: 'dependencies' | 'callers'): Step => id => {
+    const node = nodes.get(id)!;
+    return idLinks((node.entity ?? node.file)[direction]).filter(link => nodes.has(link));
+  };
+  // Links between files are their imports.
+  const importsOf = (direction: 'dependencies' | 'callers'): Step => id => linksOf(direction)(id).filter(link => link.endsWith('.0'));
+
+  const finish = (ids: Iterable<string>, path?: string[]): ScnQueryResult => {
+    const sorted = [...new Set(ids)].sort((a, b) => nodes.get(a)!.order - nodes.get(b)!.order);
+    return { query, ids: sorted, ...(path && { path }), files: pruneFiles(files, new Set(sorted)) };
+  };
+  const rest = (from: number) => {
+    if (words.length <= from) throw new ScnQueryError(`Expected a target after '${words.slice(0, from).join(' ')}'.`);
+    return words.slice(from).join(' ');
+  };
+
+  if (lower[0] === 'path' && lower[1] === 'from') {
+    const to = lower.indexOf('to', 3);
+    if (to < 0) throw new ScnQueryError("Expected 'path from <target> to <target>'.");
+    const sources = resolveTarget(words.slice(2, to).join(' '));
+    const targets = new Set(resolveTarget(rest(to + 1)));
+    const path = findPath(sources, targets, linksOf('dependencies'));
+    return finish(path, path);
+  }
+  if ((lower[0] === 'callers' || lower[0] === 'dependencies') && lower[1] === 'of') {
+    return finish(follow(resolveTarget(rest(2)), linksOf(lower[0]), transitive));
+  }
+  if (lower[0] === 'files' && lower[1] === 'importing') {
+    return finish(follow(resolveTarget(rest(2)).map(fileOf), importsOf('callers'), transitive));
+  }
+  if (lower[0] === 'files' && lower[1] === 'imported' && lower[2] === 'by') {
+    return finish(follow(resolveTarget(rest(3)).map(fileOf), importsOf('dependencies'), transitive));
+  }
+  if (transitive) throw new ScnQueryError("Only relations ('callers of', 'files importing', ...) can be followed transitively.");
+
+  // A filter: adjectives, a kind, then optional clauses.
+  let index = 0;
+  const required: QualifierSymbol[] = [];
+  while (lower[index] !== undefined && ADJECTIVES[lower[index]!]) required.push(ADJECTIVES[lower[index++]!]!);
+  const kind = lower[index++];
+  if (kind === undefined || (kind !== 'files' && !(kind in KINDS))) {
+    throw new ScnQueryError(`Unknown query '${query}'. Try 'callers of <target>', 'files importing <target>', 'async functions in <glob>' or 'path from <target> to <target>'.`);
+  }
+  if (lower[index] === 'that' && (lower[index + 1] === 'throw' || lower[index + 1] === 'throws')) {
+    required.push('!');
+    index += 2;
+  }
+  let inGlob: RegExp | undefined;
+  if (lower[index] === 'in') {
+    inGlob = globToRegExp(rest(index + 1));
+    index = words.length;
+  }
+  if (index < words.length) throw new ScnQueryError(`Unexpected '${words.slice(index).join(' ')}' in query '${query}'.`);
+  if (kind === 'files' && required.length > 0) throw new ScnQueryError('Files have no qualifiers to filter by.');
+
+  const symbols = KINDS[kind];
+  return finish([...nodes.values()]
+    .filter(node => !inGlob || inGlob.test(node.file.path))
+    .filter(node => kind === 'files'
+      ? !node.entity
+      : node.entity !== undefined && !node.entity.stub && (!symbols || symbols.includes(node.entity.symbol))
+        && required.every(qualifier => qualifier === node.entity!.access || (node.entity!.qualifiers as QualifierSymbol[]).includes(qualifier)))
+    .map(node => node.id));
+};
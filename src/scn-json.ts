@@ -0,0 +1,66 @@
+import type { QualifierSymbol, ScnSymbol } from './serializer';
+
+/**
+ * Version of the JSON schema below. It is bumped whenever a field is removed
+ * or changes meaning; new optional fields do not bump it.
+ */
+export const SCN_JSON_SCHEMA_VERSION = 1;
+
+/**
+ * A `->`/`<-` link. `id` links point at entities (`2.1`) or files (`2.0`) in
+ * the map; `name` links point at packages and files outside it (`react`).
+ */
+export type ScnJsonLink = { kind: 'id'; id: string } | { kind: 'name'; name: string };
+
+/** One entity line of an SCN map, with the entities nested under it. */
+export interface ScnJsonEntity {
+  /** Hierarchical ID, e.g. `1.2`. */
+  id: string;
+  symbol: ScnSymbol;
+  /** Name as displayed, without the enclosing class (`login`, not `AuthService.login`). */
+  name: string;
+  /** `+` for public/exported, `-` for private/protected; absent when neither applies. */
+  access?: Extract<QualifierSymbol, '+' | '-'>;
+  /** Behavioural qualifiers in display order: `...` async, `!` throws, `o` pure. */
+  qualifiers: Exclude<QualifierSymbol, '+' | '-'>[];
+  /** Signature as rendered after the name, e.g. `(id: #(string)): #(1.1)` or `{ 📐 }`. */
+  signature?: string;
+  /** With a public API filter, the paths the entity is exported under, e.g. `@acme/lib#login`. */
+  publicPaths?: string[];
+  /** With `includeDocs`, the first sentences of the entity's doc comment and of its `@deprecated` and `@returns` tags. */
+  docs?: { summary?: string; deprecated?: string; returns?: string };
+  /** Set when only the ID, symbol and name are shown, for neighbours outside a `focus` slice. */
+  stub?: true;
+  /** With `since` or `changedFiles`, set when the entity's lines changed. */
+  changed?: true;
+  dependencies: ScnJsonLink[];
+  callers: ScnJsonLink[];
+  children: ScnJsonEntity[];
+}
+
+/** One `§` section of an SCN map. */
+export interface ScnJsonFile {
+  /** File ID, e.g. `1`. Links to the file itself use `1.0`. */
+  id: string;
+  path: string;
+  /** In workspace mode, the name of the package the file belongs to. */
+  package?: string;
+  /** With `importance`, the file's rank relative to the most central file, from 0 to 1. */
+  importance?: number;
+  stub?: true;
+  /** With `since` or `changedFiles`, set when the file changed. */
+  changed?: true;
+  dependencies: ScnJsonLink[];
+  callers: ScnJsonLink[];
+  entities: ScnJsonEntity[];
+}
+
+/** An SCN map as JSON, as produced by `generateScnJson` and `--format json`. */
+export interface ScnJsonDocument {
+  schemaVersion: typeof SCN_JSON_SCHEMA_VERSION;
+  files: ScnJsonFile[];
+  /** In workspace mode, the packages of the map and the workspace packages each depends on. */
+  packages?: { name: string; dir: string; dependencies: string[] }[];
+  /** Present when a token budget left entities or files out. */
+  omitted?: { entities: number; files: number };
+}
@@ -8,14 +8,44 @@ import type {
 
 // Allow for 'contains' and 'references' edges which might be produced by repograph
 // but not present in a minimal type definition.
-type CodeEdge = Omit<RepographEdge, 'type'> & {
+export type CodeEdge = Omit<RepographEdge, 'type'> & {
   type: RepographEdge['type'] | 'contains' | 'references';
 };
+import { createHash } from "crypto";
 import { readFileSync } from "fs";
-import { join } from "path";
+import { join, resolve } from "path";
+import { fitToTokenBudget } from "./budget";
+import { splitIntoChunks, type ScnChunk, type ScnSplitLimits } from "./split";
+import { collectStats, type ScnStats, type ScnTokenizer } from "./stats";
+import { runQuery, type ScnQueryResult } from "./query";
+import { collectExternalReferences, type ExternalReferences } from "./external-deps";
+import type { ModuleResolver } from "./module-resolver";
+import type { PublicApi } from "./public-api";
+import { findWorkspacePackage, type WorkspacePackage } from "./workspace";
+import { DEFAULT_DOC_MAX_LENGTH, formatDocSummary, readDocSummary } from "./docs";
+import { createNodeHeuristics, type NodeHeuristics, type ScnHeuristics } from "./heuristics";
+import { applyFilePlugins, applyFormatPlugins, applySignaturePlugins, applySymbolPlugins, type ScnPlugin, type ScnPluginContext } from "./plugin";
+import {
+  SCN_JSON_SCHEMA_VERSION,
+  type ScnJsonDocument,
+  type ScnJsonEntity,
+  type ScnJsonFile,
+  type ScnJsonLink,
+} from "./scn-json";
+import { computeFocusSlice } from "./focus";
+import { findChangedNodes, type ScnFileChange } from "./changes";
+import { getEntityLockKeys, updateIdLock, type ScnIdLock } from "./id-lock";
+import {
+  createTypeIndex,
+  formatTypeReference,
+  isOmittedReturnType,
+  parseFunctionSignature,
+  parsePropertyType,
+  type ParsedSignature,
+} from "./type-refs";
 
-type ScnSymbol = "◇" | "~" | "@" | "{}" | "☰" | "=:" | "⛶" | "¶" | "?";
-type QualifierSymbol = "+" | "-" | "..." | "!" | "o";
+export type ScnSymbol = "◇" | "~" | "@" | "{}" | "☰" | "=:" | "⛶" | "¶" | "?";
+export type QualifierSymbol = "+" | "-" | "..." | "!" | "o";
 type CssIntentSymbol = "📐" | "✍" | "💧";
 
 const ENTITY_TYPE_TO_SYMBOL: Record<CodeNodeType, ScnSymbol | undefined> = {
@@ -55,19 +85,26 @@ class ScnIdManager {
   private repographIdToScnId = new Map<string, string>();
   private fileRepoIdToPath = new Map<string, string>();
 
-  constructor(sortedFileNodes: CodeNode[], nodesByFile: Map<string, CodeNode[]>) {
+  /**
+   * Without a lock, IDs are handed out sequentially in the order of the
+   * files and of the entities in `nodesByFile`. With a lock, they are taken
+   * from it (see `updateIdLock`).
+   */
+  constructor(sortedFileNodes: CodeNode[], nodesByFile: ReadonlyMap<string, readonly CodeNode[]>, idLock?: ScnIdLock) {
     for (const fileNode of sortedFileNodes) {
-      const fileId = `${this.fileIdCounter++}`;
+      const lockedFile = idLock?.files[fileNode.filePath];
+      const fileId = lockedFile ? `${lockedFile.id}` : `${this.fileIdCounter++}`;
       this.repographIdToScnId.set(fileNode.id, fileId);
       this.fileRepoIdToPath.set(fileNode.id, fileNode.filePath);
       this.entityIdCounters.set(fileNode.filePath, 1);
 
       const entities = nodesByFile.get(fileNode.filePath) || [];
-      entities.sort((a, b) => a.startLine - b.startLine);
+      const lockKeys = lockedFile ? getEntityLockKeys(entities) : undefined;
 
       for (const entityNode of entities) {
         const entityCounter = this.entityIdCounters.get(entityNode.filePath)!;
-        const entityId = `${fileId}.${entityCounter}`;
+        const lockedEntity = lockedFile?.entities[lockKeys!.get(entityNode.id)!];
+        const entityId = `${fileId}.${lockedEntity ?? entityCounter}`;
         this.repographIdToScnId.set(entityNode.id, entityId);
         this.entityIdCounters.set(entityNode.filePath, entityCounter + 1);
       }
@@ -83,9 +120,155 @@ class ScnIdManager {
   }
 }
 
+/** A symbol together with the symbols nested inside it. */
+export interface SymbolTreeNode {
+  node: CodeNode;
+  children: SymbolTreeNode[];
+}
+
+/**
+ * How much of each file to emit: `files` only the `§` headers and their
+ * links, `api` only public (`+`) entities and their public members, and
+ * `full` everything.
+ */
+export type ScnDetailLevel = 'files' | 'api' | 'full';
+
+/** Options that control which parts of the graph `serializeGraph` emits. */
+export interface SerializeOptions {
+  /** @default 'full' */
+  detail?: ScnDetailLevel;
+  /**
+   * Order of files and of top-level entities within each file: by `path`
+   * (and line), or by `rank`, most central first. IDs follow the order.
+   * @default 'path'
+   */
+  order?: 'path' | 'rank';
+  /**
+   * Annotate each `§` header with the file's rank normalized to the most
+   * central file, e.g. `// importance 0.42`.
+   */
+  importance?: boolean;
+  /**
+   * Approximate token budget for the output. When the full map is larger,
+   * the lowest-ranked entities are omitted first, then the lowest-ranked files.
+   */
+  maxTokens?: number;
+  /**
+   * Restricts the map to the neighborhood of these targets: file paths
+   * (`src/api.ts`) or symbols within a file (`src/api.ts#AuthService.login`).
+   */
+  focus?: string[];
+  /**
+   * How many `->`/`<-` hops from the focus targets to include in full.
+   * @default 1
+   */
+  depth?: number;
+  /**
+   * Persisted IDs to reuse instead of numbering files and entities
+   * sequentially. Entries missing from the lock are assigned fresh numbers.
+   */
+  idLock?: ScnIdLock;
+  /**
+   * Name external dependencies by package (`-> (lodash)`) rather than by the
+   * module imported (`-> (lodash/debounce)`).
+   */
+  groupExternalDependencies?: boolean;
+  /**
+   * Resolves import specifiers the way the project's tsconfig does, so that
+   * aliased imports are not mistaken for external packages.
+   */
+  resolveModule?: ModuleResolver;
+  /**
+   * Restricts the map to a package's public API: the entities in this map
+   * (see `collectPublicApi`) and their public members, each labelled with
+   * the paths it is exported under.
+   */
+  publicApi?: PublicApi;
+  /**
+   * Workspace packages to group the map by. Files are ordered package by
+   * package, and each package's files are preceded by a
+   * `// package name (dir)` comment.
+   */
+  packages?: readonly WorkspacePackage[];
+  /** Tunes how components, module containers and pure functions are detected. */
+  heuristics?: ScnHeuristics;
+  /**
+   * Append the first sentence of each entity's doc comment, and its
+   * `@deprecated` and `@returns` tags, as a trailing comment; `@throws`
+   * adds the `!` qualifier. `maxLength` caps each sentence (default 80).
+   */
+  includeDocs?: boolean | { maxLength?: number };
+  /** Plugins whose symbol, signature and file hooks apply to the output. */
+  plugins?: readonly ScnPlugin[];
+  /**
+   * Restricts the map to these changed files and their neighborhood, `depth`
+   * hops as with `focus`, and marks changed files and entities `// changed`.
+   */
+  changes?: readonly ScnFileChange[];
+  /**
+   * Files described and rendered by earlier runs, by path. Files whose output
+   * would not change are taken from it, and the others are updated in it.
+   * Not used with plugins that have `symbol`, `signature` or `transformFile`
+   * hooks, or with a `components` predicate, whose results cannot be keyed.
+   */
+  fragmentCache?: Map<string, ScnFragment>;
+}
+
+/** A file as an earlier run described and rendered it. */
+export interface ScnFragment {
+  /** Hash of the file's source and of everything else its output shows. */
+  key: string;
+  /** The type names the file's signatures looked up, each with the SCN ID it linked to. */
+  types: [nodeId: string, name: string, scnId: string | null][];
+  file: ScnJsonFile;
+  text: string;
+}
+
+interface SerializeContext {
+  graph: RankedCodeGraph;
+  idManager: ScnIdManager;
+  rootDir?: string;
+  /** Repograph IDs of nodes left out of the output. Links pointing at them are dropped. */
+  omitted: ReadonlySet<string>;
+  /** Repograph IDs of nodes rendered as bare ID stubs, without signature, qualifiers or links. */
+  stubs: ReadonlySet<string>;
+  /** The SCN ID a type name used by a node refers to, unless its declaration is left out. */
+  resolveTypeId: (name: string, node: CodeNode) => string | undefined;
+  /** Named references to packages and unscanned files, rendered after the ID links. */
+  externals: ExternalReferences;
+  publicApi?: PublicApi;
+  /** The workspace package of each file, keyed by repograph file node ID. */
+  packageOf: ReadonlyMap<string, WorkspacePackage>;
+  heuristics: NodeHeuristics;
+  /** With `importance`, the normalized rank of each emitted file, keyed by repograph file node ID. */
+  importanceOf?: ReadonlyMap<string, number>;
+  /** With `includeDocs`, the length cap of doc comment sentences. */
+  docMaxLength?: number;
+  /** With `changes`, the repograph IDs of the changed files and entities. */
+  changed?: ReadonlySet<string>;
+  plugins: readonly ScnPlugin[];
+  pluginContext: ScnPluginContext;
+}
+
 // Cache for source file contents to avoid reading files multiple times
 const sourceFileCache = new Map<string, string>();
 
+/**
+ * Forgets the cached contents of source files, e.g. after they changed on
+ * disk, so the next serialization reads them again. Without paths, the whole
+ * cache is cleared.
+ */
+export const invalidateSourceFiles = (paths?: Iterable<string>): void => {
+  if (!paths) {
+    sourceFileCache.clear();
+    return;
+  }
+  const targets = new Set([...paths].map(path => resolve(path)));
+  for (const key of sourceFileCache.keys()) {
+    if (targets.has(resolve(key))) sourceFileCache.delete(key);
+  }
+};
+
 const getSourceContent = (filePath: string, rootDir?: string): string => {
   const fullPath = rootDir ? join(rootDir, filePath) : filePath;
   if (!sourceFileCache.has(fullPath)) {
@@ -102,7 +285,8 @@ const getSourceContent = (filePath: string, rootDir?: string): string => {
 const getVisibilitySymbol = (node: CodeNode, rootDir?: string): '+' | '-' | undefined => {
   if (node.visibility === 'public') return '+';
   if (node.visibility === 'private' || node.visibility === 'protected') return '-';
-  if (node.type === 'file') return undefined;
+  // The type checker marks declarations their module does not export as internal.
+  if (node.visibility === 'internal' || node.type === 'file') return undefined;
 
   // Fallback to source-based inference if repograph doesn't provide visibility.
   const source = getSourceContent(node.filePath, rootDir);
@@ -133,22 +317,15 @@ const getVisibilitySymbol = (node: CodeNode, rootDir?: string): '+' | '-' | unde
   return undefined;
 };
 
-const isComponentNode = (node: CodeNode): boolean =>
-  (node.type === 'function' || node.type === 'arrow_function') && /^[A-Z]/.test(node.name);
-
-const getNodeSymbol = (node: CodeNode): ScnSymbol => {
-  // Heuristic: Treat PascalCase functions as components (e.g., React)
-  if (isComponentNode(node)) {
-    return '◇';
-  }
-  // Heuristic: Treat uppercase constants/variables as containers (module pattern)
-  if ((node.type === 'variable' || node.type === 'constant') && /^[A-Z]/.test(node.name)) {
+const getNodeSymbol = (node: CodeNode, heuristics: NodeHeuristics): ScnSymbol => {
+  // Components (e.g. React) and module-pattern containers, as the heuristics detect them
+  if (heuristics.isComponent(node) || heuristics.isModuleContainer(node)) {
     return '◇';
   }
   return ENTITY_TYPE_TO_SYMBOL[node.type] ?? '?';
 };
 
-const getQualifiers = (node: CodeNode, rootDir?: string): { access?: '+' | '-'; others: QualifierSymbol[] } => {
+const getQualifiers = (node: CodeNode, heuristics: NodeHeuristics, rootDir?: string): { access?: '+' | '-'; others: QualifierSymbol[] } => {
   const access = getVisibilitySymbol(node, rootDir);
   
   const others: QualifierSymbol[] = [];
@@ -162,65 +339,12 @@ const getQualifiers = (node: CodeNode, rootDir?: string): { access?: '+' | '-';
   if (canThrow) others.push('!');
   
   // Check for pure function heuristic
-  const isPure = node.isPure || isPureFunction(node, rootDir);
+  const isPure = node.isPure || heuristics.isPure(node);
   if (isPure) others.push('o');
   
   return { access, others };
 };
 
-const isPureFunction = (node: CodeNode, rootDir?: string): boolean => {
-  if (!['function', 'method', 'arrow_function'].includes(node.type)) return false;
-  if (!node.codeSnippet) return false;
-  
-  // Get the full source to analyze the function body
-  const source = getSourceContent(node.filePath, rootDir);
-  if (!source) return false;
-  
-  const lines = source.split('\n');
-  const startLine = node.startLine - 1;
-  const endLine = node.endLine - 1;
-  
-  if (startLine < 0 || endLine >= lines.length) return false;
-  
-  const functionBody = lines.slice(startLine, endLine + 1).join('\n');
-  
-  // Simple heuristics for pure functions
-  const impurePatterns = [
-    /console\./,
-    /document\./,
-    /window\./,
-    /localStorage/,
-    /sessionStorage/,
-    /fetch\(/,
-    /XMLHttpRequest/,
-    /setTimeout/,
-    /setInterval/,
-    /Math\.random/,
-    /Date\(/,
-    /new Date/,
-    /\.push\(/,
-    /\.pop\(/,
-    /\.shift\(/,
-    /\.unshift\(/,
-    /\.splice\(/,
-    /\.sort\(/,
-    /\.reverse\(/,
-    /\+\+/,
-    /--/,
-    /\w+\s*=\s*(?!.*return)/,
-  ];
-  
-  // If it contains any impure patterns, it's not pure
-  if (impurePatterns.some(pattern => pattern.test(functionBody))) {
-    return false;
-  }
-  
-  // If it only contains return statements and basic operations, likely pure
-  const hasOnlyReturn = /^\s*export\s+(?:async\s+)?function\s+\w+\([^)]*\)(?:\s*:\s*[^{]+)?\s*{\s*return\s+[^;]+;\s*}\s*$/.test(functionBody.replace(/\n/g, ' '));
-  
-  return hasOnlyReturn;
-};
-
 const formatCssIntents = (intents: readonly CssIntent[] = []): string => {
   if (intents.length === 0) return '';
   // Sort intents alphabetically first, then map to symbols
@@ -229,27 +353,25 @@ const formatCssIntents = (intents: readonly CssIntent[] = []): string => {
   return `{ ${symbols.join(' ')} }`;
 };
 
-const formatFunctionSignature = (snippet: string): string => {
-  // Find parameters part, e.g., (a: string, b: number)
-  const paramsMatch = snippet.match(/\(([^)]*)\)/);
-  let params = '()';
-  if (paramsMatch && paramsMatch[1] !== undefined) {
-    // Replace type annotations with #
-    const paramContent = paramsMatch[1].replace(/:[^\,)]+/g, ': #');
-    params = `(${paramContent})`;
-  }
+const formatTypeRef = (type: string, node: CodeNode, context: SerializeContext): string =>
+  formatTypeReference(type, name => context.resolveTypeId(name, node));
 
-  // Find return type, e.g., ): string
-  const returnMatch = snippet.match(/\)\s*:\s*([\w\.<>\[\]\| &]+)/);
-  let returnType = '';
-  if (returnMatch && returnMatch[1]) {
-    const type = returnMatch[1].trim();
-    if (type !== 'void' && type !== 'any' && type !== 'unknown') {
-       returnType = `: #${type}`;
-    }
-  }
+const formatFunctionSignature = (node: CodeNode, context: SerializeContext): string => {
+  const displayName = node.name.split('.').pop() || node.name;
+  const parsed: ParsedSignature | undefined = node.parameters
+    ? { parameters: node.parameters, returnType: node.returnType?.replace(/^\s*:\s*/, '') }
+    : parseFunctionSignature(node.codeSnippet ?? '', displayName);
+  if (!parsed) return '()';
+
+  const params = parsed.parameters
+    .map(param => param.type ? `${param.name}: ${formatTypeRef(param.type, node, context)}` : param.name)
+    .join(', ');
 
-  return `${params}${returnType}`;
+  const returnType = parsed.returnType && !isOmittedReturnType(parsed.returnType)
+    ? `: ${formatTypeRef(parsed.returnType, node, context)}`
+    : '';
+
+  return `(${params})${returnType}`;
 }
 
 const formatJsxAttributes = (snippet: string): string => {
@@ -266,8 +388,9 @@ const formatJsxAttributes = (snippet: string): string => {
     return attrs.length > 0 ? `[ ${attrs.join(' ')} ]` : '';
 }
 
-const formatSignature = (node: CodeNode, rootDir?: string): string => {
-  if (isComponentNode(node)) {
+const formatSignature = (node: CodeNode, context: SerializeContext): string => {
+  const { rootDir } = context;
+  if (context.heuristics.isComponent(node)) {
     // For components, we need to extract props from the full function signature
     // Get the source content to find the complete function definition
     const source = getSourceContent(node.filePath, rootDir);
@@ -299,8 +422,14 @@ const formatSignature = (node: CodeNode, rootDir?: string): string => {
   }
 
   // For functions, format as name() instead of showing full code snippet
-  if ((node.type === 'function' || node.type === 'method' || node.type === 'constructor' || node.type === 'arrow_function') && node.codeSnippet) {
-    return formatFunctionSignature(node.codeSnippet);
+  if ((node.type === 'function' || node.type === 'method' || node.type === 'constructor' || node.type === 'arrow_function') && (node.codeSnippet || node.parameters)) {
+    return formatFunctionSignature(node, context);
+  }
+
+  // For class properties and fields, show the annotated type
+  if ((node.type === 'property' || node.type === 'field') && node.codeSnippet) {
+    const type = parsePropertyType(node.codeSnippet);
+    return type ? `: ${formatTypeRef(type, node, context)}` : '';
   }
   
   // For JSX/HTML elements, show attributes
@@ -321,8 +450,8 @@ const formatSignature = (node: CodeNode, rootDir?: string): string => {
 
   // For variables/constants, show the value if it's simple
   if ((node.type === 'variable' || node.type === 'constant') && node.codeSnippet) {
-    // For uppercase constants that are treated as modules (◇ symbol), show different formatting
-    if (/^[A-Z]/.test(node.name)) {
+    // Module containers (◇ symbol), as the heuristics detect them, are formatted differently
+    if (context.heuristics.isModuleContainer(node)) {
       // If it's an object literal, show it without = prefix (module pattern)
       if (node.codeSnippet.startsWith('{') && node.codeSnippet.endsWith('}')) {
         return node.codeSnippet;
@@ -351,61 +480,58 @@ const formatSignature = (node: CodeNode, rootDir?: string): string => {
   return '';
 };
 
-const formatNode = (node: CodeNode, graph: RankedCodeGraph, idManager: ScnIdManager, rootDir?: string, level = 0): string => {
-  const symbol = getNodeSymbol(node);
-  const { access, others } = getQualifiers(node, rootDir);
-  const signature = formatSignature(node, rootDir);
-  const scnId = idManager.getScnId(node.id);
-  const id = scnId ? `(${scnId})` : '';
-  const indent = '  '.repeat(level + 1);
+/**
+ * Builds link lists in display order: IDs sorted as text, then names of
+ * packages and unscanned files, also sorted.
+ */
+const toLinks = (ids: readonly string[], names: readonly string[] = []): ScnJsonLink[] => [
+  ...[...ids].sort().map((id): ScnJsonLink => ({ kind: 'id', id })),
+  ...[...names].sort().map((name): ScnJsonLink => ({ kind: 'name', name })),
+];
+
+const formatLinkLine = (prefix: '->' | '<-', links: readonly ScnJsonLink[], indent: string): string => {
+  if (links.length === 0) return '';
+  return `\n${indent}${prefix} ${links.map(link => `(${link.kind === 'id' ? link.id : link.name})`).join(', ')}`;
+};
 
-  // Build the main line: qualifiers symbol id name signature
-  const parts = [];
-  if (access) parts.push(access);
-  parts.push(symbol);
-  if (id) parts.push(id);
+/** Collects everything an entity line shows: symbol, ID, qualifiers, signature and links. */
+const describeNode = (node: CodeNode, context: SerializeContext, children: ScnJsonEntity[]): ScnJsonEntity => {
+  const { graph, idManager, rootDir, omitted, stubs, heuristics, plugins, pluginContext } = context;
+  const symbol = applySymbolPlugins(node, getNodeSymbol(node, heuristics), plugins, pluginContext);
+  const id = idManager.getScnId(node.id) ?? '';
 
-  // For functions, combine name and signature without space, unless it's a component
-  if (['function', 'method', 'constructor', 'arrow_function'].includes(node.type) && !isComponentNode(node)) {
+  if (stubs.has(node.id)) {
     const displayName = node.name.includes('.') ? node.name.split('.').pop() || node.name : node.name;
-    parts.push(displayName + signature);
-  } else {
-    const displayName = (node.type === 'property' || node.type === 'field' || node.type === 'html_element') && node.name.includes('.')
-      ? node.name.split('.').pop() || node.name
-      : node.name;
-    parts.push(displayName);
-    if (signature) parts.push(signature);
+    return { id, symbol, name: displayName, qualifiers: [], stub: true, dependencies: [], callers: [], children };
   }
 
-  let mainLine = indent + parts.join(' ');
-  if (others.length > 0) {
-    // Sort qualifiers in specific order: ... ! o
-    const sortedOthers = others.sort((a, b) => {
-      const order = ['...', '!', 'o'];
-      return order.indexOf(a) - order.indexOf(b);
-    });
-    mainLine += ` ${sortedOthers.join(' ')}`;
-  }
+  const { others, ...qualifiers } = getQualifiers(node, heuristics, rootDir);
+  // Whatever a package entry point exports is public, even without an `export` keyword of its own.
+  const publicPaths = context.publicApi?.get(node.id);
+  const access = publicPaths ? '+' : qualifiers.access;
+  const signature = applySignaturePlugins(node, formatSignature(node, context), plugins, pluginContext);
+  const { throws, ...docs } = context.docMaxLength !== undefined
+    ? readDocSummary(getSourceContent(node.filePath, rootDir), node.startLine, context.docMaxLength) ?? { throws: false }
+    : { throws: false };
+  if (throws && !others.includes('!')) others.push('!');
 
-  const formatLinks = (prefix: string, edges: readonly CodeEdge[]): string => {
-    if (edges.length === 0) return '';
-    const links = edges.map((edge: CodeEdge) => {
-      const isCallerLink = prefix === '<-';
-      const targetRepographId = isCallerLink ? edge.fromId : edge.toId;
-      const targetNode = graph.nodes.get(targetRepographId);
-      let targetScnId = idManager.getScnId(targetRepographId);
-
-      // Per spec, file-level dependencies use a .0 suffix.
-      // This applies if the target of the link is a file itself.
-      if (targetNode?.type === 'file') {
-        targetScnId = `${targetScnId}.0`;
-      }
-      return `(${targetScnId})`;
-    }).filter(Boolean).sort().join(', ');
+  const displayName = ['function', 'method', 'constructor', 'arrow_function', 'property', 'field', 'html_element'].includes(node.type) && node.name.includes('.')
+    ? node.name.split('.').pop() || node.name
+    : node.name;
 
-    if (!links) return '';
-    return `\n${indent}  ${prefix} ${links}`;
-  };
+  // Sort qualifiers in specific order: ... ! o
+  const order = ['...', '!', 'o'];
+  const sortedQualifiers = others.sort((a, b) => order.indexOf(a) - order.indexOf(b)) as ScnJsonEntity['qualifiers'];
+
+  const linkIds = (edges: readonly CodeEdge[], isCallerLink: boolean): string[] => edges.flatMap(edge => {
+    const targetRepographId = isCallerLink ? edge.fromId : edge.toId;
+    if (omitted.has(targetRepographId)) return [];
+    const targetScnId = idManager.getScnId(targetRepographId);
+    if (!targetScnId) return [];
+    // Per spec, file-level dependencies use a .0 suffix.
+    // This applies if the target of the link is a file itself.
+    return [graph.nodes.get(targetRepographId)?.type === 'file' ? `${targetScnId}.0` : targetScnId];
+  });
 
   const dependencyEdges = (graph.edges as CodeEdge[]).filter(edge => edge.fromId === node.id && edge.type !== 'contains');
   const callerEdges = (graph.edges as CodeEdge[]).filter(edge => {
@@ -423,42 +549,47 @@ const formatNode = (node: CodeNode, graph: RankedCodeGraph, idManager: ScnIdMana
     return edge.type !== 'imports';
   });
 
-  return mainLine + formatLinks('->', dependencyEdges) + formatLinks('<-', callerEdges);
-};
-
-const serializeFile = (
-  fileNode: CodeNode,
-  symbols: CodeNode[],
-  graph: RankedCodeGraph,
-  idManager: ScnIdManager,
-  rootDir?: string
-): string => {
-  const scnId = idManager.getScnId(fileNode.id) ?? '';
-
-  const formatFileLinks = (prefix: string, edges: readonly CodeEdge[]): string => {
-    if (edges.length === 0) return '';
-    const links = edges.map((edge: CodeEdge) => {
-      const targetId = prefix === '->' ? edge.toId : edge.fromId;
-      const targetScnId = idManager.getScnId(targetId);
-      return `(${targetScnId}.0)`;
-    }).sort().join(', ');
-    if (!links) return '';
-    return `\n  ${prefix} ${links}`;
+  return {
+    id,
+    symbol,
+    name: displayName,
+    ...(access && { access }),
+    qualifiers: sortedQualifiers,
+    ...(signature && { signature }),
+    ...(publicPaths && { publicPaths: [...publicPaths] }),
+    ...(Object.keys(docs).length > 0 && { docs }),
+    ...(context.changed?.has(node.id) && { changed: true as const }),
+    dependencies: toLinks(linkIds(dependencyEdges, false), context.externals.byEntity.get(node.id)),
+    callers: toLinks(linkIds(callerEdges, true)),
+    children,
   };
+};
 
-  const fileDependencies = graph.edges.filter(e => e.type === 'imports' && e.fromId === fileNode.id);
-  const fileCallers = graph.edges.filter(e => e.type === 'imports' && e.toId === fileNode.id);
-
-    const formattedPath = fileNode.filePath.includes(' ') ? `"${fileNode.filePath}"` : fileNode.filePath;
-    let header = `§ (${scnId}) ${formattedPath}`;
-  const fileDepLine = formatFileLinks('->', fileDependencies);
-  if (fileDepLine) header += fileDepLine;
-  const fileCallerLine = formatFileLinks('<-', fileCallers);
-  if (fileCallerLine) header += fileCallerLine;
+const formatNode = (entity: ScnJsonEntity, level = 0): string => {
+  const indent = '  '.repeat(level + 1);
+  // Parameter lists and property types attach to the name (`login(...)`, `db: #(Database)`), other signatures follow it.
+  const label = entity.signature
+    ? /^[(:]/.test(entity.signature) ? entity.name + entity.signature : `${entity.name} ${entity.signature}`
+    : entity.name;
+  const parts = [entity.access, entity.symbol, entity.id && `(${entity.id})`, label, ...entity.qualifiers].filter(Boolean);
+  const comment = [
+    entity.changed && 'changed',
+    entity.publicPaths && `exported as ${entity.publicPaths.join(', ')}`,
+    entity.docs && formatDocSummary(entity.docs),
+  ].filter(Boolean).join(' | ');
+  return indent + parts.join(' ')
+    + (comment ? ` // ${comment}` : '')
+    + formatLinkLine('->', entity.dependencies, `${indent}  `)
+    + formatLinkLine('<-', entity.callers, `${indent}  `);
+};
 
-  // Hierarchical rendering
-  const nodeWrappers = symbols.map(s => ({ node: s, children: [] as {node: CodeNode, children: any[]}[] })).sort((a,b) => a.node.startLine - b.node.startLine);
-  const topLevelSymbols: typeof nodeWrappers = [];
+/**
+ * Nests symbols by line containment, e.g. methods inside their class and
+ * JSX elements inside their parent element.
+ */
+export const buildSymbolTree = (symbols: CodeNode[]): SymbolTreeNode[] => {
+  const nodeWrappers: SymbolTreeNode[] = symbols.map(s => ({ node: s, children: [] })).sort((a,b) => a.node.startLine - b.node.startLine);
+  const topLevelSymbols: SymbolTreeNode[] = [];
 
   for (let i = 0; i < nodeWrappers.length; i++) {
     const currentWrapper = nodeWrappers[i];
@@ -492,30 +623,152 @@ const serializeFile = (
     }
   }
 
+  return topLevelSymbols;
+};
+
+/** Collects a file's `§` header data and its entity tree, leaving out omitted nodes. */
+const describeFile = (
+  fileNode: CodeNode,
+  symbolTree: SymbolTreeNode[],
+  context: SerializeContext
+): ScnJsonFile => {
+  const { graph, idManager, omitted, stubs } = context;
+  const fileIdsOf = (ids: readonly string[]) => ids.map(id => `${idManager.getScnId(id)}.0`);
+
+  // A stubbed file only provides the header that its stubbed entities hang off.
+  const isStub = stubs.has(fileNode.id);
+  const fileDependencies = isStub ? [] : graph.edges.filter((e: CodeEdge) => e.type === 'imports' && e.fromId === fileNode.id && !omitted.has(e.toId));
+  const fileCallers = isStub ? [] : graph.edges.filter((e: CodeEdge) => e.type === 'imports' && e.toId === fileNode.id && !omitted.has(e.fromId));
+
+  const describeTree = (wrappers: readonly SymbolTreeNode[]): ScnJsonEntity[] => wrappers
+    // An omitted entity takes its nested entities with it.
+    .filter(wrapper => !omitted.has(wrapper.node.id))
+    .map(wrapper => describeNode(wrapper.node, context, describeTree(wrapper.children)));
+
+  const pkg = context.packageOf.get(fileNode.id);
+  const importance = context.importanceOf?.get(fileNode.id);
+  return {
+    id: idManager.getScnId(fileNode.id) ?? '',
+    path: fileNode.filePath,
+    ...(pkg && { package: pkg.name }),
+    ...(importance !== undefined && { importance }),
+    ...(isStub && { stub: true as const }),
+    ...(context.changed?.has(fileNode.id) && { changed: true as const }),
+    dependencies: toLinks(fileIdsOf(fileDependencies.map((e: CodeEdge) => e.toId)), isStub ? [] : context.externals.byFile.get(fileNode.id)),
+    callers: toLinks(fileIdsOf(fileCallers.map((e: CodeEdge) => e.fromId))),
+    entities: describeTree(symbolTree),
+  };
+};
+
+/**
+ * Hashes everything `describeFile` reads for a file, except the type
+ * lookups, which a fragment records: the source, the nodes with their IDs
+ * and flags, and the IDs and flags of the nodes their edges lead to.
+ */
+const getFragmentKey = (
+  fileNode: CodeNode,
+  symbolTree: readonly SymbolTreeNode[],
+  context: SerializeContext,
+  edgesByNode: ReadonlyMap<string, readonly CodeEdge[]>,
+  fingerprint: string,
+): string => {
+  const { graph, idManager, omitted, stubs, changed, externals } = context;
+  const flatten = (wrappers: readonly SymbolTreeNode[]): CodeNode[] => wrappers.flatMap(wrapper => [wrapper.node, ...flatten(wrapper.children)]);
+  const nodes = [fileNode, ...flatten(symbolTree)].map(node => [
+    node,
+    idManager.getScnId(node.id) ?? null,
+    omitted.has(node.id),
+    stubs.has(node.id),
+    changed?.has(node.id) ?? false,
+    [...context.publicApi?.get(node.id) ?? []],
+    (node.type === 'file' ? externals.byFile : externals.byEntity).get(node.id) ?? [],
+    (edgesByNode.get(node.id) ?? []).map(edge => {
+      const otherId = edge.fromId === node.id ? edge.toId : edge.fromId;
+      return [edge.type, edge.fromId === node.id, idManager.getScnId(otherId) ?? null, graph.nodes.get(otherId)?.type === 'file', omitted.has(otherId)];
+    }),
+  ]);
+  return createHash('sha1')
+    .update(getSourceContent(fileNode.filePath, context.rootDir))
+    .update(JSON.stringify([fingerprint, context.packageOf.get(fileNode.id)?.name ?? null, context.importanceOf?.get(fileNode.id) ?? null, nodes]))
+    .digest('hex');
+};
+
+const serializeFile = (file: ScnJsonFile): string => {
+  const formattedPath = file.path.includes(' ') ? `"${file.path}"` : file.path;
+  const comment = [
+    file.importance !== undefined && `importance ${file.importance.toFixed(2)}`,
+    file.changed && 'changed',
+  ].filter(Boolean).join(' | ');
+  const header = `§ (${file.id}) ${formattedPath}`
+    + (comment ? ` // ${comment}` : '')
+    + formatLinkLine('->', file.dependencies, '  ')
+    + formatLinkLine('<-', file.callers, '  ');
+
   const nodeLines: string[] = [];
-  const processNode = (wrapper: {node: CodeNode, children: any[]}, level: number) => {
-    nodeLines.push(formatNode(wrapper.node, graph, idManager, rootDir, level));
-    for (const childWrapper of wrapper.children) {
-      processNode(childWrapper, level + 1);
+  const processNode = (entity: ScnJsonEntity, level: number) => {
+    nodeLines.push(formatNode(entity, level));
+    for (const child of entity.children) {
+      processNode(child, level + 1);
     }
   };
-
-  for (const wrapper of topLevelSymbols) {
-    processNode(wrapper, 0);
-  }
+  file.entities.forEach(entity => processNode(entity, 0));
 
   return [header, ...nodeLines].join('\n');
 };
 
 /**
- * Serializes a RankedCodeGraph into the SCN text format.
- * This function is the core rendering layer of `scn-ts`.
- *
- * @param graph - The `RankedCodeGraph` produced by `repograph`.
- * @param rootDir - The root directory of the project (for reading source files).
- * @returns A string containing the full SCN map.
+ * Lists the entities a detail level leaves out: all of them for `files`, and
+ * for `api` every entity not marked `+` together with everything nested in it.
  */
-export const serializeGraph = (graph: RankedCodeGraph, rootDir?: string): string => {
+const getDetailOmissions = (
+  symbolTrees: ReadonlyMap<string, SymbolTreeNode[]>,
+  detail: ScnDetailLevel,
+  rootDir?: string,
+): Set<string> => {
+  const omitted = new Set<string>();
+  if (detail === 'full') return omitted;
+  const visit = (wrapper: SymbolTreeNode, parentOmitted: boolean) => {
+    const isOmitted = parentOmitted || detail === 'files' || getVisibilitySymbol(wrapper.node, rootDir) !== '+';
+    if (isOmitted) omitted.add(wrapper.node.id);
+    wrapper.children.forEach(child => visit(child, isOmitted));
+  };
+  for (const symbolTree of symbolTrees.values()) symbolTree.forEach(wrapper => visit(wrapper, false));
+  return omitted;
+};
+
+/**
+ * Lists what consumers of a package cannot reach: top-level entities missing
+ * from `publicApi`, private members of those that are in it, and files left
+ * without any reachable entity.
+ */
+const getPublicApiOmissions = (
+  sortedFileNodes: readonly CodeNode[],
+  symbolTrees: ReadonlyMap<string, SymbolTreeNode[]>,
+  publicApi: PublicApi,
+  rootDir?: string,
+): Set<string> => {
+  const omitted = new Set<string>();
+  const visit = (wrapper: SymbolTreeNode, parentOmitted: boolean, isTopLevel: boolean): boolean => {
+    const isOmitted = parentOmitted
+      || (isTopLevel ? !publicApi.has(wrapper.node.id) : getVisibilitySymbol(wrapper.node, rootDir) === '-');
+    if (isOmitted) omitted.add(wrapper.node.id);
+    wrapper.children.forEach(child => visit(child, isOmitted, false));
+    return !isOmitted;
+  };
+  for (const fileNode of sortedFileNodes) {
+    const kept = (symbolTrees.get(fileNode.id) ?? []).map(wrapper => visit(wrapper, false, true));
+    if (!kept.includes(true)) omitted.add(fileNode.id);
+  }
+  return omitted;
+};
+
+/**
+ * Sets up everything both output formats share: IDs, the symbol trees, the
+ * focus slice, the detail level and the public API. `describe` builds the files of the map,
+ * leaving out the nodes in `dropped` on top of the `excluded` ones, which are
+ * outside the focus slice, below the detail level or not part of the public API.
+ */
+const prepareGraph = (graph: RankedCodeGraph, rootDir: string | undefined, options: SerializeOptions) => {
   const nodesByFile = new Map<string, CodeNode[]>(); // filePath -> nodes
   const fileNodes: CodeNode[] = [];
 
@@ -533,15 +786,312 @@ export const serializeGraph = (graph: RankedCodeGraph, rootDir?: string): string
     }
   }
 
-  const sortedFileNodes = fileNodes.sort((a, b) => a.filePath.localeCompare(b.filePath));
-  const idManager = new ScnIdManager(sortedFileNodes, nodesByFile);
+  const packages = options.packages ?? [];
+  const packageOf = new Map<string, WorkspacePackage>();
+  for (const fileNode of fileNodes) {
+    const pkg = findWorkspacePackage(packages, fileNode.filePath);
+    if (pkg) packageOf.set(fileNode.id, pkg);
+  }
+  // Files outside every package come last.
+  const packageIndex = (fileNode: CodeNode) => {
+    const pkg = packageOf.get(fileNode.id);
+    return pkg ? packages.indexOf(pkg) : packages.length;
+  };
+  const byRank = options.order === 'rank';
+  const rankOf = (node: CodeNode) => graph.ranks.get(node.id) ?? 0;
+  const sortedFileNodes = fileNodes.sort((a, b) =>
+    (packageIndex(a) - packageIndex(b)) || (byRank ? rankOf(b) - rankOf(a) : 0) || a.filePath.localeCompare(b.filePath));
 
-  const scnParts = sortedFileNodes.map(fileNode => {
+  const symbolTrees = new Map<string, SymbolTreeNode[]>(sortedFileNodes.map(fileNode => {
     const symbols = nodesByFile.get(fileNode.filePath) || [];
     // Sort symbols by line number to ensure deterministic output for hierarchical processing
     symbols.sort((a,b) => a.startLine - b.startLine);
-    return serializeFile(fileNode, symbols, graph, idManager, rootDir);
-  });
+    const symbolTree = buildSymbolTree(symbols);
+    // By rank, the most central top-level entities come first; nested ones keep their line order.
+    if (byRank) symbolTree.sort((a, b) => rankOf(b.node) - rankOf(a.node) || a.node.startLine - b.node.startLine);
+    return [fileNode.id, symbolTree];
+  }));
+
+  // Entities are numbered in output order.
+  const flatten = (wrappers: readonly SymbolTreeNode[]): CodeNode[] => wrappers.flatMap(wrapper => [wrapper.node, ...flatten(wrapper.children)]);
+  const entitiesByFile = byRank
+    ? new Map(sortedFileNodes.map(fileNode => [fileNode.filePath, flatten(symbolTrees.get(fileNode.id)!)]))
+    : nodesByFile;
+  const idLock = options.idLock && updateIdLock(graph, options.idLock);
+  const idManager = new ScnIdManager(sortedFileNodes, entitiesByFile, idLock);
+
+  const typeIndex = createTypeIndex(graph);
+  const externals = collectExternalReferences(
+    sortedFileNodes,
+    symbolTrees,
+    filePath => getSourceContent(filePath, rootDir),
+    rootDir,
+    { groupByPackage: options.groupExternalDependencies, resolveModule: options.resolveModule },
+  );
+  // Changed files are focus targets of their own; when none of them is in the graph, nothing is.
+  const changed = options.changes && findChangedNodes(graph, options.changes);
+  const focus = [
+    ...options.focus ?? [],
+    ...changed ? sortedFileNodes.filter(fileNode => changed.has(fileNode.id)).map(fileNode => fileNode.filePath) : [],
+  ];
+  const slice = focus.length > 0
+    ? computeFocusSlice(graph, symbolTrees, focus, options.depth ?? 1)
+    : { omitted: new Set<string>(changed ? graph.nodes.keys() : []), stubs: new Set<string>() };
+  const excluded = new Set([
+    ...slice.omitted,
+    ...getDetailOmissions(symbolTrees, options.detail ?? 'full', rootDir),
+    ...(options.publicApi ? getPublicApiOmissions(sortedFileNodes, symbolTrees, options.publicApi, rootDir) : []),
+  ]);
+
+  const plugins = options.plugins ?? [];
+  const pluginContext: ScnPluginContext = { rootDir, readSource: filePath => getSourceContent(filePath, rootDir) };
+  const heuristics = createNodeHeuristics(options.heuristics, pluginContext.readSource);
+  const docMaxLength = options.includeDocs
+    ? (typeof options.includeDocs === 'object' && options.includeDocs.maxLength) || DEFAULT_DOC_MAX_LENGTH
+    : undefined;
+
+  // Normalized over the files the options keep, so that the most central one scores 1.
+  const maxRank = Math.max(0, ...sortedFileNodes.filter(fileNode => !excluded.has(fileNode.id)).map(rankOf));
+  const importanceOf = options.importance
+    ? new Map(sortedFileNodes.map(fileNode => [fileNode.id, maxRank > 0 ? Math.round(rankOf(fileNode) / maxRank * 100) / 100 : 0]))
+    : undefined;
+
+  const fragments = options.fragmentCache
+    && typeof options.heuristics?.components !== 'function'
+    && !plugins.some(plugin => plugin.symbol || plugin.signature || plugin.transformFile)
+    ? options.fragmentCache
+    : undefined;
+  const fingerprint = JSON.stringify([docMaxLength ?? null, options.heuristics ?? {}], (_, value) => value instanceof RegExp ? value.toString() : value);
+  const edgesByNode = new Map<string, CodeEdge[]>();
+  if (fragments) {
+    for (const edge of graph.edges as CodeEdge[]) {
+      for (const id of new Set([edge.fromId, edge.toId])) {
+        if (!edgesByNode.has(id)) edgesByNode.set(id, []);
+        edgesByNode.get(id)!.push(edge);
+      }
+    }
+  }
+  // The text of files taken from or added to the fragment cache, so that rendering them is free.
+  const renderedText = new WeakMap<ScnJsonFile, string>();
+
+  const describeFragment = (fileNode: CodeNode, context: SerializeContext): ScnJsonFile => {
+    const symbolTree = symbolTrees.get(fileNode.id) || [];
+    if (!fragments) return describeFile(fileNode, symbolTree, context);
+    const key = getFragmentKey(fileNode, symbolTree, context, edgesByNode, fingerprint);
+    const cached = fragments.get(fileNode.filePath);
+    const isCurrent = cached?.key === key && cached.types.every(([nodeId, name, scnId]) => {
+      const node = graph.nodes.get(nodeId);
+      return node !== undefined && (context.resolveTypeId(name, node) ?? null) === scnId;
+    });
+    if (cached && isCurrent) {
+      renderedText.set(cached.file, cached.text);
+      return cached.file;
+    }
+    const types = new Map<string, ScnFragment['types'][number]>();
+    const file = describeFile(fileNode, symbolTree, {
+      ...context,
+      resolveTypeId: (name, node) => {
+        const scnId = context.resolveTypeId(name, node);
+        types.set(`${node.id}\0${name}`, [node.id, name, scnId ?? null]);
+        return scnId;
+      },
+    });
+    const text = serializeFile(file);
+    fragments.set(fileNode.filePath, { key, types: [...types.values()], file, text });
+    renderedText.set(file, text);
+    return file;
+  };
+
+  const describe = (dropped: ReadonlySet<string>): ScnJsonFile[] => {
+    const omitted = dropped.size > 0 ? new Set([...excluded, ...dropped]) : excluded;
+    const resolveTypeId = (name: string, node: CodeNode): string | undefined => {
+      const target = typeIndex.resolve(name, node);
+      // A reference to an entity left out of the output falls back to the plain name.
+      if (!target || omitted.has(target.id)) return undefined;
+      return idManager.getScnId(target.id);
+    };
+    const context: SerializeContext = {
+      graph, idManager, rootDir, omitted, stubs: slice.stubs, resolveTypeId, externals, publicApi: options.publicApi, packageOf,
+      heuristics, importanceOf, docMaxLength, changed, plugins, pluginContext,
+    };
+    return sortedFileNodes
+      .filter(fileNode => !omitted.has(fileNode.id))
+      .map(fileNode => applyFilePlugins(describeFragment(fileNode, context), plugins, pluginContext));
+  };
+
+  const renderFiles = (files: readonly ScnJsonFile[]): string => files
+    .map((file, index) => {
+      const pkg = file.package !== undefined && file.package !== files[index - 1]?.package
+        ? packages.find(candidate => candidate.name === file.package)
+        : undefined;
+      const text = applyFormatPlugins(renderedText.get(file) ?? serializeFile(file), file, plugins, pluginContext);
+      return pkg ? `// package ${pkg.name} (${pkg.dir || '.'})\n${text}` : text;
+    })
+    .join('\n\n');
+  const render = (dropped: ReadonlySet<string>): string => renderFiles(describe(dropped));
+
+  return { sortedFileNodes, symbolTrees, excluded, packages, idManager, describe, render, renderFiles, readSource: pluginContext.readSource };
+};
+
+/** Where a file or entity of the map comes from in the source. */
+export interface ScnSourceSpan {
+  /** File path relative to the root, as in the `§` line. */
+  path: string;
+  /** 1-based lines of an entity's declaration; absent for files. */
+  startLine?: number;
+  endLine?: number;
+}
+
+/**
+ * Maps every ID of the map to the source span of the file or entity it
+ * stands for, so that tools reading a map can go back to the code. Files
+ * are keyed by their `N.0` link form.
+ *
+ * @param graph - The `RankedCodeGraph` produced by `repograph`.
+ * @param rootDir - The root directory of the project (for reading source files).
+ * @param options - The options the map was serialized with, which decide its IDs.
+ */
+export const getSourceSpans = (graph: RankedCodeGraph, rootDir?: string, options: SerializeOptions = {}): Map<string, ScnSourceSpan> => {
+  const { idManager } = prepareGraph(graph, rootDir, options);
+  const spans = new Map<string, ScnSourceSpan>();
+  for (const node of graph.nodes.values()) {
+    const id = idManager.getScnId(node.id);
+    if (id === undefined) continue;
+    spans.set(
+      node.type === 'file' ? `${id}.0` : id,
+      node.type === 'file' ? { path: node.filePath } : { path: node.filePath, startLine: node.startLine, endLine: node.endLine },
+    );
+  }
+  return spans;
+};
+
+/**
+ * Serializes a RankedCodeGraph into the SCN text format.
+ * This function is the core rendering layer of `scn-ts`.
+ *
+ * @param graph - The `RankedCodeGraph` produced by `repograph`.
+ * @param rootDir - The root directory of the project (for reading source files).
+ * @param options - Options controlling which parts of the graph are emitted.
+ * @returns A string containing the full SCN map.
+ */
+export const serializeGraph = (graph: RankedCodeGraph, rootDir?: string, options: SerializeOptions = {}): string => {
+  const { sortedFileNodes, symbolTrees, excluded, render } = prepareGraph(graph, rootDir, options);
+  if (options.maxTokens === undefined) {
+    return render(new Set());
+  }
+  return fitToTokenBudget(sortedFileNodes, symbolTrees, graph.ranks, options.maxTokens, render, excluded).output;
+};
+
+/**
+ * Serializes a RankedCodeGraph into the JSON form of the SCN model: the same
+ * files, entities, IDs and links as `serializeGraph`, without the text syntax.
+ * A token budget is applied to the text rendering, and the JSON leaves out the
+ * same entities and files.
+ *
+ * @param graph - The `RankedCodeGraph` produced by `repograph`.
+ * @param rootDir - The root directory of the project (for reading source files).
+ * @param options - Options controlling which parts of the graph are emitted.
+ */
+export const serializeGraphToJson = (graph: RankedCodeGraph, rootDir?: string, options: SerializeOptions = {}): ScnJsonDocument => {
+  const { sortedFileNodes, symbolTrees, excluded, packages, describe, render } = prepareGraph(graph, rootDir, options);
+  const dropped = options.maxTokens === undefined
+    ? new Set<string>()
+    : fitToTokenBudget(sortedFileNodes, symbolTrees, graph.ranks, options.maxTokens, render, excluded).omitted;
+
+  const document: ScnJsonDocument = { schemaVersion: SCN_JSON_SCHEMA_VERSION, files: describe(dropped) };
+  if (packages.length > 0) {
+    document.packages = packages.map(pkg => ({ name: pkg.name, dir: pkg.dir, dependencies: [...pkg.dependencies] }));
+  }
+  if (dropped.size > 0) {
+    const files = sortedFileNodes.filter(fileNode => dropped.has(fileNode.id)).length;
+    document.omitted = { entities: dropped.size - files, files };
+  }
+  return document;
+};
+
+/**
+ * Serializes a RankedCodeGraph into several SCN documents, each within
+ * `limits`, for maps larger than a single context window. Files are kept
+ * whole and grouped with the files they link to; IDs are those of the
+ * whole map, and each chunk's header names the chunks its links point into
+ * (see `splitIntoChunks`). A `maxTokens` budget applies to the whole map first.
+ *
+ * @param graph - The `RankedCodeGraph` produced by `repograph`.
+ * @param rootDir - The root directory of the project (for reading source files).
+ * @param options - Options controlling which parts of the graph are emitted.
+ * @param limits - The token and/or byte limit of each chunk.
+ */
+export const serializeGraphToChunks = (
+  graph: RankedCodeGraph,
+  rootDir: string | undefined,
+  options: SerializeOptions,
+  limits: ScnSplitLimits,
+): ScnChunk[] => {
+  const { sortedFileNodes, symbolTrees, excluded, describe, render, renderFiles } = prepareGraph(graph, rootDir, options);
+  const dropped = options.maxTokens === undefined
+    ? new Set<string>()
+    : fitToTokenBudget(sortedFileNodes, symbolTrees, graph.ranks, options.maxTokens, render, excluded).omitted;
+  return splitIntoChunks(describe(dropped), renderFiles, limits);
+};
+
+/**
+ * Serializes a RankedCodeGraph into the SCN text format, like
+ * `serializeGraph`, and measures the result against the source: tokens per
+ * file and in total, entities by symbol and edges by type (see `ScnStats`).
+ *
+ * @param graph - The `RankedCodeGraph` produced by `repograph`.
+ * @param rootDir - The root directory of the project (for reading source files).
+ * @param options - Options controlling which parts of the graph are emitted.
+ * @param tokenizer - Counts tokens; defaults to the approximation `maxTokens` uses.
+ */
+export const serializeGraphWithStats = (
+  graph: RankedCodeGraph,
+  rootDir: string | undefined,
+  options: SerializeOptions,
+  tokenizer?: ScnTokenizer,
+): { scn: string; stats: ScnStats } => {
+  const { sortedFileNodes, symbolTrees, excluded, describe, render, renderFiles, readSource } = prepareGraph(graph, rootDir, options);
+  const budget = options.maxTokens === undefined
+    ? undefined
+    : fitToTokenBudget(sortedFileNodes, symbolTrees, graph.ranks, options.maxTokens, render, excluded);
+  const dropped = budget?.omitted ?? new Set<string>();
+  const files = describe(dropped);
+  const scn = budget?.output ?? renderFiles(files);
 
-  return scnParts.join('\n\n');
-};
\ No newline at end of file
+  // Edges count when both ends are in the map, outside the stubs of a focus slice.
+  const filePaths = new Set(files.filter(file => !file.stub).map(file => file.path));
+  const inMap = (id: string) => {
+    const node = graph.nodes.get(id);
+    return node !== undefined && filePaths.has(node.filePath) && !excluded.has(id) && !dropped.has(id);
+  };
+  const edgeTypes = (graph.edges as CodeEdge[]).filter(edge => inMap(edge.fromId) && inMap(edge.toId)).map(edge => edge.type);
+  return { scn, stats: collectStats(files, scn, edgeTypes, renderFiles, readSource, tokenizer) };
+};
+
+/**
+ * Answers a query over the map of a RankedCodeGraph (see `runQuery`), and
+ * renders the matching files and entities as an SCN fragment with the IDs
+ * of the whole map. A path is listed in a leading `// path:` comment.
+ *
+ * @param graph - The `RankedCodeGraph` produced by `repograph`.
+ * @param rootDir - The root directory of the project (for reading source files).
+ * @param options - Options controlling which parts of the graph are emitted.
+ * @param query - The query, e.g. `callers of AuthService.login`.
+ */
+export const serializeGraphQuery = (
+  graph: RankedCodeGraph,
+  rootDir: string | undefined,
+  options: SerializeOptions,
+  query: string,
+): { scn: string; result: ScnQueryResult } => {
+  const { sortedFileNodes, symbolTrees, excluded, describe, render, renderFiles } = prepareGraph(graph, rootDir, options);
+  const dropped = options.maxTokens === undefined
+    ? new Set<string>()
+    : fitToTokenBudget(sortedFileNodes, symbolTrees, graph.ranks, options.maxTokens, render, excluded).omitted;
+  const result = runQuery(describe(dropped), query);
+  const fragment = renderFiles(result.files);
+  return {
+    scn: result.path?.length ? `// path: ${result.path.map(id => `(${id})`).join(' -> ')}\n${fragment}` : fragment,
+    result,
+  };
+};
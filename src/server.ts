@@ -0,0 +1,257 @@
+import type { RankedCodeGraph } from 'repograph';
+import { createInterface } from 'readline';
+import type { Readable, Writable } from 'stream';
+import { invalidateSourceFiles, serializeGraph, serializeGraphToJson, type SerializeOptions } from './serializer';
+import type { ScnJsonDocument, ScnJsonEntity, ScnJsonLink } from './scn-json';
+import { diffEntitySnapshots, formatEntityChanges, snapshotEntities } from './watch';
+import { handleJsonRpcMessage, handleJsonRpcText, INVALID_PARAMS, JsonRpcError, METHOD_NOT_FOUND, type JsonRpcResponse } from './json-rpc';
+import { version } from '../package.json';
+
+/** An analyzed project: its graph and the options its map is serialized with. */
+export interface ScnProjectSnapshot {
+  graph: RankedCodeGraph;
+  rootDir?: string;
+  options: SerializeOptions;
+}
+
+/** MCP protocol versions the server speaks, newest first. */
+const PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/** A file (`2.0`) or entity (`2.1`) of the map, with its links. */
+interface IndexedEntry {
+  id: string;
+  path: string;
+  /** `Database.query` for entities; absent for files. */
+  qualifiedName?: string;
+  symbol: string;
+  signature?: string;
+  dependencies: readonly ScnJsonLink[];
+  callers: readonly ScnJsonLink[];
+}
+
+interface LoadedProject {
+  snapshot: ScnProjectSnapshot;
+  scn: string;
+  document: ScnJsonDocument;
+  entries: Map<string, IndexedEntry>;
+}
+
+/** Largest number of entities `find_entity` lists. */
+const MAX_MATCHES = 50;
+
+const TOOLS = [
+  {
+    name: 'get_map',
+    description: 'Returns the SCN map of the whole project.',
+    inputSchema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'get_file_map',
+    description: 'Returns the SCN map of some files or symbols (`src/api.ts`, `src/api.ts#AuthService.login`), with their neighbours as bare ID stubs. IDs are those of the whole map.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        files: { type: 'array', items: { type: 'string' }, description: 'File paths relative to the project root, optionally followed by #Symbol.' },
+        depth: { type: 'number', description: 'Dependency/caller hops to include in full around the files. Defaults to 0.' },
+      },
+      required: ['files'],
+    },
+  },
+  {
+    name: 'find_entity',
+    description: 'Finds entities by name (`query`) or qualified name (`Database.query`), returning their IDs, symbols, signatures and files. Falls back to partial matches.',
+    inputSchema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+  },
+  {
+    name: 'get_links',
+    description: 'Returns the dependencies (->) and callers (<-) of a file or entity ID such as `2.1`, each described by its symbol, name and file.',
+    inputSchema: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+  },
+  {
+    name: 'reanalyze',
+    description: 'Re-analyzes the project after changes and summarizes the entities added, removed and changed.',
+    inputSchema: { type: 'object', properties: {} },
+  },
+];
+
+const indexDocument = (document: ScnJsonDocument): Map<string, IndexedEntry> => {
+  const entries = new Map<string, IndexedEntry>();
+  const visit = (entity: ScnJsonEntity, path: string, prefix: string) => {
+    const qualifiedName = `${prefix}${entity.name}`;
+    entries.set(entity.id, { ...entity, path, qualifiedName });
+    entity.children.forEach(child => visit(child, path, `${qualifiedName}.`));
+  };
+  for (const file of document.files) {
+    entries.set(`${file.id}.0`, { id: `${file.id}.0`, path: file.path, symbol: '§', dependencies: file.dependencies, callers: file.callers });
+    file.entities.forEach(entity => visit(entity, file.path, ''));
+  }
+  return entries;
+};
+
+const describeEntry = (entry: IndexedEntry): string => entry.qualifiedName === undefined
+  ? `(${entry.id}) § ${entry.path}`
+  : `(${entry.id}) ${entry.symbol} ${entry.qualifiedName}${entry.signature ?? ''} in ${entry.path}`;
+
+const describeLink = (link: ScnJsonLink, entries: ReadonlyMap<string, IndexedEntry>): string => {
+  if (link.kind === 'name') return `(${link.name})`;
+  const entry = entries.get(link.id);
+  return entry ? describeEntry(entry) : `(${link.id})`;
+};
+
+const getArguments = (params: unknown): Record<string, unknown> => {
+  const args = (params as { arguments?: unknown } | undefined)?.arguments ?? {};
+  if (typeof args !== 'object' || args === null || Array.isArray(args)) throw new JsonRpcError(INVALID_PARAMS, 'Tool arguments must be an object.');
+  return args as Record<string, unknown>;
+};
+
+const requireString = (args: Record<string, unknown>, key: string): string => {
+  const value = args[key];
+  if (typeof value !== 'string' || value.trim() === '') throw new JsonRpcError(INVALID_PARAMS, `Argument '${key}' must be a non-empty string.`);
+  return value.trim();
+};
+
+/**
+ * Creates an MCP server over an analyzed project. The project is loaded
+ * once, right away, and kept in memory: tools serialize the whole map or a
+ * focus slice of it, look entities up and follow their links without
+ * analyzing the project again until `reanalyze` is called.
+ *
+ * @param load - Analyzes the project; called again by `reanalyze`.
+ * @returns `handle`, which answers one JSON-RPC message, or returns
+ *   `undefined` for notifications.
+ */
+export const createScnServer = (load: () => Promise<ScnProjectSnapshot>) => {
+  const loadProject = async (): Promise<LoadedProject> => {
+    const snapshot = await load();
+    const document = serializeGraphToJson(snapshot.graph, snapshot.rootDir, snapshot.options);
+    return {
+      snapshot,
+      scn: serializeGraph(snapshot.graph, snapshot.rootDir, snapshot.options),
+      document,
+      entries: indexDocument(document),
+    };
+  };
+  let project = loadProject();
+  // A failed analysis is reported by the tool calls that need it.
+  project.catch(() => {});
+
+  const reanalyze = async (): Promise<string> => {
+    const previous = await project.catch(() => undefined);
+    invalidateSourceFiles();
+    project = loadProject();
+    const next = await project;
+    const files = next.document.files.length;
+    const summary = `Re-analyzed ${files} file${files === 1 ? '' : 's'}.`;
+    return previous
+      ? `${summary} ${formatEntityChanges(diffEntitySnapshots(snapshotEntities(previous.document.files), snapshotEntities(next.document.files)))}`
+      : summary;
+  };
+
+  const callTool = async (name: string, args: Record<string, unknown>): Promise<string> => {
+    switch (name) {
+      case 'get_map':
+        return (await project).scn;
+      case 'get_file_map': {
+        const files = args['files'];
+        if (!Array.isArray(files) || files.length === 0 || !files.every(file => typeof file === 'string')) {
+          throw new JsonRpcError(INVALID_PARAMS, "Argument 'files' must be a non-empty array of strings.");
+        }
+        const depth = args['depth'] ?? 0;
+        if (typeof depth !== 'number' || !Number.isInteger(depth) || depth < 0) {
+          throw new JsonRpcError(INVALID_PARAMS, "Argument 'depth' must be a non-negative integer.");
+        }
+        const { snapshot } = await project;
+        return serializeGraph(snapshot.graph, snapshot.rootDir, { ...snapshot.options, focus: files, depth });
+      }
+      case 'find_entity': {
+        const query = requireString(args, 'name').toLowerCase();
+        const entities = [...(await project).entries.values()].filter(entry => entry.qualifiedName !== undefined);
+        const exact = entities.filter(entry =>
+          entry.qualifiedName!.toLowerCase() === query || entry.qualifiedName!.toLowerCase().endsWith(`.${query}`));
+        const matches = exact.length > 0 ? exact : entities.filter(entry => entry.qualifiedName!.toLowerCase().includes(query));
+        if (matches.length === 0) return `No entity matches '${args['name']}'.`;
+        return [
+          ...matches.slice(0, MAX_MATCHES).map(describeEntry),
+          ...(matches.length > MAX_MATCHES ? [`... and ${matches.length - MAX_MATCHES} more.`] : []),
+        ].join('\n');
+      }
+      case 'get_links': {
+        const id = requireString(args, 'id').replace(/^\((.*)\)$/, '$1');
+        const { entries } = await project;
+        const entry = entries.get(id.includes('.') ? id : `${id}.0`);
+        if (!entry) throw new Error(`No file or entity has the ID ${id}.`);
+        const formatLinks = (links: readonly ScnJsonLink[]) =>
+          links.length > 0 ? links.map(link => `  ${describeLink(link, entries)}`) : ['  (none)'];
+        return [
+          describeEntry(entry),
+          'Dependencies (->):',
+          ...formatLinks(entry.dependencies),
+          'Callers (<-):',
+          ...formatLinks(entry.callers),
+        ].join('\n');
+      }
+      case 'reanalyze':
+        return reanalyze();
+      default:
+        throw new JsonRpcError(INVALID_PARAMS, `Unknown tool: ${name}`);
+    }
+  };
+
+  const dispatch = async (method: string, params: unknown): Promise<unknown> => {
+    switch (method) {
+      case 'initialize': {
+        const requested = (params as { protocolVersion?: unknown } | undefined)?.protocolVersion;
+        return {
+          protocolVersion: PROTOCOL_VERSIONS.find(candidate => candidate === requested) ?? PROTOCOL_VERSIONS[0],
+          capabilities: { tools: {} },
+          serverInfo: { name: 'scn-ts', version },
+        };
+      }
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return { tools: TOOLS };
+      case 'tools/call': {
+        const name = (params as { name?: unknown } | undefined)?.name;
+        if (typeof name !== 'string') throw new JsonRpcError(INVALID_PARAMS, "Missing tool 'name'.");
+        const args = getArguments(params);
+        try {
+          return { content: [{ type: 'text', text: await callTool(name, args) }] };
+        } catch (error) {
+          if (error instanceof JsonRpcError) throw error;
+          // Failures of the tool itself go back to the model rather than being protocol errors.
+          return { content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }], isError: true };
+        }
+      }
+      default:
+        throw new JsonRpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  };
+
+  // Notifications, such as `notifications/initialized`, need no handling.
+  const handle = (message: unknown): Promise<JsonRpcResponse | undefined> => handleJsonRpcMessage(message, dispatch);
+
+  return { handle };
+};
+
+/**
+ * Serves an MCP server over stdio: one JSON-RPC message per line of
+ * `input`, one response per line of `output`. Messages are answered in the
+ * order they arrive. Resolves once `input` ends.
+ */
+export const serveStdio = async (
+  load: () => Promise<ScnProjectSnapshot>,
+  input: Readable = process.stdin,
+  output: Writable = process.stdout,
+): Promise<void> => {
+  const server = createScnServer(load);
+  const write = (response: JsonRpcResponse | undefined) => {
+    if (response) output.write(`${JSON.stringify(response)}\n`);
+  };
+  let queue = Promise.resolve();
+  for await (const line of createInterface({ input, crlfDelay: Infinity })) {
+    if (line.trim() === '') continue;
+    queue = queue.then(() => handleJsonRpcText(line, server.handle)).then(write);
+  }
+  await queue;
+};
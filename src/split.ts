@@ -0,0 +1,145 @@
+import type { ScnJsonEntity, ScnJsonFile, ScnJsonLink } from './scn-json';
+import { estimateTokens } from './tokens';
+
+/** Size limits of each chunk of a split map. At least one should be set. */
+export interface ScnSplitLimits {
+  /** Approximate tokens per chunk, estimated like `maxTokens`. */
+  maxTokens?: number;
+  /** Bytes of UTF-8 per chunk. */
+  maxBytes?: number;
+}
+
+/** One document of a map split by `serializeGraphToChunks`. */
+export interface ScnChunk {
+  /** 1-based position among the chunks. */
+  index: number;
+  /** The SCN text of the chunk, starting with its header comment. */
+  text: string;
+  /** Paths of the files in the chunk, in map order. */
+  files: string[];
+  /** Indexes of the other chunks holding IDs that this chunk links to. */
+  references: number[];
+}
+
+const SEPARATOR = '\n\n';
+
+const formatChunkHeader = (index: number, count: number, references: readonly number[]): string =>
+  `// Chunk ${index} of ${count}.${references.length > 0 ? ` Links to IDs in chunk${references.length === 1 ? '' : 's'} ${references.join(', ')}.` : ''}`;
+
+/** File IDs a file links to, from its own links and those of its entities. */
+const getLinkedFileIds = (file: ScnJsonFile): string[] => {
+  const ids: string[] = [];
+  const addLinks = (links: readonly ScnJsonLink[]) => {
+    for (const link of links) if (link.kind === 'id') ids.push(link.id.split('.')[0]!);
+  };
+  const visit = (entity: ScnJsonEntity) => {
+    addLinks(entity.dependencies);
+    addLinks(entity.callers);
+    entity.children.forEach(visit);
+  };
+  addLinks(file.dependencies);
+  addLinks(file.callers);
+  file.entities.forEach(visit);
+  return ids.filter(id => id !== file.id);
+};
+
+/**
+ * Partitions the files of a map into chunks within `limits`, keeping each
+ * file whole. A chunk grows from the first file not yet placed, taking the
+ * files most linked to it first, then any other file that still fits. A
+ * file larger than the limits gets a chunk of its own. Each chunk starts
+ * with a `// Chunk i of n.` header naming the chunks its links point into;
+ * IDs are those of the whole map, so links across chunks still resolve.
+ *
+ * @param files - The files of the map, in map order.
+ * @param renderFiles - Renders files as SCN text, as the whole map would.
+ */
+export const splitIntoChunks = (
+  files: readonly ScnJsonFile[],
+  renderFiles: (files: readonly ScnJsonFile[]) => string,
+  limits: ScnSplitLimits,
+): ScnChunk[] => {
+  const sizeOf = (text: string) => ({ tokens: estimateTokens(text), bytes: Buffer.byteLength(text, 'utf-8') });
+  const fits = (size: { tokens: number; bytes: number }) =>
+    (limits.maxTokens === undefined || size.tokens <= limits.maxTokens) && (limits.maxBytes === undefined || size.bytes <= limits.maxBytes);
+
+  const fileIndexById = new Map(files.map((file, index) => [file.id, index]));
+  // Link counts between files, in both directions.
+  const weights = files.map(() => new Map<number, number>());
+  files.forEach((file, index) => {
+    for (const id of getLinkedFileIds(file)) {
+      const target = fileIndexById.get(id);
+      if (target === undefined) continue;
+      weights[index]!.set(target, (weights[index]!.get(target) ?? 0) + 1);
+      weights[target]!.set(index, (weights[target]!.get(index) ?? 0) + 1);
+    }
+  });
+  const separatorSize = sizeOf(SEPARATOR);
+  const fileSizes = files.map(file => sizeOf(renderFiles([file])));
+
+  const partition = (headerSize: { tokens: number; bytes: number }): number[][] => {
+    const unplaced = new Set(files.map((_, index) => index));
+    const groups: number[][] = [];
+    while (unplaced.size > 0) {
+      // Sets iterate in insertion order, so this is the first unplaced file in map order.
+      const seed = unplaced.values().next().value!;
+      unplaced.delete(seed);
+      const group = [seed];
+      const size = { tokens: headerSize.tokens + fileSizes[seed]!.tokens, bytes: headerSize.bytes + fileSizes[seed]!.bytes };
+      const fitsWith = (index: number) => fits({
+        tokens: size.tokens + separatorSize.tokens + fileSizes[index]!.tokens,
+        bytes: size.bytes + separatorSize.bytes + fileSizes[index]!.bytes,
+      });
+      // Links between each file and the group so far.
+      const linkWeight = new Map<number, number>();
+      const addToGroup = (index: number) => {
+        for (const [target, weight] of weights[index]!) linkWeight.set(target, (linkWeight.get(target) ?? 0) + weight);
+      };
+      addToGroup(seed);
+      for (;;) {
+        const candidates = [...unplaced].filter(fitsWith);
+        if (candidates.length === 0) break;
+        // The most linked file first; unlinked files fill the remaining room in map order.
+        const next = candidates.reduce((best, index) => (linkWeight.get(index) ?? 0) > (linkWeight.get(best) ?? 0) ? index : best);
+        unplaced.delete(next);
+        group.push(next);
+        addToGroup(next);
+        size.tokens += separatorSize.tokens + fileSizes[next]!.tokens;
+        size.bytes += separatorSize.bytes + fileSizes[next]!.bytes;
+      }
+      groups.push(group.sort((a, b) => a - b));
+    }
+    return groups;
+  };
+
+  const toChunks = (groups: number[][]): ScnChunk[] => {
+    const chunkOfFile = new Map<string, number>();
+    groups.forEach((group, chunk) => group.forEach(index => chunkOfFile.set(files[index]!.id, chunk + 1)));
+    return groups.map((group, chunk) => {
+      const chunkFiles = group.map(index => files[index]!);
+      const references = [...new Set(chunkFiles.flatMap(file => getLinkedFileIds(file).map(id => chunkOfFile.get(id))))]
+        .filter((index): index is number => index !== undefined && index !== chunk + 1)
+        .sort((a, b) => a - b);
+      return {
+        index: chunk + 1,
+        text: `${formatChunkHeader(chunk + 1, groups.length, references)}\n${renderFiles(chunkFiles)}`,
+        files: chunkFiles.map(file => file.path),
+        references,
+      };
+    });
+  };
+
+  if (files.length === 0) return [];
+  // Headers are only known once the chunks are, so leave room for the longest one and retry while it grows.
+  let headerSize = sizeOf(`${formatChunkHeader(files.length, files.length, [])}\n`);
+  for (;;) {
+    const chunks = toChunks(partition(headerSize));
+    const headerSizes = chunks.map(chunk => sizeOf(chunk.text.slice(0, chunk.text.indexOf('\n') + 1)));
+    const needed = {
+      tokens: Math.max(...headerSizes.map(size => size.tokens)),
+      bytes: Math.max(...headerSizes.map(size => size.bytes)),
+    };
+    if (needed.tokens <= headerSize.tokens && needed.bytes <= headerSize.bytes) return chunks;
+    headerSize = { tokens: Math.max(needed.tokens, headerSize.tokens), bytes: Math.max(needed.bytes, headerSize.bytes) };
+  }
+};
@@ -0,0 +1,104 @@
+import type { ScnJsonEntity, ScnJsonFile } from './scn-json';
+import { estimateTokens } from './tokens';
+
+/** Counts the tokens in a piece of text, e.g. with the tokenizer of the target model. */
+export type ScnTokenizer = (text: string) => number;
+
+/** How much one file of the source contributes to the map. */
+export interface ScnFileStats {
+  path: string;
+  /** Tokens of the source file. */
+  sourceTokens: number;
+  /** Tokens of the file's `§` section in the map. */
+  scnTokens: number;
+  /** Entities in the file's section, nested ones included. */
+  entities: number;
+}
+
+/** Size and content of a generated map, measured against the source it was generated from. */
+export interface ScnStats {
+  /** Tokens of the source files in `files`. */
+  sourceTokens: number;
+  /** Tokens of the whole map, including package comments and the omission footer. */
+  scnTokens: number;
+  /** `1 - scnTokens / sourceTokens`: 0.79 means the map is 79% smaller than the source. */
+  reduction: number;
+  /** Every file of the map, in map order, except the bare stubs around a `focus` slice. */
+  files: ScnFileStats[];
+  /** Entities by symbol, e.g. `{ '~': 40, '◇': 12 }`. Stubs are not counted. */
+  entities: Record<string, number>;
+  /** Graph edges between the files and entities in the map, by type, e.g. `{ imports: 30, calls: 52 }`. */
+  edges: Record<string, number>;
+  /** The files with the largest sections, largest first. */
+  largestFiles: ScnFileStats[];
+}
+
+/** Number of files listed in `largestFiles`. */
+const LARGEST_FILE_COUNT = 10;
+
+const countBy = (keys: readonly string[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  for (const key of keys) counts[key] = (counts[key] ?? 0) + 1;
+  return counts;
+};
+
+const flattenEntities = (entities: readonly ScnJsonEntity[]): ScnJsonEntity[] =>
+  entities.filter(entity => !entity.stub).flatMap(entity => [entity, ...flattenEntities(entity.children)]);
+
+/**
+ * Measures a map: the tokens of each file's source and of its section of the
+ * map, the entities by symbol and the edges by type.
+ *
+ * @param files - The files of the map, in map order.
+ * @param scn - The whole map as text.
+ * @param edgeTypes - The type of every graph edge between nodes in the map.
+ * @param renderFiles - Renders files as SCN text, as the whole map does.
+ * @param readSource - Reads a source file by its path in the map.
+ */
+export const collectStats = (
+  files: readonly ScnJsonFile[],
+  scn: string,
+  edgeTypes: readonly string[],
+  renderFiles: (files: readonly ScnJsonFile[]) => string,
+  readSource: (filePath: string) => string,
+  tokenizer: ScnTokenizer = estimateTokens,
+): ScnStats => {
+  const measured = files.filter(file => !file.stub);
+  const fileStats = measured.map(file => ({
+    path: file.path,
+    sourceTokens: tokenizer(readSource(file.path)),
+    scnTokens: tokenizer(renderFiles([file])),
+    entities: flattenEntities(file.entities).length,
+  }));
+  const sourceTokens = fileStats.reduce((sum, file) => sum + file.sourceTokens, 0);
+  const scnTokens = tokenizer(scn);
+  return {
+    sourceTokens,
+    scnTokens,
+    reduction: sourceTokens > 0 ? 1 - scnTokens / sourceTokens : 0,
+    files: fileStats,
+    entities: countBy(measured.flatMap(file => flattenEntities(file.entities).map(entity => entity.symbol))),
+    edges: countBy(edgeTypes),
+    largestFiles: [...fileStats].sort((a, b) => b.scnTokens - a.scnTokens).slice(0, LARGEST_FILE_COUNT),
+  };
+};
+
+const formatPercent = (fraction: number): string => `${Math.round(fraction * 100)}%`;
+
+const formatCounts = (counts: Record<string, number>): string => {
+  const entries = Object.entries(counts).sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b));
+  return entries.length > 0 ? entries.map(([key, count]) => `${key} ${count}`).join(', ') : 'none';
+};
+
+/** Renders stats as the plain-text report printed by `--stats`. */
+export const formatStats = (stats: ScnStats): string => {
+  const pathWidth = Math.max(0, ...stats.largestFiles.map(file => file.path.length));
+  return [
+    `Tokens: ${stats.sourceTokens} source -> ${stats.scnTokens} SCN (${formatPercent(stats.reduction)} reduction) across ${stats.files.length} files`,
+    `Entities: ${formatCounts(stats.entities)}`,
+    `Edges: ${formatCounts(stats.edges)}`,
+    ...(stats.largestFiles.length > 0 ? ['Largest files (SCN tokens / source tokens):'] : []),
+    ...stats.largestFiles.map(file =>
+      `  ${file.path.padEnd(pathWidth)}  ${file.scnTokens} / ${file.sourceTokens}${file.sourceTokens > 0 ? ` (${formatPercent(1 - file.scnTokens / file.sourceTokens)} reduction)` : ''}`),
+  ].join('\n');
+};
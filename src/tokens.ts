@@ -0,0 +1,5 @@
+/**
+ * Approximates the number of LLM tokens in a piece of text.
+ * Uses the common rule of thumb of roughly four characters per token.
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
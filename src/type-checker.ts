@@ -0,0 +1,226 @@
+import ts from 'typescript';
+import type { CodeNode, CodeNodeVisibility, RankedCodeGraph } from 'repograph';
+import { resolve } from 'path';
+import { readTsconfig } from './module-resolver';
+import type { CodeEdge } from './serializer';
+
+const SOURCE_EXTENSIONS = /\.(?:[cm]?[jt]sx?)$/;
+
+type FunctionLike = ts.FunctionDeclaration | ts.MethodDeclaration | ts.ConstructorDeclaration | ts.ArrowFunction | ts.FunctionExpression;
+
+/** A declaration in a TypeScript source file that a repograph node may correspond to. */
+export interface Declaration {
+  node: ts.Declaration;
+  name: string;
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Creates a TypeScript program from a tsconfig.json. Files in `extraFiles`
+ * are added to the program's root files so that every file in the map is
+ * checked, even when the tsconfig's `include` does not cover it.
+ */
+export const createTsProgram = (tsconfigPath: string, extraFiles: readonly string[] = []): ts.Program => {
+  const parsed = readTsconfig(tsconfigPath);
+  const rootNames = [...new Set([...parsed.fileNames, ...extraFiles.filter(file => SOURCE_EXTENSIONS.test(file))])];
+  return ts.createProgram({ rootNames, options: { ...parsed.options, noEmit: true } });
+};
+
+const isFunctionLike = (node: ts.Node | undefined): node is FunctionLike =>
+  !!node && (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node) || ts.isConstructorDeclaration(node)
+    || ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+
+/** Returns the function a declaration defines, including `const f = () => ...`. */
+const getFunction = (declaration: ts.Declaration): FunctionLike | undefined => {
+  if (isFunctionLike(declaration)) return declaration;
+  if (ts.isVariableDeclaration(declaration) && isFunctionLike(declaration.initializer)) return declaration.initializer;
+  return undefined;
+};
+
+const getDeclarationName = (node: ts.Node): string | undefined => {
+  if (ts.isConstructorDeclaration(node)) return 'constructor';
+  const name = (node as ts.NamedDeclaration).name;
+  if (!name) return ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node) ? 'default' : undefined;
+  return ts.isIdentifier(name) || ts.isPrivateIdentifier(name) || ts.isStringLiteral(name) ? name.text : undefined;
+};
+
+export const collectDeclarations = (sourceFile: ts.SourceFile): Declaration[] => {
+  const declarations: Declaration[] = [];
+  const lineOf = (pos: number) => sourceFile.getLineAndCharacterOfPosition(pos).line + 1;
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node)
+      || ts.isTypeAliasDeclaration(node) || ts.isEnumDeclaration(node) || ts.isModuleDeclaration(node)
+      || ts.isMethodDeclaration(node) || ts.isMethodSignature(node) || ts.isConstructorDeclaration(node)
+      || ts.isPropertyDeclaration(node) || ts.isPropertySignature(node) || ts.isGetAccessor(node)
+      || ts.isSetAccessor(node) || ts.isVariableDeclaration(node)
+    ) {
+      const name = getDeclarationName(node);
+      // A variable's range starts at its statement so that `export const` lines match.
+      const rangeNode = ts.isVariableDeclaration(node) && ts.isVariableStatement(node.parent.parent) ? node.parent.parent : node;
+      if (name) declarations.push({ node, name, startLine: lineOf(rangeNode.getStart(sourceFile)), endLine: lineOf(rangeNode.getEnd()) });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return declarations;
+};
+
+/** Finds the declaration a repograph node was created for: same name, tightest range around its start line. */
+export const matchDeclaration = (node: CodeNode, declarations: readonly Declaration[]): Declaration | undefined => {
+  const name = node.type === 'constructor' ? 'constructor' : node.name.split('.').pop() || node.name;
+  return declarations
+    .filter(d => d.name === name && d.startLine <= node.startLine && node.startLine <= d.endLine)
+    .sort((a, b) => (b.startLine - a.startLine) || (a.endLine - b.endLine))[0];
+};
+
+const getExportedDeclarations = (checker: ts.TypeChecker, sourceFile: ts.SourceFile): Set<ts.Declaration> | undefined => {
+  const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+  // Scripts without imports or exports declare globals; their visibility is left to the heuristics.
+  if (!moduleSymbol) return undefined;
+  const exported = new Set<ts.Declaration>();
+  for (const symbol of checker.getExportsOfModule(moduleSymbol)) {
+    const target = symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol;
+    target.declarations?.forEach(declaration => exported.add(declaration));
+  }
+  return exported;
+};
+
+const getVisibility = (declaration: ts.Declaration, exported: Set<ts.Declaration> | undefined): CodeNodeVisibility | undefined => {
+  const parent = declaration.parent;
+  if (ts.isClassLike(parent) || ts.isInterfaceDeclaration(parent) || ts.isTypeLiteralNode(parent)) {
+    const flags = ts.getCombinedModifierFlags(declaration);
+    if (flags & ts.ModifierFlags.Private || (declaration as ts.NamedDeclaration).name?.kind === ts.SyntaxKind.PrivateIdentifier) return 'private';
+    if (flags & ts.ModifierFlags.Protected) return 'protected';
+    return 'public';
+  }
+  const isTopLevel = ts.isSourceFile(parent) || (ts.isVariableDeclaration(declaration) && ts.isSourceFile(parent.parent.parent));
+  if (!isTopLevel || !exported) return undefined;
+  return exported.has(declaration) ? 'public' : 'internal';
+};
+
+/** Whether a function body throws directly, not counting functions nested inside it. */
+const containsThrow = (fn: FunctionLike): boolean => {
+  let found = false;
+  const visit = (node: ts.Node) => {
+    if (found || isFunctionLike(node) || ts.isClassLike(node)) return;
+    if (ts.isThrowStatement(node)) found = true;
+    else ts.forEachChild(node, visit);
+  };
+  if (fn.body) ts.forEachChild(fn.body, visit);
+  return found;
+};
+
+const describeFunction = (checker: ts.TypeChecker, fn: FunctionLike, sourceFile: ts.SourceFile): Partial<CodeNode> => {
+  const signature = checker.getSignatureFromDeclaration(fn);
+  const parameters = fn.parameters.map(param => {
+    const name = `${param.dotDotDotToken ? '...' : ''}${param.name.getText(sourceFile)}${param.questionToken ? '?' : ''}`;
+    const type = checker.getTypeAtLocation(param);
+    // An unannotated parameter the checker cannot infer says nothing beyond its name.
+    if (!param.type && type.flags & ts.TypeFlags.Any) return { name };
+    return { name, type: checker.typeToString(type, fn) };
+  });
+  const returnType = signature ? checker.typeToString(checker.getReturnTypeOfSignature(signature), fn) : undefined;
+  return {
+    parameters,
+    returnType,
+    isAsync: !!(ts.getCombinedModifierFlags(fn) & ts.ModifierFlags.Async),
+    canThrow: containsThrow(fn),
+  };
+};
+
+/** Classifies how an identifier inside an entity uses the symbol it refers to. */
+const getReferenceType = (identifier: ts.Node): CodeEdge['type'] => {
+  let node = identifier;
+  if (ts.isPropertyAccessExpression(node.parent) && node.parent.name === node) node = node.parent;
+  const parent = node.parent;
+  if ((ts.isCallExpression(parent) || ts.isNewExpression(parent)) && parent.expression === node) return 'calls';
+  if (ts.isExpressionWithTypeArguments(parent) && ts.isHeritageClause(parent.parent)) {
+    return parent.parent.token === ts.SyntaxKind.ExtendsKeyword ? 'inherits' : 'implements';
+  }
+  return 'references';
+};
+
+const isInTypePosition = (node: ts.Node): boolean => {
+  for (let current: ts.Node = node; current.parent; current = current.parent) {
+    if (ts.isExpressionWithTypeArguments(current) && ts.isHeritageClause(current.parent)) return false;
+    if (ts.isTypeNode(current)) return true;
+  }
+  return false;
+};
+
+/**
+ * Enriches a repograph graph with information from the TypeScript type
+ * checker. For every function, class, member and variable it can match to a
+ * declaration it sets:
+ * - `visibility`: `public`/`private`/`protected` for members, and `public` or
+ *   `internal` for top-level declarations depending on whether the module
+ *   exports them, including through `export { x as y }` and `export default x`.
+ * - `isAsync`, `canThrow`, `parameters` and `returnType` for functions, with
+ *   parameter and return types as inferred by the checker.
+ * It also adds `calls`, `inherits`, `implements` and `references` edges for
+ * value references between entities that repograph did not link.
+ *
+ * @param graph - The graph produced by `repograph`.
+ * @param program - A program containing the graph's source files.
+ * @param rootDir - The directory the graph's file paths are relative to.
+ * @returns A new graph; the input graph is not modified.
+ */
+export const enrichGraphWithTypeChecker = (graph: RankedCodeGraph, program: ts.Program, rootDir: string): RankedCodeGraph => {
+  const checker = program.getTypeChecker();
+  const nodes = new Map(graph.nodes);
+  const graphIdByDeclaration = new Map<ts.Node, string>();
+  const matched: { node: CodeNode; declaration: ts.Declaration }[] = [];
+
+  const entitiesByFile = new Map<string, CodeNode[]>();
+  for (const node of graph.nodes.values()) {
+    if (node.type === 'file' || !SOURCE_EXTENSIONS.test(node.filePath)) continue;
+    if (!entitiesByFile.has(node.filePath)) entitiesByFile.set(node.filePath, []);
+    entitiesByFile.get(node.filePath)!.push(node);
+  }
+
+  for (const [filePath, entities] of entitiesByFile) {
+    const sourceFile = program.getSourceFile(resolve(rootDir, filePath));
+    if (!sourceFile) continue;
+    const declarations = collectDeclarations(sourceFile);
+    const exported = getExportedDeclarations(checker, sourceFile);
+
+    for (const node of entities) {
+      const declaration = matchDeclaration(node, declarations)?.node;
+      if (!declaration || graphIdByDeclaration.has(declaration)) continue;
+      graphIdByDeclaration.set(declaration, node.id);
+      matched.push({ node, declaration });
+
+      const fn = getFunction(declaration);
+      const visibility = getVisibility(declaration, exported);
+      nodes.set(node.id, {
+        ...node,
+        ...(visibility && { visibility }),
+        ...(fn && describeFunction(checker, fn, sourceFile)),
+      });
+    }
+  }
+
+  const linked = new Set(graph.edges.map((edge: CodeEdge) => `${edge.fromId}->${edge.toId}`));
+  const edges: CodeEdge[] = [...graph.edges];
+  for (const { node, declaration } of matched) {
+    const visit = (current: ts.Node) => {
+      // Nested declarations that are entities of their own report their own references.
+      if (current !== declaration && graphIdByDeclaration.has(current)) return;
+      if ((ts.isIdentifier(current) || ts.isPrivateIdentifier(current)) && current !== (declaration as ts.NamedDeclaration).name && !isInTypePosition(current)) {
+        const symbol = checker.getSymbolAtLocation(current);
+        const target = symbol && symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol;
+        const targetId = target?.declarations?.map(d => graphIdByDeclaration.get(d)).find(Boolean);
+        if (targetId && targetId !== node.id && !linked.has(`${node.id}->${targetId}`)) {
+          linked.add(`${node.id}->${targetId}`);
+          edges.push({ fromId: node.id, toId: targetId, type: getReferenceType(current) });
+        }
+      }
+      ts.forEachChild(current, visit);
+    };
+    visit(declaration);
+  }
+
+  return { ...graph, nodes, edges: edges as RankedCodeGraph['edges'] };
+};
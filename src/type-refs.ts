@@ -0,0 +1,164 @@
+import type { CodeNode, CodeNodeType, RankedCodeGraph } from 'repograph';
+
+const TYPE_DECLARATION_TYPES = new Set<CodeNodeType>(['class', 'interface', 'type', 'enum', 'struct', 'namespace']);
+
+// Return types that carry no information and are left out of signatures.
+const OMITTED_RETURN_TYPES = new Set(['void', 'any', 'unknown']);
+
+/** Looks up the in-project declaration a type name refers to. */
+export interface TypeIndex {
+  resolve(name: string, from: CodeNode): CodeNode | undefined;
+}
+
+/**
+ * Indexes every type-like declaration (class, interface, type alias, enum, ...)
+ * by name. A name resolves to a declaration in the same file first, then to one
+ * in a file the referencing file imports, and otherwise only if it is unique
+ * across the project.
+ */
+export const createTypeIndex = (graph: RankedCodeGraph): TypeIndex => {
+  const declarationsByName = new Map<string, CodeNode[]>();
+  for (const node of graph.nodes.values()) {
+    if (!TYPE_DECLARATION_TYPES.has(node.type)) continue;
+    if (!declarationsByName.has(node.name)) declarationsByName.set(node.name, []);
+    declarationsByName.get(node.name)!.push(node);
+  }
+
+  const importedPaths = new Map<string, Set<string>>();
+  for (const edge of graph.edges) {
+    if (edge.type !== 'imports') continue;
+    const from = graph.nodes.get(edge.fromId);
+    const to = graph.nodes.get(edge.toId);
+    if (!from || !to) continue;
+    if (!importedPaths.has(from.filePath)) importedPaths.set(from.filePath, new Set());
+    importedPaths.get(from.filePath)!.add(to.filePath);
+  }
+
+  return {
+    resolve(name, from) {
+      const candidates = declarationsByName.get(name);
+      if (!candidates) return undefined;
+      return candidates.find(c => c.filePath === from.filePath)
+        ?? candidates.find(c => importedPaths.get(from.filePath)?.has(c.filePath))
+        ?? (candidates.length === 1 ? candidates[0] : undefined);
+    },
+  };
+};
+
+const OPENERS: Record<string, string> = { '(': ')', '<': '>', '[': ']', '{': '}' };
+const CLOSERS = new Set(Object.values(OPENERS));
+
+/**
+ * Splits `text` at `separator` characters that are not nested inside
+ * brackets, braces, parentheses or type arguments. The arrow `=>` is never
+ * treated as a separator or a closing angle bracket.
+ */
+const splitTopLevel = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (char === '=' && text[i + 1] === '>') continue;
+    if (char === '>' && text[i - 1] === '=') continue;
+    if (char in OPENERS) depth++;
+    else if (CLOSERS.has(char)) depth--;
+    else if (char === separator && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+};
+
+/** Returns the index of the bracket closing the one at `openIndex`, or -1. */
+const findClosing = (text: string, openIndex: number): number => {
+  let depth = 0;
+  for (let i = openIndex; i < text.length; i++) {
+    const char = text[i]!;
+    if (char === '>' && text[i - 1] === '=') continue;
+    if (char in OPENERS) depth++;
+    else if (CLOSERS.has(char) && --depth === 0) return i;
+  }
+  return -1;
+};
+
+/** Reads a return type annotation up to the start of the body (`{` or `=>`). */
+const readReturnType = (text: string): string | undefined => {
+  const match = text.match(/^\s*:\s*/);
+  if (!match) return undefined;
+  const typeText = text.slice(match[0].length);
+  let depth = 0;
+  for (let i = 0; i < typeText.length; i++) {
+    const char = typeText[i]!;
+    if (char === '=' && typeText[i + 1] === '>' && depth === 0) return typeText.slice(0, i).trim() || undefined;
+    if (char === '>' && typeText[i - 1] === '=') continue;
+    if ((char === '{' || char === ';') && depth === 0 && typeText.slice(0, i).trim()) return typeText.slice(0, i).trim();
+    if (char in OPENERS) depth++;
+    else if (CLOSERS.has(char)) depth--;
+  }
+  return typeText.trim() || undefined;
+};
+
+export interface ParsedSignature {
+  parameters: { name: string; type?: string }[];
+  returnType?: string;
+}
+
+/**
+ * Extracts parameter names, parameter types and the return type from a
+ * function or method snippet such as `async load(id: string): Promise<User>`.
+ */
+export const parseFunctionSignature = (snippet: string, name?: string): ParsedSignature | undefined => {
+  // Prefer the parenthesis following the function's own name so that decorators are skipped.
+  const escapedName = name?.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const named = escapedName ? snippet.match(new RegExp(`\\b${escapedName}\\s*(?:<[^(]*>)?\\s*\\(`)) : null;
+  const openIndex = named?.index !== undefined ? named.index + named[0].length - 1 : snippet.indexOf('(');
+  if (openIndex === -1) return undefined;
+  const closeIndex = findClosing(snippet, openIndex);
+  if (closeIndex === -1) return undefined;
+
+  const paramText = snippet.slice(openIndex + 1, closeIndex);
+  const parameters = paramText.trim()
+    ? splitTopLevel(paramText, ',').map(param => param.trim()).filter(Boolean).map(param => {
+        const [paramName, ...typeParts] = splitTopLevel(param, ':');
+        if (typeParts.length === 0) return { name: paramName!.trim() };
+        // Drop a default value following the type annotation.
+        const type = splitTopLevel(typeParts.join(':'), '=')[0]!.trim();
+        return { name: paramName!.trim(), type: type || undefined };
+      })
+    : [];
+
+  return { parameters, returnType: readReturnType(snippet.slice(closeIndex + 1)) };
+};
+
+/** Extracts the annotated type of a property or field snippet such as `private db: Database;`. */
+export const parsePropertyType = (snippet: string): string | undefined => {
+  const match = snippet.match(/^\s*(?:(?:public|private|protected|readonly|static|declare|abstract|override)\s+)*[#\w$]+[?!]?\s*:\s*/);
+  if (!match) return undefined;
+  return splitTopLevel(snippet.slice(match[0].length), '=')[0]!.replace(/;\s*$/, '').trim() || undefined;
+};
+
+export const isOmittedReturnType = (type: string): boolean => OMITTED_RETURN_TYPES.has(type);
+
+// String literal types are matched first so that names inside them are left alone.
+const TYPE_NAME_PATTERN = /(['"`])(?:\\.|(?!\1).)*\1|[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*/g;
+
+/**
+ * Formats a type as an SCN type reference. Names of in-project declarations
+ * are replaced by their IDs and everything else is kept as written:
+ * `User` -> `#(4.1)`, `Promise<User[]>` -> `#(Promise<(4.1)[]>)`, `string` -> `#(string)`.
+ *
+ * @param type - The type as written in source.
+ * @param resolveId - Returns the SCN ID for a type name, or `undefined` if it is external.
+ */
+export const formatTypeReference = (type: string, resolveId: (name: string) => string | undefined): string => {
+  const normalized = type.replace(/\s+/g, ' ').trim();
+  const replaced = normalized.replace(TYPE_NAME_PATTERN, (match, quote) => {
+    if (quote) return match;
+    const id = resolveId(match);
+    return id ? `(${id})` : match;
+  });
+  return /^\(\d+\.\d+\)$/.test(replaced) ? `#${replaced}` : `#(${replaced})`;
+};
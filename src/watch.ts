@@ -0,0 +1,135 @@
+import { watch } from 'fs';
+import { join, posix, relative, resolve, sep } from 'path';
+import { createPathMatcher } from './glob';
+import { invalidateSourceFiles } from './serializer';
+
+/** Options for `watchProject`. */
+export interface WatchOptions {
+  /** Absolute project root to watch. */
+  root: string;
+  /** Globs selecting the files whose changes matter, relative to the root. */
+  include: readonly string[];
+  exclude?: readonly string[];
+  /**
+   * Files and directories never to react to, such as the map's own output
+   * file, or predicates given the absolute path of a changed file.
+   */
+  ignore?: readonly (string | ((absolutePath: string) => boolean))[];
+  /**
+   * How long to wait after the last event before reacting, so that a burst
+   * of events (a save, a branch switch) causes a single regeneration.
+   * @default 100
+   */
+  debounceMs?: number;
+  /**
+   * Called with the project-relative paths that changed. Events arriving
+   * while it runs are collected and handled in one call once it is done.
+   */
+  onChange: (changedPaths: string[]) => Promise<void>;
+}
+
+/**
+ * Watches a project for changes to the files its globs select. Changes are
+ * debounced, and the cached contents of changed files are invalidated
+ * before `onChange` runs.
+ *
+ * @returns A handle whose `close` stops watching.
+ */
+export const watchProject = (options: WatchOptions): { close: () => void } => {
+  const root = resolve(options.root);
+  const matches = createPathMatcher(options.include, options.exclude);
+  const ignored = (options.ignore ?? []).map(entry => typeof entry === 'string'
+    ? (path: string) => path === resolve(root, entry) || path.startsWith(`${resolve(root, entry)}${sep}`)
+    : entry);
+  const pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running = false;
+
+  const flush = async () => {
+    timer = undefined;
+    if (running || pending.size === 0) return;
+    const changedPaths = [...pending].sort();
+    pending.clear();
+    invalidateSourceFiles(changedPaths.map(path => join(root, path)));
+    running = true;
+    try {
+      await options.onChange(changedPaths);
+    } finally {
+      running = false;
+      if (pending.size > 0) schedule();
+    }
+  };
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, options.debounceMs ?? 100);
+  };
+
+  const watcher = watch(root, { recursive: true }, (_eventType, filename) => {
+    if (!filename) return;
+    const absolute = resolve(root, filename.toString());
+    if (ignored.some(isIgnored => isIgnored(absolute))) return;
+    const path = relative(root, absolute).split(sep).join(posix.sep);
+    if (!matches(path)) return;
+    pending.add(path);
+    schedule();
+  });
+
+  return {
+    close: () => {
+      if (timer) clearTimeout(timer);
+      watcher.close();
+    },
+  };
+};
+
+/** The parts of an SCN entity a change summary compares, shared by `parseScn` and `generateScnJson` results. */
+interface SnapshotEntity {
+  name: string;
+  symbol: string;
+  access?: string;
+  qualifiers: readonly string[];
+  signature?: string;
+  children: readonly SnapshotEntity[];
+}
+
+/** Entities added, removed and changed between two maps, as `path#Qualified.name`. */
+export interface EntityChanges {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+/**
+ * Captures the entities of a map for `diffEntitySnapshots`: each is keyed by
+ * `path#Qualified.name` (suffixed `#2`, `#3`, ... for repeated names) and
+ * described by its symbol, access, signature and qualifiers, so renumbered
+ * IDs and moved lines do not count as changes.
+ */
+export const snapshotEntities = (
+  files: readonly { path: string; entities: readonly SnapshotEntity[] }[],
+): Map<string, string> => {
+  const snapshot = new Map<string, string>();
+  const visit = (entity: SnapshotEntity, path: string, prefix: string) => {
+    const qualifiedName = `${prefix}${entity.name}`;
+    let key = `${path}#${qualifiedName}`;
+    for (let count = 2; snapshot.has(key); count++) key = `${path}#${qualifiedName}#${count}`;
+    snapshot.set(key, [entity.access, entity.symbol, `${entity.name}${entity.signature ?? ''}`, ...entity.qualifiers].filter(Boolean).join(' '));
+    entity.children.forEach(child => visit(child, path, `${qualifiedName}.`));
+  };
+  files.forEach(file => file.entities.forEach(entity => visit(entity, file.path, '')));
+  return snapshot;
+};
+
+export const diffEntitySnapshots = (previous: ReadonlyMap<string, string>, next: ReadonlyMap<string, string>): EntityChanges => ({
+  added: [...next.keys()].filter(key => !previous.has(key)),
+  removed: [...previous.keys()].filter(key => !next.has(key)),
+  changed: [...next.keys()].filter(key => previous.has(key) && previous.get(key) !== next.get(key)),
+});
+
+/** Formats changes as `2 added, 1 removed, 0 changed`, followed by one `+`/`-`/`~` line per entity. */
+export const formatEntityChanges = (changes: EntityChanges): string => [
+  `${changes.added.length} added, ${changes.removed.length} removed, ${changes.changed.length} changed`,
+  ...changes.added.map(key => `  + ${key}`),
+  ...changes.removed.map(key => `  - ${key}`),
+  ...changes.changed.map(key => `  ~ ${key}`),
+].join('\n');
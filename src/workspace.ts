@@ -0,0 +1,101 @@
+import ts from 'typescript';
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, posix, relative, sep } from 'path';
+import { readJsonObject } from './module-resolver';
+
+/** A package of an npm, yarn, pnpm or bun workspace. */
+export interface WorkspacePackage {
+  name: string;
+  /** Directory relative to the workspace root, e.g. `packages/shared`. */
+  dir: string;
+  /** Names of the other workspace packages it depends on. */
+  dependencies: string[];
+}
+
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+/** Reads the `packages:` list of a pnpm-workspace.yaml. */
+const readPnpmWorkspacePatterns = (path: string): string[] => {
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of readFileSync(path, 'utf-8').split('\n')) {
+    if (/^\S/.test(line)) inPackages = /^packages\s*:/.test(line);
+    const item = inPackages && line.match(/^\s+-\s*['"]?([^'"#]+?)['"]?\s*(?:#.*)?$/);
+    if (item) patterns.push(item[1]!);
+  }
+  return patterns;
+};
+
+/** Workspace globs from package.json `workspaces` (npm, yarn, bun) or pnpm-workspace.yaml. */
+const readWorkspacePatterns = (rootDir: string): string[] => {
+  const pnpmWorkspace = join(rootDir, 'pnpm-workspace.yaml');
+  if (existsSync(pnpmWorkspace)) return readPnpmWorkspacePatterns(pnpmWorkspace);
+  const workspaces = readJsonObject(join(rootDir, 'package.json'))?.workspaces;
+  const patterns = Array.isArray(workspaces) ? workspaces : workspaces && typeof workspaces === 'object' ? (workspaces as { packages?: unknown }).packages : undefined;
+  return Array.isArray(patterns) ? patterns.filter((pattern): pattern is string => typeof pattern === 'string') : [];
+};
+
+/**
+ * Discovers the packages of the workspace rooted at `rootDir` from its
+ * package.json `workspaces` field or its pnpm-workspace.yaml. Globs such as
+ * `packages/*` and `apps/**` are expanded, `!` patterns exclude directories,
+ * and `node_modules` is never searched.
+ *
+ * @returns The packages sorted by directory.
+ */
+export const discoverWorkspacePackages = (rootDir: string): WorkspacePackage[] => {
+  const patterns = readWorkspacePatterns(rootDir).map(pattern => pattern.replace(/^\.\//, '').replace(/\/$/, ''));
+  if (patterns.length === 0) {
+    throw new Error(`No workspaces found in ${rootDir}. Expected a "workspaces" field in package.json or a pnpm-workspace.yaml.`);
+  }
+  const includes = patterns.filter(pattern => !pattern.startsWith('!')).map(pattern => `${pattern}/package.json`);
+  const excludes = ['**/node_modules', ...patterns.filter(pattern => pattern.startsWith('!')).map(pattern => pattern.slice(1))];
+  const manifests = ts.sys.readDirectory(rootDir, ['.json'], excludes, includes)
+    .filter(path => path.endsWith('/package.json'));
+
+  const packages = manifests.flatMap((manifestPath): { name: string; dir: string; manifest: Record<string, unknown> }[] => {
+    const manifest = readJsonObject(manifestPath);
+    if (typeof manifest?.name !== 'string') return [];
+    return [{ name: manifest.name, dir: relative(rootDir, dirname(manifestPath)).split(sep).join(posix.sep), manifest }];
+  });
+  const names = new Set(packages.map(pkg => pkg.name));
+
+  return packages
+    .map(({ name, dir, manifest }) => ({
+      name,
+      dir,
+      dependencies: [...new Set(DEPENDENCY_FIELDS.flatMap(field => {
+        const dependencies = manifest[field];
+        return dependencies && typeof dependencies === 'object' ? Object.keys(dependencies) : [];
+      }))]
+        .filter(dependency => names.has(dependency) && dependency !== name)
+        .sort(),
+    }))
+    .sort((a, b) => a.dir.localeCompare(b.dir));
+};
+
+/**
+ * Restricts `packages` to the named ones and the workspace packages they
+ * depend on, directly or transitively.
+ */
+export const selectWorkspacePackages = (packages: readonly WorkspacePackage[], names: readonly string[]): WorkspacePackage[] => {
+  const byName = new Map(packages.map(pkg => [pkg.name, pkg]));
+  const selected = new Set<string>();
+  const visit = (name: string) => {
+    if (selected.has(name)) return;
+    selected.add(name);
+    byName.get(name)!.dependencies.forEach(visit);
+  };
+  for (const name of names) {
+    if (!byName.has(name)) {
+      throw new Error(`Package '${name}' is not part of the workspace. Known packages: ${[...byName.keys()].join(', ')}.`);
+    }
+    visit(name);
+  }
+  return packages.filter(pkg => selected.has(pkg.name));
+};
+
+/** Finds the package a project-relative file belongs to: the one with the deepest directory containing it. */
+export const findWorkspacePackage = (packages: readonly WorkspacePackage[], filePath: string): WorkspacePackage | undefined => packages
+  .filter(pkg => pkg.dir === '' || filePath.startsWith(`${pkg.dir}/`))
+  .sort((a, b) => b.dir.length - a.dir.length)[0];
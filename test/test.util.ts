@@ -1,6 +1,7 @@
 import { mkdtemp, rm, writeFile, mkdir } from 'fs/promises';
 import { tmpdir } from 'os';
 import { join, dirname } from 'path';
+import type { CodeEdge, CodeNode, RankedCodeGraph } from 'repograph';
 
 export interface TestProject {
   projectDir: string;
@@ -21,4 +22,18 @@ export async function setupTestProject(files: Record<string, string>): Promise<T
   };
 
   return { projectDir, cleanup };
-}
\ No newline at end of file
+}
+export type TestNode = Partial<CodeNode> & Pick<CodeNode, 'id' | 'type' | 'name' | 'filePath'>;
+
+export function createCodeNode(partial: TestNode): CodeNode {
+  return { startLine: 1, endLine: 1, codeSnippet: '', ...partial };
+}
+
+export function createRankedGraph(nodes: TestNode[], edges: CodeEdge[], ranks: Record<string, number> = {}): RankedCodeGraph {
+  const codeNodes = nodes.map(createCodeNode);
+  return {
+    nodes: new Map(codeNodes.map(n => [n.id, n])),
+    edges,
+    ranks: new Map(codeNodes.map(n => [n.id, ranks[n.id] ?? 0])),
+  };
+}
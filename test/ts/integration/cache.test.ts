@@ -0,0 +1,268 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { writeFile } from 'fs/promises';
+import { join, posix, relative, sep } from 'path';
+import type { CodeEdge, CodeGraph, CodeNode, FileContent, RankedCodeGraph, RepoGraphOptions } from 'repograph';
+import { analyzeWithCache, readFragmentCache, writeFragmentCache, type AnalysisPipeline } from '../../../src/cache';
+import { createPathMatcher } from '../../../src/glob';
+import { serializeGraph, type ScnFragment } from '../../../src/serializer';
+import { createCodeNode, createRankedGraph, setupTestProject, type TestNode, type TestProject } from '../../test.util';
+
+/**
+ * Stands in for repograph's stages. Discovery lists the files the globs
+ * select. Analysis gives a file node per file, a function node per
+ * `export function`, `imports` edges to the analyzed files it imports and
+ * `calls` edges resolved like repograph does: same file, imported files, then
+ * any analyzed file declaring the name. Ranks depend on node order and on
+ * incoming edges, so that a merged graph only ranks like a fresh one when it
+ * is built in the same order.
+ */
+const createFakePipeline = (rootDir: string) => {
+  const runs: string[][] = [];
+  const ignores: (readonly string[] | undefined)[] = [];
+  const pipeline: AnalysisPipeline = {
+    discover: async ({ include, ignore }: { include?: readonly string[]; ignore?: readonly string[] }) => {
+      ignores.push(ignore);
+      const matches = createPathMatcher(include ?? ['**/*'], ignore);
+      const walk = (dir: string): string[] => readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+        entry.isDirectory() ? walk(join(dir, entry.name)) : [relative(rootDir, join(dir, entry.name)).split(sep).join(posix.sep)]);
+      return walk(rootDir).filter(matches).sort().map(path => ({ path, content: readFileSync(join(rootDir, path), 'utf-8') }));
+    },
+    analyze: async (files: readonly FileContent[]) => {
+      runs.push(files.map(file => file.path));
+      const paths = files.map(file => file.path);
+      const fileNodes: CodeNode[] = [];
+      const entities: CodeNode[] = [];
+      const imports: CodeEdge[] = [];
+      const calls: { fromId: string; file: string; name: string }[] = [];
+      for (const { path, content } of files) {
+        fileNodes.push(createCodeNode({ id: path, type: 'file', name: posix.basename(path), filePath: path }));
+        content.split('\n').forEach((line: string, index: number) => {
+          const declaration = line.match(/export function (\w+)\(\) \{(.*)\}/);
+          if (!declaration) return;
+          const id = `${path}#${declaration[1]}`;
+          entities.push(createCodeNode({ id, type: 'function', name: declaration[1]!, filePath: path, startLine: index + 1, endLine: index + 1, codeSnippet: `function ${declaration[1]}()` }));
+          for (const [, name] of declaration[2]!.matchAll(/(\w+)\(\)/g)) calls.push({ fromId: id, file: path, name: name! });
+        });
+        for (const [, specifier] of content.matchAll(/from '(\.[^']+)'/g)) {
+          const target = posix.join(posix.dirname(path), `${specifier}.ts`);
+          if (paths.includes(target)) imports.push({ fromId: path, toId: target, type: 'imports' });
+        }
+      }
+      const ids = new Set(entities.map(node => node.id));
+      const edges = [...imports];
+      for (const call of calls) {
+        const candidates = [call.file, ...imports.filter(edge => edge.fromId === call.file).map(edge => edge.toId)].map(file => `${file}#${call.name}`);
+        const toId = candidates.find(id => ids.has(id)) ?? entities.find(node => node.name === call.name)?.id;
+        if (toId && toId !== call.fromId) edges.push({ fromId: call.fromId, toId, type: 'calls' });
+      }
+      const nodes = [...fileNodes, ...entities];
+      return { nodes: new Map(nodes.map(node => [node.id, node])), edges };
+    },
+    rank: async (graph: CodeGraph) => {
+      const ranks = new Map([...graph.nodes.keys()].map((id, index) => [id, index]));
+      for (const edge of graph.edges) ranks.set(edge.toId, ranks.get(edge.toId)! + 100);
+      return { ...graph, ranks };
+    },
+  };
+  return { pipeline, runs, ignores };
+};
+
+/** The order-sensitive parts of a graph, for comparing warm runs with cold ones. */
+const snapshot = (graph: RankedCodeGraph) => ({ nodes: [...graph.nodes.keys()], edges: graph.edges, ranks: [...graph.ranks] });
+
+const files = {
+  'src/a.ts': "import { b } from './b';\nexport function a() { b(); }",
+  'src/b.ts': "import { c } from './c';\nexport function b() { c(); }",
+  'src/c.ts': 'export function c() {}',
+  'src/d.ts': 'export function d() {}',
+};
+
+describe('SCN Generation: Analysis Cache', () => {
+  let project: TestProject | undefined;
+
+  afterEach(async () => {
+    if (project) {
+      await project.cleanup();
+      project = undefined;
+    }
+  });
+
+  it('should only re-analyze changed files, their dependents and what they import', async () => {
+    project = await setupTestProject(files);
+    const cacheDir = join(project.projectDir, '.scn-cache');
+    const { pipeline, runs } = createFakePipeline(project.projectDir);
+    const options: RepoGraphOptions = { root: project.projectDir, include: ['src/**/*.ts'] };
+
+    const cold = await analyzeWithCache(options, cacheDir, pipeline);
+    expect(runs).toEqual([['src/a.ts', 'src/b.ts', 'src/c.ts', 'src/d.ts']]);
+    expect(existsSync(join(cacheDir, 'analysis.json'))).toBe(true);
+
+    const warm = await analyzeWithCache(options, cacheDir, pipeline);
+    expect(runs).toHaveLength(1);
+    expect(snapshot(warm)).toEqual(snapshot(cold));
+
+    // b.ts changed: a.ts imports it, and c.ts is needed to resolve b.ts's import.
+    await writeFile(join(project.projectDir, 'src/b.ts'), "import { c } from './c';\nexport function b() { c(); }\nexport function b2() {}");
+    const updated = await analyzeWithCache(options, cacheDir, pipeline);
+    expect(runs[1]).toEqual(['src/a.ts', 'src/b.ts', 'src/c.ts']);
+    expect(serializeGraph(updated, project.projectDir)).toContain('§ (2) src/b.ts\n  -> (3.0)\n  <- (1.0)\n  + ~ (2.1) b()\n    -> (3.1)\n    <- (1.1)\n  + ~ (2.2) b2()');
+    expect(updated.edges).toHaveLength(4);
+  });
+
+  it('should rank a partially re-analyzed graph like a fresh analysis', async () => {
+    project = await setupTestProject(files);
+    const { pipeline } = createFakePipeline(project.projectDir);
+    const options: RepoGraphOptions = { root: project.projectDir, include: ['src/**/*.ts'] };
+
+    await analyzeWithCache(options, join(project.projectDir, '.scn-cache'), pipeline);
+    await writeFile(join(project.projectDir, 'src/c.ts'), 'export function c() {}\nexport function c2() {}');
+    const warm = await analyzeWithCache(options, join(project.projectDir, '.scn-cache'), pipeline);
+    const cold = await analyzeWithCache(options, join(project.projectDir, '.other-cache'), pipeline);
+    expect(snapshot(warm)).toEqual(snapshot(cold));
+  });
+
+  it('should keep links repograph resolves by name, as through barrels', async () => {
+    project = await setupTestProject({
+      ...files,
+      'src/index.ts': "export { c } from './c';",
+      'src/e.ts': "import { c } from './index';\nexport function e() {}",
+    });
+    const { pipeline, runs } = createFakePipeline(project.projectDir);
+    const options: RepoGraphOptions = { root: project.projectDir, include: ['src/**/*.ts'] };
+
+    await analyzeWithCache(options, join(project.projectDir, '.scn-cache'), pipeline);
+    await writeFile(join(project.projectDir, 'src/e.ts'), "import { c } from './index';\nexport function e() { c(); }");
+    const warm = await analyzeWithCache(options, join(project.projectDir, '.scn-cache'), pipeline);
+    // c.ts is analyzed too: e.ts calls `c`, which its barrel import does not declare.
+    expect(runs[1]).toEqual(['src/c.ts', 'src/e.ts', 'src/index.ts']);
+    expect(warm.edges).toContainEqual({ fromId: 'src/e.ts#e', toId: 'src/c.ts#c', type: 'calls' });
+    expect(snapshot(warm)).toEqual(snapshot(await analyzeWithCache(options, join(project.projectDir, '.other-cache'), pipeline)));
+  });
+
+  it('should drop links through a barrel when the re-exported declaration goes away', async () => {
+    project = await setupTestProject({
+      ...files,
+      'src/index.ts': "export { c } from './c';",
+      'src/e.ts': "import { c } from './index';\nexport function e() { c(); }",
+    });
+    const { pipeline, runs } = createFakePipeline(project.projectDir);
+    const options: RepoGraphOptions = { root: project.projectDir, include: ['src/**/*.ts'] };
+
+    await analyzeWithCache(options, join(project.projectDir, '.scn-cache'), pipeline);
+    await writeFile(join(project.projectDir, 'src/c.ts'), 'export function c3() {}');
+    const warm = await analyzeWithCache(options, join(project.projectDir, '.scn-cache'), pipeline);
+    // e.ts does not import c.ts, but its cached call to `c` links the two.
+    expect(runs[1]).toContain('src/e.ts');
+    expect(warm.edges).not.toContainEqual({ fromId: 'src/e.ts#e', toId: 'src/c.ts#c', type: 'calls' });
+    expect(snapshot(warm)).toEqual(snapshot(await analyzeWithCache(options, join(project.projectDir, '.other-cache'), pipeline)));
+  });
+
+  it('should keep links repograph resolves by name through path aliases', async () => {
+    project = await setupTestProject({ ...files, 'src/e.ts': "import { c } from '@app/c';\nexport function e() {}" });
+    const { pipeline, runs } = createFakePipeline(project.projectDir);
+    const options: RepoGraphOptions = { root: project.projectDir, include: ['src/**/*.ts'] };
+
+    await analyzeWithCache(options, join(project.projectDir, '.scn-cache'), pipeline);
+    await writeFile(join(project.projectDir, 'src/e.ts'), "import { c } from '@app/c';\nexport function e() { c(); }");
+    const warm = await analyzeWithCache(options, join(project.projectDir, '.scn-cache'), pipeline);
+    // The alias is not followed, so c.ts is analyzed because e.ts mentions `c`.
+    expect(runs[1]).toEqual(['src/c.ts', 'src/e.ts']);
+    expect(warm.edges).toContainEqual({ fromId: 'src/e.ts#e', toId: 'src/c.ts#c', type: 'calls' });
+    expect(snapshot(warm)).toEqual(snapshot(await analyzeWithCache(options, join(project.projectDir, '.other-cache'), pipeline)));
+  });
+
+  it('should analyze everything when a changed file declares a name other files mention', async () => {
+    project = await setupTestProject({ ...files, 'src/d.ts': 'export function d() { later(); }' });
+    const { pipeline, runs } = createFakePipeline(project.projectDir);
+    const options: RepoGraphOptions = { root: project.projectDir, include: ['src/**/*.ts'] };
+
+    await analyzeWithCache(options, join(project.projectDir, '.scn-cache'), pipeline);
+    await writeFile(join(project.projectDir, 'src/c.ts'), 'export function c() {}\nexport function later() {}');
+    const warm = await analyzeWithCache(options, join(project.projectDir, '.scn-cache'), pipeline);
+    expect(runs.slice(1)).toEqual([['src/b.ts', 'src/c.ts'], ['src/a.ts', 'src/b.ts', 'src/c.ts', 'src/d.ts']]);
+    expect(warm.edges).toContainEqual({ fromId: 'src/d.ts#d', toId: 'src/c.ts#later', type: 'calls' });
+    expect(snapshot(warm)).toEqual(snapshot(await analyzeWithCache(options, join(project.projectDir, '.other-cache'), pipeline)));
+  });
+
+  it('should map the files the discoverer finds, leaving out the cache directory', async () => {
+    project = await setupTestProject({ ...files, '.scn-cache/stale.ts': 'export function stale() {}' });
+    const cacheDir = join(project.projectDir, '.scn-cache');
+    const { pipeline, ignores } = createFakePipeline(project.projectDir);
+
+    const graph = await analyzeWithCache({ root: project.projectDir, include: ['**/*.ts'], ignore: ['src/d.ts'] }, cacheDir, pipeline);
+    expect(ignores).toEqual([['src/d.ts', '.scn-cache/**']]);
+    expect([...graph.nodes.keys()].filter(id => !id.includes('#'))).toEqual(['src/a.ts', 'src/b.ts', 'src/c.ts']);
+  });
+
+  it('should re-analyze dependents of removed files and ignore stale cache versions', async () => {
+    project = await setupTestProject(files);
+    const cacheDir = join(project.projectDir, '.scn-cache');
+    const { pipeline, runs } = createFakePipeline(project.projectDir);
+    const options: RepoGraphOptions = { root: project.projectDir, include: ['src/**/*.ts'], ignore: ['src/c.ts'] };
+
+    await analyzeWithCache(options, cacheDir, pipeline);
+    // b.ts is removed, so a.ts, which imports it, is re-analyzed.
+    const updated = await analyzeWithCache({ ...options, ignore: ['src/b.ts', 'src/c.ts'] }, cacheDir, pipeline);
+    expect(runs[1]).toEqual(['src/a.ts']);
+    expect([...updated.nodes.keys()]).toEqual(['src/a.ts', 'src/d.ts', 'src/a.ts#a', 'src/d.ts#d']);
+    expect(updated.edges).toEqual([]);
+
+    const cachePath = join(cacheDir, 'analysis.json');
+    await writeFile(cachePath, JSON.stringify({ ...JSON.parse(readFileSync(cachePath, 'utf-8')), key: 'old' }));
+    await analyzeWithCache(options, cacheDir, pipeline);
+    expect(runs[2]).toEqual(['src/a.ts', 'src/b.ts', 'src/d.ts']);
+  });
+
+  it('should reuse the serialized files whose output did not change', async () => {
+    const nodes: TestNode[] = [
+      { id: 'file-models', type: 'file', name: 'models.ts', filePath: 'models.ts' },
+      { id: 'user', type: 'interface', name: 'User', filePath: 'models.ts', startLine: 1, endLine: 3 },
+      { id: 'file-service', type: 'file', name: 'service.ts', filePath: 'service.ts' },
+      { id: 'find', type: 'function', name: 'find', filePath: 'service.ts', visibility: 'public', startLine: 1, endLine: 3, codeSnippet: 'function find(id: string): User' },
+    ];
+    const edges = [{ fromId: 'file-service', toId: 'file-models', type: 'imports' as const }];
+    const graph = createRankedGraph(nodes, edges);
+    const fragmentCache = new Map<string, ScnFragment>();
+    // Cached texts are marked, to tell reused files from re-serialized ones.
+    const mark = () => fragmentCache.forEach(fragment => fragment.text += ' // cached');
+
+    const scn = serializeGraph(graph, undefined, { fragmentCache });
+    expect(scn).toContain('+ ~ (2.1) find(id: #(string)): #(1.1)');
+    expect([...fragmentCache.keys()]).toEqual(['models.ts', 'service.ts']);
+    mark();
+    expect(serializeGraph(graph, undefined, { fragmentCache })).toBe(scn.replace(/\n\n/, ' // cached\n\n') + ' // cached');
+
+    // A file sorted first renumbers the others, and what links to them.
+    mark();
+    const renumbered = createRankedGraph([{ id: 'file-app', type: 'file', name: 'app.ts', filePath: 'app.ts' }, ...nodes], edges);
+    expect(serializeGraph(renumbered, undefined, { fragmentCache })).not.toContain('// cached');
+
+    // Leaving `User` out changes the return type of `find`, although nothing else about service.ts changed.
+    serializeGraph(graph, undefined, { fragmentCache });
+    mark();
+    const api = serializeGraph(graph, undefined, { fragmentCache, detail: 'api' });
+    expect(api).toEndWith('+ ~ (2.1) find(id: #(string)): #(User)');
+
+    project = await setupTestProject({});
+    await writeFragmentCache(project.projectDir, fragmentCache, ['service.ts']);
+    expect([...(await readFragmentCache(project.projectDir)).keys()]).toEqual(['service.ts']);
+  });
+
+  it('should reuse serialized files only while the options that shape them are the same', () => {
+    const graph = createRankedGraph([
+      { id: 'file-config', type: 'file', name: 'config.ts', filePath: 'config.ts' },
+      { id: 'config', type: 'constant', name: 'Config', filePath: 'config.ts', startLine: 1, endLine: 1, codeSnippet: '{ retries: 3 }' },
+    ], []);
+    const fragmentCache = new Map<string, ScnFragment>();
+    const mark = () => fragmentCache.forEach(fragment => fragment.text += ' // cached');
+
+    serializeGraph(graph, undefined, { fragmentCache, heuristics: { moduleContainers: true } });
+    mark();
+    expect(serializeGraph(graph, undefined, { fragmentCache, heuristics: { moduleContainers: true } })).toEndWith('// cached');
+
+    const changed = serializeGraph(graph, undefined, { fragmentCache, heuristics: { moduleContainers: false } });
+    expect(changed).not.toContain('// cached');
+    expect(changed).toContain('@ (1.1) Config = { retries: 3 }');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { execFileSync } from 'child_process';
+import { rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { readGitChanges } from '../../../src/changes';
+import { serializeGraph, serializeGraphToJson, type CodeEdge } from '../../../src/serializer';
+import { createRankedGraph, setupTestProject, type TestNode, type TestProject } from '../../test.util';
+
+const nodes: TestNode[] = [
+  { id: 'file-db', type: 'file', name: 'db.ts', filePath: 'src/db.ts' },
+  { id: 'connect', type: 'function', name: 'connect', filePath: 'src/db.ts', visibility: 'public', startLine: 1, endLine: 3, codeSnippet: 'function connect()' },
+  { id: 'file-auth', type: 'file', name: 'auth.ts', filePath: 'src/auth.ts' },
+  { id: 'login', type: 'function', name: 'login', filePath: 'src/auth.ts', visibility: 'public', startLine: 1, endLine: 5, codeSnippet: 'function login()' },
+  { id: 'logout', type: 'function', name: 'logout', filePath: 'src/auth.ts', visibility: 'public', startLine: 7, endLine: 9, codeSnippet: 'function logout()' },
+  { id: 'file-api', type: 'file', name: 'api.ts', filePath: 'src/api.ts' },
+  { id: 'route', type: 'function', name: 'route', filePath: 'src/api.ts', visibility: 'public', startLine: 1, endLine: 3, codeSnippet: 'function route()' },
+  { id: 'file-log', type: 'file', name: 'log.ts', filePath: 'src/log.ts' },
+];
+const edges: CodeEdge[] = [
+  { fromId: 'file-auth', toId: 'file-db', type: 'imports' },
+  { fromId: 'file-api', toId: 'file-auth', type: 'imports' },
+  { fromId: 'login', toId: 'connect', type: 'calls' },
+  { fromId: 'route', toId: 'login', type: 'calls' },
+];
+const graph = createRankedGraph(nodes, edges);
+
+const git = (cwd: string, ...args: string[]) =>
+  execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', '-c', 'commit.gpgsign=false', ...args], { cwd, stdio: 'pipe' });
+
+describe('SCN Generation: Changes Since a Git Ref', () => {
+  let project: TestProject | undefined;
+
+  afterEach(async () => {
+    if (project) {
+      await project.cleanup();
+      project = undefined;
+    }
+  });
+
+  it('should emit the changed files and their direct neighbors, marking what changed', () => {
+    const scn = serializeGraph(graph, undefined, { changes: [{ path: 'src/auth.ts', lines: [[2, 3]] }] });
+    expect(scn).toContain('§ (2) src/auth.ts // changed');
+    expect(scn).toContain('+ ~ (2.1) login() // changed');
+    expect(scn).toContain('+ ~ (2.2) logout()\n');
+    // The files it imports and the files importing it are kept, with the entities linked to the change.
+    expect(scn).toContain('§ (1) src/api.ts\n');
+    expect(scn).toContain('§ (3) src/db.ts\n');
+    expect(scn).not.toContain('src/log.ts');
+
+    const files = serializeGraphToJson(graph, undefined, { changes: [{ path: 'src/auth.ts', lines: [[2, 3]] }] }).files;
+    const auth = files.find(file => file.path === 'src/auth.ts')!;
+    expect(auth.changed).toBe(true);
+    expect(auth.entities.map(entity => [entity.name, entity.changed])).toEqual([['login', true], ['logout', undefined]]);
+  });
+
+  it('should mark every entity of a changed path without line ranges, and emit nothing when no file changed', () => {
+    const files = serializeGraphToJson(graph, undefined, { changes: [{ path: 'src/auth.ts' }] }).files;
+    expect(files.find(file => file.path === 'src/auth.ts')!.entities.every(entity => entity.changed)).toBe(true);
+
+    expect(serializeGraph(graph, undefined, { changes: [{ path: 'README.md' }] })).toBe('');
+  });
+
+  it('should read committed, uncommitted and untracked changes from git', async () => {
+    project = await setupTestProject({
+      'src/auth.ts': 'export function login() {\n  return 1;\n}\n\nexport function logout() {\n  return 2;\n}\n',
+      'src/db.ts': 'export const db = 1;\n',
+      'src/old.ts': 'export const old = 1;\n',
+    });
+    const dir = project.projectDir;
+    git(dir, 'init', '-q');
+    git(dir, 'add', '-A');
+    git(dir, 'commit', '-q', '-m', 'initial');
+    git(dir, 'tag', 'base');
+
+    await writeFile(join(dir, 'src/auth.ts'), 'export function login() {\n  return 1;\n}\n\nexport function logout() {\n  return 3;\n}\n');
+    git(dir, 'commit', '-q', '-am', 'change logout');
+    await writeFile(join(dir, 'src/db.ts'), 'export const db = 2;\n');
+    await rm(join(dir, 'src/old.ts'));
+    await writeFile(join(dir, 'src/new.ts'), 'export const fresh = 1;\n');
+
+    const changes = await readGitChanges(dir, 'base');
+    expect(changes.sort((a, b) => a.path.localeCompare(b.path))).toEqual([
+      { path: 'src/auth.ts', lines: [[6, 6]] },
+      { path: 'src/db.ts', lines: [[1, 1]] },
+      { path: 'src/new.ts' },
+    ]);
+
+    await expect(readGitChanges(dir, 'no-such-ref')).rejects.toThrow(/Could not list the changes since 'no-such-ref'/);
+    await expect(readGitChanges(dir, '--output=x')).rejects.toThrow(/Invalid git ref/);
+  });
+});
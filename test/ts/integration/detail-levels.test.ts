@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'bun:test';
+import { serializeGraph } from '../../../src/serializer';
+import { createRankedGraph } from '../../test.util';
+
+const graph = createRankedGraph([
+  { id: 'file-models', type: 'file', name: 'models.ts', filePath: 'models.ts' },
+  { id: 'models-user', type: 'interface', name: 'User', filePath: 'models.ts', visibility: 'public', startLine: 1, endLine: 3 },
+  { id: 'models-normalize', type: 'function', name: 'normalize', filePath: 'models.ts', startLine: 5, endLine: 7, codeSnippet: 'function normalize(user: User)' },
+  { id: 'file-service', type: 'file', name: 'service.ts', filePath: 'service.ts' },
+  { id: 'service-class', type: 'class', name: 'UserService', filePath: 'service.ts', visibility: 'public', startLine: 3, endLine: 12 },
+  { id: 'service-load', type: 'method', name: 'UserService.load', filePath: 'service.ts', visibility: 'public', startLine: 4, endLine: 8, codeSnippet: 'load(id: string): User' },
+  { id: 'service-fetch', type: 'method', name: 'UserService.fetch', filePath: 'service.ts', visibility: 'private', startLine: 9, endLine: 11, codeSnippet: 'private fetch(id: string): User' },
+], [
+  { fromId: 'file-service', toId: 'file-models', type: 'imports' },
+  { fromId: 'service-load', toId: 'models-user', type: 'references' },
+  { fromId: 'service-load', toId: 'service-fetch', type: 'calls' },
+  { fromId: 'service-fetch', toId: 'models-normalize', type: 'calls' },
+]);
+
+describe('SCN Generation: Detail Levels', () => {
+  it('should emit everything at the full level', () => {
+    const scn = serializeGraph(graph, undefined, { detail: 'full' });
+
+    expect(scn).toBe(serializeGraph(graph));
+    expect(scn).toContain('~ (1.2) normalize(user: #(1.1))');
+    expect(scn).toContain('- ~ (2.3) fetch(id: #(string)): #(1.1)');
+  });
+
+  it('should emit only file headers and their links at the files level', () => {
+    expect(serializeGraph(graph, undefined, { detail: 'files' })).toBe([
+      '§ (1) models.ts\n  <- (2.0)',
+      '§ (2) service.ts\n  -> (1.0)',
+    ].join('\n\n'));
+  });
+
+  it('should keep only public entities and links between them at the api level', () => {
+    const scn = serializeGraph(graph, undefined, { detail: 'api' });
+
+    expect(scn).not.toContain('normalize');
+    expect(scn).not.toContain('fetch');
+    expect(scn).toContain('+ ◇ (2.1) UserService\n    + ~ (2.2) load(id: #(string)): #(1.1)\n      -> (1.1)');
+    expect(scn).toContain('+ {} (1.1) User\n    <- (2.2)');
+  });
+});
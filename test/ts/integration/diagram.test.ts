@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'bun:test';
+import { serializeGraphToJson } from '../../../src/serializer';
+import { renderDot, renderMermaid } from '../../../src/diagram';
+import { createRankedGraph } from '../../test.util';
+
+const document = serializeGraphToJson(createRankedGraph([
+  { id: 'file-main', type: 'file', name: 'main.ts', filePath: 'main.ts' },
+  { id: 'main-run', type: 'function', name: 'run', filePath: 'main.ts', startLine: 1, endLine: 3, codeSnippet: 'function run()' },
+  { id: 'file-base', type: 'file', name: 'base.ts', filePath: 'src/base.ts' },
+  { id: 'base-class', type: 'class', name: 'Base', filePath: 'src/base.ts', startLine: 1, endLine: 3 },
+  { id: 'file-user', type: 'file', name: 'user.ts', filePath: 'src/user.ts' },
+  { id: 'user-class', type: 'class', name: 'User', filePath: 'src/user.ts', startLine: 1, endLine: 3 },
+], [
+  { fromId: 'file-main', toId: 'file-user', type: 'imports' },
+  { fromId: 'file-user', toId: 'file-base', type: 'imports' },
+  { fromId: 'main-run', toId: 'user-class', type: 'calls' },
+  { fromId: 'user-class', toId: 'base-class', type: 'inherits' },
+]));
+
+describe('SCN Generation: Diagrams', () => {
+  it('should render file imports as a Mermaid flowchart', () => {
+    expect(renderMermaid(document)).toBe([
+      'flowchart LR',
+      '  f1["§ (1) main.ts"]',
+      '  f2["§ (2) src/base.ts"]',
+      '  f3["§ (3) src/user.ts"]',
+      '  f1 --> f3',
+      '  f3 --> f2',
+    ].join('\n'));
+  });
+
+  it('should cluster by directory and draw entity links in Mermaid', () => {
+    const mermaid = renderMermaid(document, { entities: true, clusterByDirectory: true });
+
+    expect(mermaid).toContain('  subgraph dir1 ["src/"]\n    subgraph f2_entities [" "]\n      f2["§ (2) src/base.ts"]\n      e2_1["◇ (2.1) Base"]\n    end');
+    expect(mermaid).toContain('  e1_1 --> e3_1\n');
+    expect(mermaid).toContain('  e3_1 --> e2_1');
+  });
+
+  it('should render clusters and edges as Graphviz DOT', () => {
+    const dot = renderDot(document, { clusterByDirectory: true });
+
+    expect(dot).toStartWith('digraph scn {\n  rankdir=LR;');
+    expect(dot).toContain('  f1 [label="§ (1) main.ts"];\n  subgraph cluster_dir1 {\n    label="src/";\n    f2 [label="§ (2) src/base.ts"];');
+    expect(dot).toContain('  f1 -> f3;\n  f3 -> f2;\n}');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { serializeGraph, serializeGraphToJson } from '../../../src/serializer';
+import { parseScn } from '../../../src/parser';
+import { createRankedGraph, setupTestProject, type TestProject } from '../../test.util';
+
+const files = {
+  'src/auth.ts': [
+    '/**',
+    ' * Logs a user in with their password. Sessions last a day.',
+    ' * @deprecated Use {@link signIn} instead. It will be removed in v3.',
+    ' * @param user - The user.',
+    ' * @throws {AuthError} When the password is wrong.',
+    ' * @returns {Promise<Session>} The new session.',
+    ' */',
+    'export async function login(user: string) {}',
+    '',
+    '/** Signs a user in through the identity provider. Remembers the device. */',
+    '@Injectable()',
+    'export class SignIn {}',
+    '',
+    '/* Not a doc comment. */',
+    'export function logout() {}',
+  ].join('\n'),
+};
+
+const graph = createRankedGraph([
+  { id: 'auth', type: 'file', name: 'auth.ts', filePath: 'src/auth.ts' },
+  { id: 'login', type: 'function', name: 'login', filePath: 'src/auth.ts', startLine: 8, endLine: 8, codeSnippet: 'export async function login(user: string)' },
+  { id: 'sign-in', type: 'class', name: 'SignIn', filePath: 'src/auth.ts', startLine: 12, endLine: 12, codeSnippet: 'export class SignIn {}' },
+  { id: 'logout', type: 'function', name: 'logout', filePath: 'src/auth.ts', startLine: 15, endLine: 15, codeSnippet: 'export function logout()' },
+], []);
+
+describe('SCN Generation: Doc Comments', () => {
+  let project: TestProject | undefined;
+
+  afterEach(async () => {
+    if (project) {
+      await project.cleanup();
+      project = undefined;
+    }
+  });
+
+  it('should append doc summaries and tags as trailing comments, with @throws adding !', async () => {
+    project = await setupTestProject(files);
+    const scn = serializeGraph(graph, project.projectDir, { includeDocs: true });
+
+    expect(scn).toBe([
+      '§ (1) src/auth.ts',
+      '  + ~ (1.1) login(user: #(string)) ... ! // @deprecated Use signIn instead | Logs a user in with their password | @returns The new session',
+      '  + ◇ (1.2) SignIn // Signs a user in through the identity provider',
+      '  + ~ (1.3) logout()',
+    ].join('\n'));
+    expect(parseScn(scn).files[0]!.entities[1]!.comment).toBe('Signs a user in through the identity provider');
+    expect(serializeGraph(graph, project.projectDir)).not.toContain('//');
+  });
+
+  it('should cap sentences and combine with the public API comment', async () => {
+    project = await setupTestProject(files);
+    const options = { includeDocs: { maxLength: 30 }, publicApi: new Map([['login', ['@acme/auth#login']], ['sign-in', ['@acme/auth#SignIn']]]) };
+    const scn = serializeGraph(graph, project.projectDir, options);
+
+    expect(scn).toContain('login(user: #(string)) ... ! // exported as @acme/auth#login | @deprecated Use signIn instead | Logs a user in with their… | @returns The new session');
+    expect(scn).toContain('SignIn // exported as @acme/auth#SignIn | Signs a user in through the…');
+
+    const json = serializeGraphToJson(graph, project.projectDir, options);
+    expect(json.files[0]!.entities[0]!.docs).toEqual({ summary: 'Logs a user in with their…', deprecated: 'Use signIn instead', returns: 'The new session' });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { serializeGraph } from '../../../src/serializer';
+import { scanImports } from '../../../src/external-deps';
+import { createRankedGraph, setupTestProject, type TestProject } from '../../test.util';
+
+const files = {
+  'src/app.ts': [
+    "import { useState } from 'react';",
+    "import { createRoot } from 'react-dom/client';",
+    "import debounce from 'lodash/debounce';",
+    "import * as fs from 'node:fs';",
+    "import { legacy } from './legacy/util.js';",
+    "import { helper } from './helper';",
+    '',
+    'export function start() {',
+    '  const [value] = useState(0);',
+    '  return helper(value);',
+    '}',
+    '',
+    'export function mount(el: Element) {',
+    '  createRoot(el);',
+    '  fs.readFileSync(legacy());',
+    '  debounce(mount, 10);',
+    '}',
+  ].join('\n'),
+  'src/helper.ts': 'export const helper = (x: number) => x;',
+  'src/legacy/util.js': 'export const legacy = () => "";',
+};
+
+const graph = createRankedGraph([
+  { id: 'file-app', type: 'file', name: 'app.ts', filePath: 'src/app.ts' },
+  { id: 'app-start', type: 'function', name: 'start', filePath: 'src/app.ts', visibility: 'public', startLine: 8, endLine: 11, codeSnippet: 'function start()' },
+  { id: 'app-mount', type: 'function', name: 'mount', filePath: 'src/app.ts', visibility: 'public', startLine: 13, endLine: 17, codeSnippet: 'function mount(el: Element)' },
+  { id: 'file-helper', type: 'file', name: 'helper.ts', filePath: 'src/helper.ts' },
+  { id: 'helper-helper', type: 'variable', name: 'helper', filePath: 'src/helper.ts', visibility: 'public', startLine: 1, endLine: 1 },
+], [
+  { fromId: 'file-app', toId: 'file-helper', type: 'imports' },
+  { fromId: 'app-start', toId: 'helper-helper', type: 'calls' },
+]);
+
+describe('SCN Generation: External Dependencies', () => {
+  let project: TestProject | undefined;
+
+  afterEach(async () => {
+    if (project) {
+      await project.cleanup();
+      project = undefined;
+    }
+  });
+
+  it('should name packages and unscanned files on file headers and the entities using them', async () => {
+    project = await setupTestProject(files);
+    const scn = serializeGraph(graph, project.projectDir);
+
+    expect(scn).toContain('§ (1) src/app.ts\n  -> (2.0), (lodash/debounce), (node:fs), (react), (react-dom/client), (src/legacy/util.js)\n  + ~ (1.1)');
+    expect(scn).toContain('  + ~ (1.1) start()\n    -> (2.1), (react)\n');
+    expect(scn).toContain('  + ~ (1.2) mount(el: #(Element))\n    -> (lodash/debounce), (node:fs), (react-dom/client), (src/legacy/util.js)');
+  });
+
+  it('should group subpath imports by package when requested', async () => {
+    project = await setupTestProject(files);
+    const scn = serializeGraph(graph, project.projectDir, { groupExternalDependencies: true });
+
+    expect(scn).toContain('§ (1) src/app.ts\n  -> (2.0), (lodash), (node:fs), (react), (react-dom), (src/legacy/util.js)');
+    expect(scn).toContain('    -> (lodash), (node:fs), (react-dom), (src/legacy/util.js)');
+  });
+
+  it('should find import bindings, re-exports and require calls', () => {
+    const statements = scanImports([
+      "import Default, { a, b as c, type T } from 'pkg';",
+      "import type { U } from '@scope/pkg/sub';",
+      "export * from './barrel';",
+      "const path = require('path');",
+      "import './side-effect.css';",
+      "import fs = require('fs');",
+      "const lazy = () => import('./lazy');",
+    ].join('\n'));
+
+    expect(statements).toEqual([
+      { specifier: 'pkg', bindings: ['Default', 'a', 'c', 'T'] },
+      { specifier: '@scope/pkg/sub', bindings: ['U'] },
+      { specifier: './barrel', bindings: [] },
+      { specifier: 'path', bindings: [] },
+      { specifier: './side-effect.css', bindings: [] },
+      { specifier: 'fs', bindings: ['fs'] },
+      { specifier: './lazy', bindings: [] },
+    ]);
+  });
+
+  it('should ignore imports mentioned in comments and strings', () => {
+    expect(scanImports([
+      '/*',
+      "import { old } from 'removed-package';",
+      '*/',
+      "// const x = require('commented');",
+      'const message = "run import(\'in-a-string\') to load it";',
+      "const template = `require('in-a-template')`;",
+      "export const real = () => import('real');",
+    ].join('\n'))).toEqual([{ specifier: 'real', bindings: [] }]);
+  });
+
+  it('should name an unscanned relative import that does not exist as written', async () => {
+    project = await setupTestProject({ 'src/app.ts': "import { util } from './some-util.js';\nexport const run = () => util();" });
+    const scn = serializeGraph(createRankedGraph([
+      { id: 'file-app', type: 'file', name: 'app.ts', filePath: 'src/app.ts' },
+      { id: 'app-run', type: 'variable', name: 'run', filePath: 'src/app.ts', visibility: 'public', startLine: 2, endLine: 2 },
+    ], []), project.projectDir);
+    expect(scn).toContain('§ (1) src/app.ts\n  -> (./some-util.js)\n  + @ (1.1) run\n    -> (./some-util.js)');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'bun:test';
+import { serializeGraph } from '../../../src/serializer';
+import { createRankedGraph } from '../../test.util';
+
+// a.ts:start -> b.ts:Service.run -> c.ts:transform -> d.ts:lowLevel, plus an unrelated e.ts
+const graph = createRankedGraph([
+  { id: 'file-a', type: 'file', name: 'a.ts', filePath: 'a.ts' },
+  { id: 'a-start', type: 'function', name: 'start', filePath: 'a.ts', visibility: 'public', startLine: 1, endLine: 3, codeSnippet: 'function start()' },
+  { id: 'file-b', type: 'file', name: 'b.ts', filePath: 'b.ts' },
+  { id: 'b-service', type: 'class', name: 'Service', filePath: 'b.ts', visibility: 'public', startLine: 1, endLine: 10 },
+  { id: 'b-run', type: 'method', name: 'Service.run', filePath: 'b.ts', visibility: 'public', startLine: 2, endLine: 4, codeSnippet: 'run(input: string): string' },
+  { id: 'b-stop', type: 'method', name: 'Service.stop', filePath: 'b.ts', visibility: 'public', startLine: 5, endLine: 7, codeSnippet: 'stop()' },
+  { id: 'file-c', type: 'file', name: 'c.ts', filePath: 'c.ts' },
+  { id: 'c-transform', type: 'function', name: 'transform', filePath: 'c.ts', visibility: 'public', startLine: 1, endLine: 3, codeSnippet: 'function transform(value: string): string' },
+  { id: 'file-d', type: 'file', name: 'd.ts', filePath: 'd.ts' },
+  { id: 'd-low', type: 'function', name: 'lowLevel', filePath: 'd.ts', visibility: 'public', startLine: 1, endLine: 3, codeSnippet: 'function lowLevel(raw: Buffer): string' },
+  { id: 'file-e', type: 'file', name: 'e.ts', filePath: 'e.ts' },
+  { id: 'e-unrelated', type: 'function', name: 'unrelated', filePath: 'e.ts', startLine: 1, endLine: 3, codeSnippet: 'function unrelated()' },
+], [
+  { fromId: 'file-a', toId: 'file-b', type: 'imports' },
+  { fromId: 'file-b', toId: 'file-c', type: 'imports' },
+  { fromId: 'file-c', toId: 'file-d', type: 'imports' },
+  { fromId: 'a-start', toId: 'b-run', type: 'calls' },
+  { fromId: 'b-run', toId: 'c-transform', type: 'calls' },
+  { fromId: 'c-transform', toId: 'd-low', type: 'calls' },
+]);
+
+describe('SCN Generation: Focused Slices', () => {
+  it('should emit the focus symbol and its direct neighbors, stubbing the next hop', () => {
+    const scn = serializeGraph(graph, undefined, { focus: ['b.ts#Service.run'] });
+
+    expect(scn).toBe([
+      '§ (1) a.ts',
+      '  + ~ (1.1) start()\n    -> (2.2)',
+      '',
+      '§ (2) b.ts',
+      '  ◇ (2.1) Service',
+      '    + ~ (2.2) run(input: #(string)): #(string)\n      -> (3.1)\n      <- (1.1)',
+      '',
+      '§ (3) c.ts',
+      '  + ~ (3.1) transform(value: #(string)): #(string)\n    -> (4.1)\n    <- (2.2)',
+      '',
+      '§ (4) d.ts',
+      '  ~ (4.1) lowLevel',
+    ].join('\n'));
+  });
+
+  it('should widen the slice with depth and keep unrelated files out', () => {
+    const scn = serializeGraph(graph, undefined, { focus: ['a.ts'], depth: 2 });
+
+    expect(scn).toContain('§ (1) a.ts\n  -> (2.0)');
+    expect(scn).toContain('+ ~ (3.1) transform(value: #(string)): #(string)');
+    expect(scn).toContain('§ (4) d.ts\n  ~ (4.1) lowLevel');
+    expect(scn).not.toContain('lowLevel(raw');
+    expect(scn).not.toContain('stop');
+    expect(scn).not.toContain('e.ts');
+  });
+
+  it('should accept a bare symbol name and reject unknown targets', () => {
+    expect(serializeGraph(graph, undefined, { focus: ['d.ts#lowLevel'], depth: 0 }))
+      .toBe('§ (3) c.ts\n  ~ (3.1) transform\n\n§ (4) d.ts\n  + ~ (4.1) lowLevel(raw: #(Buffer)): #(string)\n    <- (3.1)');
+    expect(() => serializeGraph(graph, undefined, { focus: ['b.ts#missing'] })).toThrow("Focus target 'b.ts#missing'");
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { serializeGraph } from '../../../src/serializer';
+import { createRankedGraph, setupTestProject, type TestProject } from '../../test.util';
+
+const files = {
+  'src/app.tsx': [
+    "import { format } from 'date-fns';",
+    "import { save } from './db';",
+    '',
+    'export function Button({ label }: { label: string }) {',
+    '  return <button>{label}</button>;',
+    '}',
+    'export function Parser(text: string) {',
+    '  return text.split(",");',
+    '}',
+    'export const Config = { retries: 3 };',
+    'export function label(date: Date) {',
+    '  return format(date, "yyyy");',
+    '}',
+    'export function persist(date: Date) {',
+    '  return save(date);',
+    '}',
+    'export function audit(name: string) {',
+    '  return logger.info(name);',
+    '}',
+    'export const Routes = { home: "/" };',
+  ].join('\n'),
+};
+
+const graph = createRankedGraph([
+  { id: 'app', type: 'file', name: 'app.tsx', filePath: 'src/app.tsx' },
+  { id: 'button', type: 'function', name: 'Button', filePath: 'src/app.tsx', startLine: 4, endLine: 6, codeSnippet: 'export function Button({ label }: { label: string })' },
+  { id: 'parser', type: 'function', name: 'Parser', filePath: 'src/app.tsx', startLine: 7, endLine: 9, codeSnippet: 'export function Parser(text: string)' },
+  { id: 'config', type: 'variable', name: 'Config', filePath: 'src/app.tsx', startLine: 10, endLine: 10, codeSnippet: 'export const Config = { retries: 3 }' },
+  { id: 'label', type: 'function', name: 'label', filePath: 'src/app.tsx', startLine: 11, endLine: 13, codeSnippet: 'export function label(date: Date)' },
+  { id: 'persist', type: 'function', name: 'persist', filePath: 'src/app.tsx', startLine: 14, endLine: 16, codeSnippet: 'export function persist(date: Date)' },
+  { id: 'audit', type: 'function', name: 'audit', filePath: 'src/app.tsx', startLine: 17, endLine: 19, codeSnippet: 'export function audit(name: string)' },
+  { id: 'routes', type: 'variable', name: 'Routes', filePath: 'src/app.tsx', startLine: 20, endLine: 20, codeSnippet: '{ home: "/" }' },
+], []);
+
+describe('SCN Generation: Heuristics', () => {
+  let project: TestProject | undefined;
+
+  afterEach(async () => {
+    if (project) {
+      await project.cleanup();
+      project = undefined;
+    }
+  });
+
+  it('should treat PascalCase functions as components and constants as containers by default', async () => {
+    project = await setupTestProject(files);
+    const scn = serializeGraph(graph, project.projectDir);
+
+    expect(scn).toContain('+ ◇ (1.1) Button { props: { label:# } }');
+    expect(scn).toContain('+ ◇ (1.2) Parser o');
+    expect(scn).toContain('+ ◇ (1.3) Config');
+    expect(scn).toContain('+ ~ (1.4) label(date: #(Date)) o');
+    expect(scn).toContain('+ ~ (1.5) persist(date: #(Date)) o');
+    expect(scn).toContain('+ ~ (1.6) audit(name: #(string)) o');
+    expect(scn).toContain('+ ◇ (1.7) Routes { home: "/" }');
+  });
+
+  it('should only treat JSX-returning functions as components with "jsx"', async () => {
+    project = await setupTestProject(files);
+    const scn = serializeGraph(graph, project.projectDir, { heuristics: { components: 'jsx', moduleContainers: false } });
+
+    expect(scn).toContain('+ ◇ (1.1) Button { props: { label:# } }');
+    expect(scn).toContain('+ ~ (1.2) Parser(text: #(string)) o');
+    expect(scn).toContain('+ @ (1.3) Config');
+    expect(scn).toContain('+ @ (1.7) Routes = { home: "/" }');
+  });
+
+  it('should show object literals without "=" only for module containers', async () => {
+    project = await setupTestProject({ 'src/routes.ts': 'export const Routes = { home: "/" };\nexport const routes = { home: "/" };' });
+    const routes = createRankedGraph([
+      { id: 'file', type: 'file', name: 'routes.ts', filePath: 'src/routes.ts' },
+      { id: 'upper', type: 'constant', name: 'Routes', filePath: 'src/routes.ts', startLine: 1, endLine: 1, codeSnippet: '{ home: "/" }' },
+      { id: 'lower', type: 'constant', name: 'routes', filePath: 'src/routes.ts', startLine: 2, endLine: 2, codeSnippet: '{ home: "/" }' },
+    ], []);
+
+    const scn = serializeGraph(routes, project.projectDir);
+    expect(scn).toContain('+ ◇ (1.1) Routes { home: "/" }\n');
+    expect(scn).toContain('+ @ (1.2) routes = { home: "/" }');
+
+    const off = serializeGraph(routes, project.projectDir, { heuristics: { moduleContainers: false } });
+    expect(off).toContain('+ @ (1.1) Routes = { home: "/" }\n');
+    expect(off).toContain('+ @ (1.2) routes = { home: "/" }');
+  });
+
+  it('should accept a component predicate and turn components off', async () => {
+    project = await setupTestProject(files);
+    const predicate = serializeGraph(graph, project.projectDir, { heuristics: { components: (_node, source) => source.includes('split') } });
+    expect(predicate).toContain('+ ~ (1.1) Button(');
+    expect(predicate).toContain('+ ◇ (1.2) Parser');
+
+    const off = serializeGraph(graph, project.projectDir, { heuristics: { components: false } });
+    expect(off).toContain('+ ~ (1.1) Button(');
+    expect(off).toContain('+ ◇ (1.3) Config');
+  });
+
+  it('should apply extra impure patterns, pure module allow-lists and the purity toggle', async () => {
+    project = await setupTestProject(files);
+    const scn = serializeGraph(graph, project.projectDir, {
+      heuristics: { purity: { impurePatterns: ['logger.'], pureModules: ['date-fns'] } },
+    });
+
+    expect(scn).toContain('+ ~ (1.4) label(date: #(Date)) o');
+    expect(scn).toContain('+ ~ (1.5) persist(date: #(Date))\n');
+    expect(scn).toContain('+ ~ (1.6) audit(name: #(string))\n');
+
+    const off = serializeGraph(graph, project.projectDir, { heuristics: { purity: false } });
+    expect(off).not.toContain(' o');
+  });
+
+  it('should check the parsed bodies of methods and arrow functions when asked to', async () => {
+    project = await setupTestProject({
+      'src/math.ts': [
+        'export class Vector {',
+        '  length(x: number, y: number) {',
+        '    return Math.sqrt(',
+        '      x * x + y * y',
+        '    )',
+        '  }',
+        '  scale(x: number) {',
+        '    const factor = 2;',
+        '    return x * factor;',
+        '  }',
+        '}',
+        'export const double = (x: number) => x * 2;',
+        'export const describe = (x: number) => {',
+        '  return `${x}`;',
+        '};',
+        '// return 1;',
+      ].join('\n'),
+    });
+    const graph = createRankedGraph([
+      { id: 'math', type: 'file', name: 'math.ts', filePath: 'src/math.ts' },
+      { id: 'vector', type: 'class', name: 'Vector', filePath: 'src/math.ts', startLine: 1, endLine: 11 },
+      { id: 'length', type: 'method', name: 'Vector.length', filePath: 'src/math.ts', startLine: 2, endLine: 6, codeSnippet: 'length(x: number, y: number)' },
+      { id: 'scale', type: 'method', name: 'Vector.scale', filePath: 'src/math.ts', startLine: 7, endLine: 10, codeSnippet: 'scale(x: number)' },
+      { id: 'double', type: 'arrow_function', name: 'double', filePath: 'src/math.ts', startLine: 12, endLine: 12, codeSnippet: '(x: number) => x * 2' },
+      { id: 'describe', type: 'arrow_function', name: 'describe', filePath: 'src/math.ts', startLine: 13, endLine: 15, codeSnippet: '(x: number) =>' },
+      { id: 'comment', type: 'function', name: 'comment', filePath: 'src/math.ts', startLine: 16, endLine: 16 },
+    ], []);
+    // Only one-statement `export function` declarations are checked by default.
+    expect(serializeGraph(graph, project.projectDir)).not.toContain(' o\n');
+
+    const scn = serializeGraph(graph, project.projectDir, { heuristics: { purity: { parseBodies: true } } });
+
+    expect(scn).toContain('~ (1.2) length(x: #(number), y: #(number)) o\n');
+    expect(scn).toContain('~ (1.3) scale(x: #(number))\n');
+    expect(scn).toContain('~ (1.4) double(x: #(number)) o\n');
+    expect(scn).toContain('~ (1.5) describe(x: #(number)) o\n');
+    expect(scn).not.toContain('comment o');
+  });
+});
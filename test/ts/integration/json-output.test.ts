@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'bun:test';
+import { serializeGraph, serializeGraphToJson } from '../../../src/serializer';
+import { SCN_JSON_SCHEMA_VERSION } from '../../../src/scn-json';
+import { createRankedGraph } from '../../test.util';
+
+const graph = createRankedGraph([
+  { id: 'file-models', type: 'file', name: 'models.ts', filePath: 'models.ts' },
+  { id: 'models-user', type: 'interface', name: 'User', filePath: 'models.ts', visibility: 'public', startLine: 1, endLine: 3 },
+  { id: 'file-service', type: 'file', name: 'service.ts', filePath: 'service.ts' },
+  { id: 'service-class', type: 'class', name: 'UserService', filePath: 'service.ts', visibility: 'public', startLine: 3, endLine: 10 },
+  { id: 'service-load', type: 'method', name: 'UserService.load', filePath: 'service.ts', visibility: 'public', startLine: 4, endLine: 8, isAsync: true, canThrow: true, codeSnippet: 'async load(id: string): Promise<User>' },
+  { id: 'service-cache', type: 'property', name: 'UserService.cache', filePath: 'service.ts', visibility: 'private', startLine: 9, endLine: 9, codeSnippet: 'private cache: Map<string, User>;' },
+], [
+  { fromId: 'file-service', toId: 'file-models', type: 'imports' },
+  { fromId: 'service-load', toId: 'models-user', type: 'references' },
+], { 'models-user': 0.9, 'service-class': 0.5, 'service-load': 0.4, 'service-cache': 0.1 });
+
+describe('SCN Generation: JSON Output', () => {
+  it('should emit files, entities, qualifiers, signatures, children and links', () => {
+    const document = serializeGraphToJson(graph);
+
+    expect(document.schemaVersion).toBe(SCN_JSON_SCHEMA_VERSION);
+    expect(document.files.map(file => [file.id, file.path])).toEqual([['1', 'models.ts'], ['2', 'service.ts']]);
+    expect(document.files[1]).toEqual({
+      id: '2',
+      path: 'service.ts',
+      dependencies: [{ kind: 'id', id: '1.0' }],
+      callers: [],
+      entities: [{
+        id: '2.1',
+        symbol: '◇',
+        name: 'UserService',
+        access: '+',
+        qualifiers: [],
+        dependencies: [],
+        callers: [],
+        children: [
+          {
+            id: '2.2',
+            symbol: '~',
+            name: 'load',
+            access: '+',
+            qualifiers: ['...', '!'],
+            signature: '(id: #(string)): #(Promise<(1.1)>)',
+            dependencies: [{ kind: 'id', id: '1.1' }],
+            callers: [],
+            children: [],
+          },
+          {
+            id: '2.3',
+            symbol: '@',
+            name: 'cache',
+            access: '-',
+            qualifiers: [],
+            signature: ': #(Map<string, (1.1)>)',
+            dependencies: [],
+            callers: [],
+            children: [],
+          },
+        ],
+      }],
+    });
+    expect(document.omitted).toBeUndefined();
+  });
+
+  it('should leave out what the text format leaves out under a token budget', () => {
+    const text = serializeGraph(graph, undefined, { maxTokens: 50 });
+    const document = serializeGraphToJson(graph, undefined, { maxTokens: 50 });
+
+    const collectIds = (entities: typeof document.files[number]['entities']): string[] =>
+      entities.flatMap(entity => [entity.id, ...collectIds(entity.children)]);
+    const jsonIds = document.files.flatMap(file => [file.id, ...collectIds(file.entities)]);
+    const textIds = [...text.matchAll(/^\s*(?:§|[+-] \S+|[^\s<>-]+) \((\d+(?:\.\d+)?)\)/gm)].map(match => match[1]!);
+
+    expect(document.omitted).toBeDefined();
+    expect(text).toContain(`// Omitted ${document.omitted!.entities} entities`);
+    expect(jsonIds).toEqual(textIds);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { PassThrough } from 'stream';
+import { createScnLanguageServer, serveLanguageServer } from '../../../src/lsp';
+import { getSourceSpans, serializeGraph } from '../../../src/serializer';
+import { createRankedGraph, setupTestProject, type TestProject } from '../../test.util';
+
+const uri = 'file:///project/map.scn';
+
+const map = [
+  '§ (1) src/api.ts',
+  '  -> (2.0)',
+  '  + ~ (1.1) handle(sql: #(string))',
+  '    -> (2.2), (3.1)',
+  '',
+  '§ (2) src/db.ts',
+  '  <- (1.0)',
+  '  + ◇ (2.1) Database',
+  '    + ~ (2.2) query(sql: #(string))',
+  '      <- (1.1)',
+].join('\n');
+
+const createServer = (loadSources?: Parameters<typeof createScnLanguageServer>[1]) => {
+  const notifications: { method: string; params: any }[] = [];
+  const server = createScnLanguageServer((method, params) => notifications.push({ method, params }), loadSources);
+  const request = async (method: string, params: unknown) => (await server.handle({ jsonrpc: '2.0', id: 1, method, params }))!.result as any;
+  const open = (text: string) => server.handle({ jsonrpc: '2.0', method: 'textDocument/didOpen', params: { textDocument: { uri, languageId: 'scn', version: 1, text } } });
+  return { server, notifications, request, open };
+};
+
+const at = (line: number, character: number) => ({ textDocument: { uri }, position: { line, character } });
+const range = (line: number, start: number, end: number) => ({ start: { line, character: start }, end: { line, character: end } });
+
+describe('SCN Generation: Language Server', () => {
+  let project: TestProject | undefined;
+
+  afterEach(async () => {
+    if (project) {
+      await project.cleanup();
+      project = undefined;
+    }
+  });
+
+  it('should go to the declaration of an ID and find its references', async () => {
+    const { request, open } = createServer();
+    await open(map);
+
+    expect(await request('textDocument/definition', at(3, 8))).toEqual({ uri, range: range(8, 8, 13) });
+    expect(await request('textDocument/definition', at(1, 5))).toEqual({ uri, range: range(5, 2, 5) });
+    expect(await request('textDocument/definition', at(0, 0))).toBeNull();
+
+    expect(await request('textDocument/references', { ...at(8, 12), context: { includeDeclaration: true } })).toEqual([
+      { uri, range: range(3, 7, 12) },
+      { uri, range: range(8, 8, 13) },
+    ]);
+    expect(await request('textDocument/references', { ...at(6, 6), context: { includeDeclaration: false } })).toEqual([
+      { uri, range: range(6, 5, 10) },
+    ]);
+  });
+
+  it('should outline files and entities and report dangling IDs', async () => {
+    const { request, open, notifications } = createServer();
+    await open(map);
+
+    const symbols = await request('textDocument/documentSymbol', { textDocument: { uri } });
+    expect(symbols.map((symbol: any) => [symbol.name, symbol.kind, symbol.range.start.line, symbol.range.end.line])).toEqual([
+      ['src/api.ts', 1, 0, 3],
+      ['src/db.ts', 1, 5, 9],
+    ]);
+    const database = symbols[1].children[0];
+    expect([database.name, database.kind, database.detail, database.selectionRange]).toEqual(['Database', 5, '(2.1)', range(7, 6, 11)]);
+    expect(database.children.map((child: any) => [child.name, child.kind, child.detail])).toEqual([['query', 6, '(2.2) (sql: #(string))']]);
+
+    expect(notifications).toEqual([{
+      method: 'textDocument/publishDiagnostics',
+      params: { uri, diagnostics: [{ range: range(3, 14, 19), severity: 1, source: 'scn-ts', message: 'Dangling ID (3.1): no file or entity in this map declares it.' }] },
+    }]);
+  });
+
+  it('should treat IDs of other chunks as information and report syntax errors', async () => {
+    const { open, notifications } = createServer();
+    await open(`// Chunk 1 of 2. Links to IDs in chunk 2.\n${map}`);
+    expect(notifications[0]!.params.diagnostics.map((diagnostic: any) => [diagnostic.severity, diagnostic.message]))
+      .toEqual([[3, '(3.1) is declared in another chunk of the map.']]);
+
+    await open('  + ~ (1.1) orphan()');
+    expect(notifications[1]!.params.diagnostics).toEqual([
+      { range: range(0, 2, 20), severity: 1, source: 'scn-ts', message: 'Expected a § file declaration' },
+    ]);
+  });
+
+  it('should show the declaring line and its source on hover', async () => {
+    project = await setupTestProject({
+      'src/db.ts': 'export class Database {\n  query(sql: string) {\n    return sql;\n  }\n}\n',
+    });
+    const graph = createRankedGraph([
+      { id: 'file-db', type: 'file', name: 'db.ts', filePath: 'src/db.ts' },
+      { id: 'database', type: 'class', name: 'Database', filePath: 'src/db.ts', visibility: 'public', startLine: 1, endLine: 5 },
+      { id: 'query', type: 'method', name: 'Database.query', filePath: 'src/db.ts', visibility: 'public', startLine: 2, endLine: 4, codeSnippet: 'query(sql: string)' },
+    ], []);
+    const rootDir = project.projectDir;
+    const { request, open } = createServer(async () => ({ rootDir, spans: getSourceSpans(graph, rootDir) }));
+    await open(serializeGraph(graph, rootDir));
+
+    const hover = await request('textDocument/hover', at(2, 12));
+    expect(hover.contents.value).toBe([
+      '```scn\n+ ~ (1.2) query(sql: #(string))\n```',
+      'src/db.ts:2-4',
+      '```ts\n  query(sql: string) {\n    return sql;\n  }\n```',
+    ].join('\n\n'));
+    expect((await request('textDocument/hover', at(0, 3))).contents.value).toBe('```scn\n§ (1) src/db.ts\n```\n\nsrc/db.ts');
+  });
+
+  it('should speak Content-Length framed JSON-RPC over stdio until exit', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const chunks: string[] = [];
+    output.on('data', chunk => chunks.push(String(chunk)));
+    const done = serveLanguageServer(undefined, input, output);
+    const send = (message: object) => {
+      const body = JSON.stringify({ jsonrpc: '2.0', ...message });
+      input.write(`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`);
+    };
+
+    send({ id: 1, method: 'initialize', params: { capabilities: {} } });
+    send({ method: 'textDocument/didOpen', params: { textDocument: { uri, text: '§ (1) src/ü.ts\n  -> (1.0)' } } });
+    send({ id: 2, method: 'textDocument/definition', params: at(1, 6) });
+    send({ id: 3, method: 'shutdown' });
+    send({ method: 'exit' });
+    await done;
+
+    const messages = chunks.join('').split(/Content-Length: \d+\r\n\r\n/).filter(Boolean).map(body => JSON.parse(body));
+    expect(messages.map(message => message.id ?? message.method)).toEqual([1, 'textDocument/publishDiagnostics', 2, 3]);
+    expect(messages[0].result.capabilities).toMatchObject({ definitionProvider: true, hoverProvider: true });
+    expect(messages[2].result).toEqual({ uri, range: range(0, 2, 5) });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { join } from 'path';
+import { serializeGraph } from '../../../src/serializer';
+import { addResolvedImportEdges, createModuleResolver } from '../../../src/module-resolver';
+import { createRankedGraph, setupTestProject, type TestProject } from '../../test.util';
+
+const files = {
+  'tsconfig.json': JSON.stringify({
+    compilerOptions: {
+      module: 'ESNext',
+      moduleResolution: 'bundler',
+      baseUrl: '.',
+      paths: { '@app/*': ['src/*'], '~/*': ['src/*'] },
+    },
+  }),
+  'src/main.ts': [
+    "import { format } from '@app/utils';",
+    "import { Button } from '~/components/Button';",
+    "import { shared } from '@acme/shared';",
+    "import { parse } from '@acme/shared/parser';",
+    "import { legacy } from '@app/legacy';",
+    "import { z } from 'zod';",
+  ].join('\n'),
+  'src/utils.ts': 'export const format = () => "";',
+  'src/components/Button.ts': 'export const Button = {};',
+  'src/legacy.ts': 'export const legacy = 1;',
+  'packages/shared/package.json': JSON.stringify({
+    name: '@acme/shared',
+    exports: {
+      '.': { types: './dist/index.d.ts', import: './dist/index.js' },
+      './parser': './src/parser.ts',
+    },
+  }),
+  'packages/shared/src/index.ts': 'export const shared = 1;',
+  'packages/shared/src/parser.ts': 'export const parse = () => 1;',
+};
+
+// `src/legacy.ts` is left out of the map, as if excluded by the include globs.
+const graph = createRankedGraph([
+  { id: 'main', type: 'file', name: 'main.ts', filePath: 'src/main.ts' },
+  { id: 'utils', type: 'file', name: 'utils.ts', filePath: 'src/utils.ts' },
+  { id: 'button', type: 'file', name: 'Button.ts', filePath: 'src/components/Button.ts' },
+  { id: 'shared', type: 'file', name: 'index.ts', filePath: 'packages/shared/src/index.ts' },
+  { id: 'parser', type: 'file', name: 'parser.ts', filePath: 'packages/shared/src/parser.ts' },
+], []);
+
+describe('SCN Generation: Module Resolution', () => {
+  let project: TestProject | undefined;
+
+  afterEach(async () => {
+    if (project) {
+      await project.cleanup();
+      project = undefined;
+    }
+  });
+
+  it('should resolve tsconfig paths aliases and workspace package exports', async () => {
+    project = await setupTestProject(files);
+    const filePaths = [...graph.nodes.values()].map(node => node.filePath);
+    const resolveModule = createModuleResolver(join(project.projectDir, 'tsconfig.json'), project.projectDir, filePaths);
+
+    expect(resolveModule('@app/utils', 'src/main.ts')).toBe('src/utils.ts');
+    expect(resolveModule('@acme/shared', 'src/main.ts')).toBe('packages/shared/src/index.ts');
+    expect(resolveModule('zod', 'src/main.ts')).toBeUndefined();
+
+    const scn = serializeGraph(addResolvedImportEdges(graph, resolveModule, project.projectDir), project.projectDir, { resolveModule });
+
+    // Files: shared/src/index.ts (1), shared/src/parser.ts (2), Button.ts (3), main.ts (4), utils.ts (5)
+    expect(scn).toContain('§ (4) src/main.ts\n  -> (1.0), (2.0), (3.0), (5.0), (src/legacy.ts), (zod)');
+    expect(scn).toContain('§ (1) packages/shared/src/index.ts\n  <- (4.0)');
+    expect(scn).toContain('§ (3) src/components/Button.ts\n  <- (4.0)');
+  });
+
+  it('should not add edges for imports mentioned in comments or strings', async () => {
+    project = await setupTestProject({
+      ...files,
+      'src/main.ts': [
+        "// import { format } from '@app/utils';",
+        "/* const { Button } = require('~/components/Button'); */",
+        'export const hint = "load it with import(\'@acme/shared\')";',
+        "export const template = `import { parse } from '@acme/shared/parser';`;",
+      ].join('\n'),
+    });
+    const filePaths = [...graph.nodes.values()].map(node => node.filePath);
+    const resolveModule = createModuleResolver(join(project.projectDir, 'tsconfig.json'), project.projectDir, filePaths);
+
+    const resolved = addResolvedImportEdges(graph, resolveModule, project.projectDir);
+    expect(resolved.edges).toEqual([]);
+  });
+});
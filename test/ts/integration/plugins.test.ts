@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'bun:test';
+import type { CodeNode } from 'repograph';
+import { serializeGraph, serializeGraphToJson } from '../../../src/serializer';
+import { augmentGraph, validatePlugins, type ScnPlugin } from '../../../src/plugin';
+import { parseScn } from '../../../src/parser';
+import { createRankedGraph } from '../../test.util';
+
+const graph = createRankedGraph([
+  { id: 'routes', type: 'file', name: 'users.ts', filePath: 'src/routes/users.ts' },
+  { id: 'routes-loader', type: 'function', name: 'loader', filePath: 'src/routes/users.ts', startLine: 1, endLine: 3, codeSnippet: 'export function loader(request: Request)' },
+  { id: 'container', type: 'file', name: 'container.ts', filePath: 'src/container.ts' },
+  { id: 'container-db', type: 'variable', name: 'db', filePath: 'src/container.ts', startLine: 1, endLine: 1, codeSnippet: 'export const db = register(Database)' },
+], []);
+
+/** Treats the loaders and actions in `src/routes/` as route handlers, labelled with their URL. */
+const isRouteHandler = (node: CodeNode) => node.filePath.startsWith('src/routes/') && ['loader', 'action'].includes(node.name);
+const routesPlugin: ScnPlugin = {
+  name: 'routes',
+  symbol: (node, symbol) => isRouteHandler(node) ? '@' : symbol,
+  signature: (node, signature) => isRouteHandler(node)
+    ? `${signature} /${node.filePath.slice('src/routes/'.length, -'.ts'.length)}`
+    : undefined,
+};
+
+/** Links the loader to the DI registration it resolves, and labels the container file. */
+const containerPlugin: ScnPlugin = {
+  name: 'container',
+  augmentGraph: current => ({
+    ...current,
+    edges: [...current.edges, { fromId: 'routes-loader', toId: 'container-db', type: 'references' }],
+  }),
+  transformFile: file => file.path === 'src/container.ts'
+    ? { ...file, entities: file.entities.map(entity => ({ ...entity, qualifiers: [...entity.qualifiers, 'o' as const] })) }
+    : file,
+  formatFile: (text, file) => file.path === 'src/container.ts' ? `// DI container\n${text}` : text,
+};
+
+describe('SCN Generation: Plugins', () => {
+  it('should let plugins add edges and override symbols, signatures and file output', async () => {
+    const augmented = await augmentGraph(graph, [routesPlugin, containerPlugin], '/project');
+    const scn = serializeGraph(augmented, undefined, { plugins: [routesPlugin, containerPlugin] });
+
+    expect(scn).toBe([
+      '// DI container\n§ (1) src/container.ts\n  @ (1.1) db = register(Database) o\n    <- (2.1)',
+      '§ (2) src/routes/users.ts\n  @ (2.1) loader(request: #(Request)) /users\n    -> (1.1)',
+    ].join('\n\n'));
+    expect(parseScn(scn).files).toHaveLength(2);
+
+    const json = serializeGraphToJson(augmented, undefined, { plugins: [routesPlugin, containerPlugin] });
+    expect(json.files[1]!.entities[0]).toMatchObject({ symbol: '@', signature: '(request: #(Request)) /users' });
+    expect(json.files[0]!.entities[0]!.qualifiers).toEqual(['o']);
+  });
+
+  it('should rank added nodes and name the plugin whose hook failed', async () => {
+    const augmented = await augmentGraph(graph, [{
+      name: 'extra',
+      augmentGraph: current => ({
+        ...current,
+        nodes: new Map([...current.nodes, ['routes-action', { id: 'routes-action', type: 'function', name: 'action', filePath: 'src/routes/users.ts', startLine: 5, endLine: 7 }]]),
+      }),
+    }], '/project');
+    expect(augmented.ranks.get('routes-action')).toBe(0);
+    expect(serializeGraph(augmented)).toContain('~ (2.2) action');
+
+    const failing: ScnPlugin = { name: 'broken', symbol: () => { throw new Error('boom'); } };
+    expect(() => serializeGraph(graph, undefined, { plugins: [failing] })).toThrow("Plugin 'broken' failed in symbol: boom");
+    expect(() => validatePlugins([{ name: 'typo', signature: 'x' }])).toThrow('"signature" must be a function');
+    expect(() => validatePlugins({})).toThrow('must be an array');
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { join } from 'path';
+import { serializeGraph } from '../../../src/serializer';
+import { collectPublicApi, readPackageEntryPoints } from '../../../src/public-api';
+import { createRankedGraph, setupTestProject, type TestProject } from '../../test.util';
+
+const files = {
+  'package.json': JSON.stringify({
+    name: '@acme/lib',
+    exports: {
+      '.': { types: './dist/index.d.ts', import: './dist/index.js' },
+      './parser': './src/parser.ts',
+      './internal/*': null,
+    },
+  }),
+  'src/index.ts': [
+    "export { login } from './auth';",
+    "export * as format from './format';",
+  ].join('\n'),
+  'src/auth.ts': [
+    'export function login(user: string) {',
+    '  return hash(user);',
+    '}',
+    '',
+    'export function hash(value: string) {',
+    '  return value;',
+    '}',
+  ].join('\n'),
+  'src/format.ts': 'export const pad = (value: string) => value;',
+  'src/parser.ts': [
+    'export class Parser {',
+    '  parse(text: string) { return this.tokenize(text); }',
+    '  private tokenize(text: string) { return text; }',
+    '}',
+    '',
+    "export { login as authenticate } from './auth';",
+  ].join('\n'),
+  'src/internal.ts': 'export const secret = 1;',
+};
+
+const graph = createRankedGraph([
+  { id: 'file-auth', type: 'file', name: 'auth.ts', filePath: 'src/auth.ts' },
+  { id: 'auth-login', type: 'function', name: 'login', filePath: 'src/auth.ts', startLine: 1, endLine: 3, codeSnippet: 'export function login(user: string)' },
+  { id: 'auth-hash', type: 'function', name: 'hash', filePath: 'src/auth.ts', startLine: 5, endLine: 7, codeSnippet: 'export function hash(value: string)' },
+  { id: 'file-format', type: 'file', name: 'format.ts', filePath: 'src/format.ts' },
+  { id: 'format-pad', type: 'arrow_function', name: 'pad', filePath: 'src/format.ts', startLine: 1, endLine: 1, codeSnippet: 'export const pad = (value: string) => value;' },
+  { id: 'file-index', type: 'file', name: 'index.ts', filePath: 'src/index.ts' },
+  { id: 'file-internal', type: 'file', name: 'internal.ts', filePath: 'src/internal.ts' },
+  { id: 'internal-secret', type: 'constant', name: 'secret', filePath: 'src/internal.ts', startLine: 1, endLine: 1, codeSnippet: 'export const secret = 1;' },
+  { id: 'file-parser', type: 'file', name: 'parser.ts', filePath: 'src/parser.ts' },
+  { id: 'parser-class', type: 'class', name: 'Parser', filePath: 'src/parser.ts', startLine: 1, endLine: 4 },
+  { id: 'parser-parse', type: 'method', name: 'Parser.parse', filePath: 'src/parser.ts', startLine: 2, endLine: 2, codeSnippet: 'parse(text: string)' },
+  { id: 'parser-tokenize', type: 'method', name: 'Parser.tokenize', filePath: 'src/parser.ts', startLine: 3, endLine: 3, codeSnippet: 'private tokenize(text: string)' },
+], [
+  { fromId: 'file-index', toId: 'file-auth', type: 'imports' },
+  { fromId: 'file-index', toId: 'file-format', type: 'imports' },
+  { fromId: 'auth-login', toId: 'auth-hash', type: 'calls' },
+]);
+
+describe('SCN Generation: Public API', () => {
+  let project: TestProject | undefined;
+
+  afterEach(async () => {
+    if (project) {
+      await project.cleanup();
+      project = undefined;
+    }
+  });
+
+  it('should read entry points from package.json exports, mapping built files to sources', async () => {
+    project = await setupTestProject(files);
+    const entryPoints = readPackageEntryPoints(project.projectDir);
+
+    expect(entryPoints).toEqual([
+      { specifier: '@acme/lib', filePath: join(project.projectDir, 'src/index.ts') },
+      { specifier: '@acme/lib/parser', filePath: join(project.projectDir, 'src/parser.ts') },
+    ]);
+  });
+
+  it('should emit only entities reachable from the entry points, labelled with their public paths', async () => {
+    project = await setupTestProject(files);
+    const publicApi = collectPublicApi(graph, project.projectDir, readPackageEntryPoints(project.projectDir));
+    const scn = serializeGraph(graph, project.projectDir, { publicApi });
+
+    expect(publicApi.get('auth-login')).toEqual(['@acme/lib#login', '@acme/lib/parser#authenticate']);
+    expect(scn).toContain('+ ~ (1.1) login(user: #(string)) o // exported as @acme/lib#login, @acme/lib/parser#authenticate');
+    expect(scn).toContain('+ ~ (2.1) pad(value: #(string)) // exported as @acme/lib#format.pad');
+    expect(scn).toContain('+ ◇ (5.1) Parser // exported as @acme/lib/parser#Parser\n    + ~ (5.2) parse(text: #(string))');
+    // Exported from its module, but not re-exported by any entry point.
+    expect(scn).not.toContain('hash');
+    expect(scn).not.toContain('tokenize');
+    // Files without public entities are left out.
+    expect(scn).not.toContain('src/index.ts');
+    expect(scn).not.toContain('src/internal.ts');
+  });
+});
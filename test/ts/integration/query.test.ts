@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'bun:test';
+import { runQuery, ScnQueryError } from '../../../src/query';
+import { serializeGraphQuery, serializeGraphToJson, type CodeEdge } from '../../../src/serializer';
+import { createRankedGraph, type TestNode } from '../../test.util';
+
+const nodes: TestNode[] = [
+  { id: 'file-db', type: 'file', name: 'db.ts', filePath: 'src/db.ts' },
+  { id: 'connect', type: 'function', name: 'connect', filePath: 'src/db.ts', visibility: 'public', isAsync: true, canThrow: true, codeSnippet: 'async function connect()' },
+  { id: 'file-auth', type: 'file', name: 'auth.ts', filePath: 'src/auth.ts' },
+  { id: 'auth', type: 'class', name: 'AuthService', filePath: 'src/auth.ts', visibility: 'public', startLine: 1, endLine: 10 },
+  { id: 'login', type: 'method', name: 'AuthService.login', filePath: 'src/auth.ts', visibility: 'public', startLine: 2, endLine: 4, isAsync: true, codeSnippet: 'async login(user: string)' },
+  { id: 'file-api', type: 'file', name: 'routes.ts', filePath: 'src/api/routes.ts' },
+  { id: 'route', type: 'function', name: 'loginRoute', filePath: 'src/api/routes.ts', visibility: 'public', isAsync: true, canThrow: true, codeSnippet: 'async function loginRoute()' },
+  { id: 'format', type: 'function', name: 'format', filePath: 'src/api/routes.ts', visibility: 'public', codeSnippet: 'function format()' },
+];
+const edges: CodeEdge[] = [
+  { fromId: 'file-auth', toId: 'file-db', type: 'imports' },
+  { fromId: 'file-api', toId: 'file-auth', type: 'imports' },
+  { fromId: 'login', toId: 'connect', type: 'calls' },
+  { fromId: 'route', toId: 'login', type: 'calls' },
+];
+
+const graph = createRankedGraph(nodes, edges);
+const files = serializeGraphToJson(graph).files;
+const ids = (query: string) => runQuery(files, query).ids;
+const idOf = (path: string, name?: string) => {
+  const file = files.find(candidate => candidate.path === path)!;
+  return name === undefined ? `${file.id}.0` : file.entities.flatMap(entity => [entity, ...entity.children]).find(entity => entity.name === name.split('.').pop())!.id;
+};
+
+describe('SCN Generation: Query', () => {
+  it('should find callers and dependencies, directly or transitively', () => {
+    expect(ids('callers of `AuthService.login`')).toEqual([idOf('src/api/routes.ts', 'loginRoute')]);
+    expect(ids('callers of connect transitively').sort()).toEqual([idOf('src/auth.ts', 'login'), idOf('src/api/routes.ts', 'loginRoute')].sort());
+    expect(ids(`dependencies of (${idOf('src/auth.ts', 'login')})`)).toEqual([idOf('src/db.ts', 'connect')]);
+    expect(ids('callers of src/auth.ts#AuthService.login')).toEqual(ids('callers of login'));
+  });
+
+  it('should follow imports between files', () => {
+    expect(ids('files importing `src/db.ts`')).toEqual([idOf('src/auth.ts')]);
+    expect(ids('files importing `src/db.ts` transitively').sort()).toEqual([idOf('src/auth.ts'), idOf('src/api/routes.ts')].sort());
+    expect(ids('files imported by src/api/routes.ts transitively').sort()).toEqual([idOf('src/auth.ts'), idOf('src/db.ts')].sort());
+  });
+
+  it('should filter entities by kind, qualifiers and path', () => {
+    expect(ids('async functions that throw in `src/api/**`')).toEqual([idOf('src/api/routes.ts', 'loginRoute')]);
+    expect(ids('async throwing functions').sort()).toEqual([idOf('src/db.ts', 'connect'), idOf('src/api/routes.ts', 'loginRoute')].sort());
+    expect(ids('classes')).toEqual([idOf('src/auth.ts', 'AuthService')]);
+    expect(ids('files in src/api/**')).toEqual([idOf('src/api/routes.ts')]);
+  });
+
+  it('should find the shortest path between two entities', () => {
+    const result = runQuery(files, 'path from loginRoute to connect');
+    expect(result.path).toEqual([idOf('src/api/routes.ts', 'loginRoute'), idOf('src/auth.ts', 'login'), idOf('src/db.ts', 'connect')]);
+    expect(runQuery(files, 'path from connect to loginRoute').path).toEqual([]);
+  });
+
+  it('should print matches as a pruned SCN fragment', () => {
+    const { scn, result } = serializeGraphQuery(graph, undefined, {}, 'callers of login');
+    expect(result.files.map(file => file.path)).toEqual(['src/api/routes.ts']);
+    expect(scn).toContain('loginRoute()');
+    expect(scn).not.toContain('format()');
+    expect(scn).not.toContain('src/db.ts');
+
+    const path = serializeGraphQuery(graph, undefined, {}, 'path from loginRoute to connect').scn;
+    expect(path).toStartWith(`// path: (${idOf('src/api/routes.ts', 'loginRoute')}) -> (${idOf('src/auth.ts', 'login')}) -> (${idOf('src/db.ts', 'connect')})\n`);
+  });
+
+  it('should reject malformed queries and unknown targets', () => {
+    expect(() => runQuery(files, 'callers of missing')).toThrow(ScnQueryError);
+    expect(() => runQuery(files, 'who calls login')).toThrow(/Unknown query/);
+    expect(() => runQuery(files, 'functions transitively')).toThrow(ScnQueryError);
+    expect(() => runQuery(files, 'async files')).toThrow(ScnQueryError);
+  });
+});
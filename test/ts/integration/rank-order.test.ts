@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'bun:test';
+import { serializeGraph, serializeGraphToJson } from '../../../src/serializer';
+import { parseScn } from '../../../src/parser';
+import type { ScnIdLock } from '../../../src/id-lock';
+import { createRankedGraph } from '../../test.util';
+
+const graph = createRankedGraph([
+  { id: 'file-api', type: 'file', name: 'api.ts', filePath: 'api.ts' },
+  { id: 'api-debug', type: 'function', name: 'debugDump', filePath: 'api.ts', visibility: 'public', startLine: 1, endLine: 3, codeSnippet: 'function debugDump()' },
+  { id: 'api-handler', type: 'function', name: 'handleRequest', filePath: 'api.ts', visibility: 'public', startLine: 5, endLine: 9, codeSnippet: 'function handleRequest()' },
+  { id: 'file-core', type: 'file', name: 'core.ts', filePath: 'core.ts' },
+  { id: 'core-db', type: 'class', name: 'Database', filePath: 'core.ts', visibility: 'public', startLine: 1, endLine: 10 },
+  { id: 'core-close', type: 'method', name: 'Database.close', filePath: 'core.ts', visibility: 'public', startLine: 2, endLine: 4, codeSnippet: 'close()' },
+  { id: 'core-query', type: 'method', name: 'Database.query', filePath: 'core.ts', visibility: 'public', startLine: 5, endLine: 7, codeSnippet: 'query()' },
+  { id: 'core-config', type: 'variable', name: 'config', filePath: 'core.ts', visibility: 'public', startLine: 12, endLine: 12 },
+  { id: 'file-legacy', type: 'file', name: 'legacy.ts', filePath: 'legacy.ts' },
+], [
+  { fromId: 'file-api', toId: 'file-core', type: 'imports' },
+  { fromId: 'api-handler', toId: 'core-query', type: 'calls' },
+], {
+  'file-core': 0.5, 'core-db': 0.2, 'core-close': 0.05, 'core-query': 0.35, 'core-config': 0.3,
+  'file-api': 0.2, 'api-handler': 0.3, 'api-debug': 0.01,
+  'file-legacy': 0,
+});
+
+describe('SCN Generation: Rank Order', () => {
+  it('should emit files and top-level entities by rank, numbering them in that order', () => {
+    const scn = serializeGraph(graph, undefined, { order: 'rank' });
+
+    expect(scn).toBe([
+      '§ (1) core.ts\n  <- (2.0)\n  + @ (1.1) config\n  + ◇ (1.2) Database\n    + ~ (1.3) close()\n    + ~ (1.4) query()\n      <- (2.1)',
+      '§ (2) api.ts\n  -> (1.0)\n  + ~ (2.1) handleRequest()\n    -> (1.4)\n  + ~ (2.2) debugDump()',
+      '§ (3) legacy.ts',
+    ].join('\n\n'));
+    expect(serializeGraph(graph)).toStartWith('§ (1) api.ts\n  -> (2.0)\n  + ~ (1.1) debugDump()');
+  });
+
+  it('should keep locked IDs when ordering by rank', () => {
+    const idLock: ScnIdLock = { version: 1, nextFileId: 4, files: {
+      'api.ts': { id: 1, nextEntityId: 3, entities: { debugDump: 1, handleRequest: 2 } },
+      'core.ts': { id: 2, nextEntityId: 5, entities: { Database: 1, 'Database.close': 2, 'Database.query': 3, config: 4 } },
+      'legacy.ts': { id: 3, nextEntityId: 1, entities: {} },
+    } };
+    const scn = serializeGraph(graph, undefined, { order: 'rank', idLock });
+
+    expect(parseScn(scn).files.map(file => `${file.id} ${file.path}`)).toEqual(['2 core.ts', '1 api.ts', '3 legacy.ts']);
+    expect(scn).toContain('§ (1) api.ts\n  -> (2.0)\n  + ~ (1.2) handleRequest()\n    -> (2.3)\n  + ~ (1.1) debugDump()');
+  });
+
+  it('should annotate file headers with their normalized importance', () => {
+    const scn = serializeGraph(graph, undefined, { importance: true });
+
+    expect(scn).toContain('§ (1) api.ts // importance 0.40\n  -> (2.0)');
+    expect(scn).toContain('§ (2) core.ts // importance 1.00');
+    expect(scn).toContain('§ (3) legacy.ts // importance 0.00');
+    expect(parseScn(scn).files.map(file => file.comment)).toEqual(['importance 0.40', 'importance 1.00', 'importance 0.00']);
+    expect(serializeGraphToJson(graph, undefined, { importance: true }).files.map(file => file.importance)).toEqual([0.4, 1, 0]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'bun:test';
+import { PassThrough } from 'stream';
+import { createScnServer, serveStdio, type ScnProjectSnapshot } from '../../../src/server';
+import { serializeGraph, type CodeEdge } from '../../../src/serializer';
+import { createRankedGraph, type TestNode } from '../../test.util';
+
+const nodes: TestNode[] = [
+  { id: 'file-db', type: 'file', name: 'db.ts', filePath: 'src/db.ts' },
+  { id: 'database', type: 'class', name: 'Database', filePath: 'src/db.ts', visibility: 'public', startLine: 1, endLine: 10 },
+  { id: 'query', type: 'method', name: 'Database.query', filePath: 'src/db.ts', visibility: 'public', startLine: 2, endLine: 4, codeSnippet: 'query(sql: string)' },
+  { id: 'file-api', type: 'file', name: 'api.ts', filePath: 'src/api.ts' },
+  { id: 'handle', type: 'function', name: 'handle', filePath: 'src/api.ts', visibility: 'public', startLine: 1, endLine: 3, codeSnippet: 'function handle(sql: string)' },
+  { id: 'file-log', type: 'file', name: 'log.ts', filePath: 'src/log.ts' },
+];
+const edges: CodeEdge[] = [
+  { fromId: 'file-api', toId: 'file-db', type: 'imports' },
+  { fromId: 'handle', toId: 'query', type: 'calls' },
+];
+
+const createServer = () => {
+  const snapshots: ScnProjectSnapshot[] = [
+    { graph: createRankedGraph(nodes, edges), options: {} },
+    { graph: createRankedGraph([...nodes, { id: 'close', type: 'method', name: 'Database.close', filePath: 'src/db.ts', visibility: 'public', startLine: 5, endLine: 6, codeSnippet: 'close()' }], edges), options: {} },
+  ];
+  let loads = 0;
+  return createScnServer(async () => snapshots[Math.min(loads++, snapshots.length - 1)]!);
+};
+
+const callTool = async (server: ReturnType<typeof createScnServer>, name: string, args: Record<string, unknown> = {}) => {
+  const response = await server.handle({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } });
+  return response!.result as { content: { type: string; text: string }[]; isError?: boolean };
+};
+
+describe('SCN Generation: MCP Server', () => {
+  it('should negotiate the protocol and list its tools', async () => {
+    const server = createServer();
+    const init = await server.handle({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2024-11-05', capabilities: {} } });
+    expect(init).toMatchObject({ jsonrpc: '2.0', id: 1, result: { protocolVersion: '2024-11-05', capabilities: { tools: {} }, serverInfo: { name: 'scn-ts' } } });
+    expect(await server.handle({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeUndefined();
+
+    const list = await server.handle({ jsonrpc: '2.0', id: 'tools', method: 'tools/list' });
+    expect((list!.result as { tools: { name: string }[] }).tools.map(tool => tool.name)).toEqual(['get_map', 'get_file_map', 'find_entity', 'get_links', 'reanalyze']);
+    expect(await server.handle({ jsonrpc: '2.0', id: 2, method: 'resources/list' })).toMatchObject({ error: { code: -32601 } });
+  });
+
+  it('should return the whole map and the map of some files with global IDs', async () => {
+    const server = createServer();
+    expect((await callTool(server, 'get_map')).content[0]!.text).toBe(serializeGraph(createRankedGraph(nodes, edges)));
+
+    const fileMap = (await callTool(server, 'get_file_map', { files: ['src/api.ts'] })).content[0]!.text;
+    expect(fileMap).toContain('§ (1) src/api.ts\n  -> (2.0)\n  + ~ (1.1) handle(sql: #(string))\n    -> (2.2)');
+    expect(fileMap).not.toContain('src/log.ts');
+
+    const unknown = await callTool(server, 'get_file_map', { files: ['src/missing.ts'] });
+    expect(unknown.isError).toBe(true);
+    expect(unknown.content[0]!.text).toContain("'src/missing.ts'");
+  });
+
+  it('should find entities by name and describe the links of an ID', async () => {
+    const server = createServer();
+    expect((await callTool(server, 'find_entity', { name: 'query' })).content[0]!.text).toBe('(2.2) ~ Database.query(sql: #(string)) in src/db.ts');
+    expect((await callTool(server, 'find_entity', { name: 'data' })).content[0]!.text).toBe('(2.1) ◇ Database in src/db.ts\n(2.2) ~ Database.query(sql: #(string)) in src/db.ts');
+
+    expect((await callTool(server, 'get_links', { id: '(2.2)' })).content[0]!.text).toBe([
+      '(2.2) ~ Database.query(sql: #(string)) in src/db.ts',
+      'Dependencies (->):',
+      '  (none)',
+      'Callers (<-):',
+      '  (1.1) ~ handle(sql: #(string)) in src/api.ts',
+    ].join('\n'));
+    expect((await callTool(server, 'get_links', { id: '1' })).content[0]!.text).toStartWith('(1.0) § src/api.ts\nDependencies (->):\n  (2.0) § src/db.ts');
+    expect((await callTool(server, 'get_links', { id: '9.9' })).isError).toBe(true);
+    expect(await server.handle({ jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'get_links', arguments: {} } })).toMatchObject({ error: { code: -32602 } });
+  });
+
+  it('should re-analyze and summarize what changed', async () => {
+    const server = createServer();
+    expect((await callTool(server, 'reanalyze')).content[0]!.text).toBe('Re-analyzed 3 files. 1 added, 0 removed, 0 changed\n  + src/db.ts#Database.close');
+    expect((await callTool(server, 'get_map')).content[0]!.text).toContain('close()');
+  });
+
+  it('should answer newline-delimited messages over stdio in order', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const chunks: string[] = [];
+    output.on('data', chunk => chunks.push(String(chunk)));
+    const done = serveStdio(async () => ({ graph: createRankedGraph(nodes, edges), options: {} }), input, output);
+
+    input.write('{"jsonrpc":"2.0","id":1,"method":"ping"}\n');
+    input.write('not json\n');
+    input.end('{"jsonrpc":"2.0","id":2,"method":"tools/call","params":{"name":"find_entity","arguments":{"name":"handle"}}}\n');
+    await done;
+
+    const responses = chunks.join('').trim().split('\n').map(line => JSON.parse(line));
+    expect(responses).toEqual([
+      { jsonrpc: '2.0', id: 1, result: {} },
+      { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error.' } },
+      { jsonrpc: '2.0', id: 2, result: { content: [{ type: 'text', text: '(1.1) ~ handle(sql: #(string)) in src/api.ts' }] } },
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'bun:test';
+import { serializeGraph, serializeGraphToChunks } from '../../../src/serializer';
+import { parseScn } from '../../../src/parser';
+import { estimateTokens } from '../../../src/tokens';
+import { createRankedGraph, type TestNode } from '../../test.util';
+
+const fileNodes = (name: string, functions: string[]): TestNode[] => [
+  { id: `file-${name}`, type: 'file', name: `${name}.ts`, filePath: `${name}.ts` },
+  ...functions.map((fn, index) => ({
+    id: `${name}-${fn}`, type: 'function' as const, name: fn, filePath: `${name}.ts`,
+    startLine: index * 3 + 1, endLine: index * 3 + 2, codeSnippet: `function ${fn}()`,
+  })),
+];
+
+const graph = createRankedGraph([
+  ...fileNodes('a', ['alpha', 'alphaHelper']),
+  ...fileNodes('b', ['beta', 'betaHelper']),
+  ...fileNodes('c', ['gamma', 'gammaHelper']),
+  ...fileNodes('d', ['delta', 'deltaHelper']),
+], [
+  { fromId: 'file-a', toId: 'file-c', type: 'imports' },
+  { fromId: 'a-alpha', toId: 'c-gamma', type: 'calls' },
+  { fromId: 'file-b', toId: 'file-d', type: 'imports' },
+  { fromId: 'b-beta', toId: 'd-delta', type: 'calls' },
+]);
+
+describe('SCN Generation: Split Output', () => {
+  it('should group linked files into chunks within the token limit', () => {
+    const whole = serializeGraph(graph);
+    const chunks = serializeGraphToChunks(graph, undefined, {}, { maxTokens: Math.ceil(estimateTokens(whole) / 2) + 10 });
+
+    expect(chunks.map(chunk => chunk.files)).toEqual([['a.ts', 'c.ts'], ['b.ts', 'd.ts']]);
+    expect(chunks.map(chunk => chunk.references)).toEqual([[], []]);
+    expect(chunks[0]!.text).toStartWith('// Chunk 1 of 2.\n§ (1) a.ts\n  -> (3.0)');
+    for (const chunk of chunks) expect(estimateTokens(chunk.text)).toBeLessThanOrEqual(Math.ceil(estimateTokens(whole) / 2) + 10);
+  });
+
+  it('should keep global IDs and name the chunks that hold linked IDs', () => {
+    const whole = serializeGraph(graph);
+    const fileSize = Math.max(...whole.split('\n\n').map(file => Buffer.byteLength(file, 'utf-8')));
+    const chunks = serializeGraphToChunks(graph, undefined, {}, { maxBytes: fileSize + 50 });
+
+    expect(chunks.map(chunk => chunk.files)).toEqual([['a.ts'], ['b.ts'], ['c.ts'], ['d.ts']]);
+    expect(chunks.map(chunk => chunk.references)).toEqual([[3], [4], [1], [2]]);
+    expect(chunks[0]!.text.split('\n')[0]).toBe('// Chunk 1 of 4. Links to IDs in chunk 3.');
+    for (const chunk of chunks) expect(Buffer.byteLength(chunk.text, 'utf-8')).toBeLessThanOrEqual(fileSize + 50);
+
+    const rejoined = chunks.map(chunk => chunk.text.slice(chunk.text.indexOf('\n') + 1)).join('\n\n');
+    expect(rejoined.split('\n\n').sort()).toEqual(whole.split('\n\n').sort());
+    expect(parseScn(chunks.map(chunk => chunk.text).join('\n\n')).files.map(file => file.id)).toEqual(['1', '2', '3', '4']);
+  });
+
+  it('should give a file larger than the limit a chunk of its own', () => {
+    const chunks = serializeGraphToChunks(graph, undefined, {}, { maxTokens: 1 });
+
+    expect(chunks.map(chunk => chunk.files)).toEqual([['a.ts'], ['b.ts'], ['c.ts'], ['d.ts']]);
+    expect(serializeGraphToChunks(createRankedGraph([], []), undefined, {}, { maxTokens: 100 })).toEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { join } from 'path';
+import { serializeGraph } from '../../../src/serializer';
+import { readIdLock, updateIdLock, writeIdLock } from '../../../src/id-lock';
+import { createRankedGraph, setupTestProject, type TestNode, type TestProject } from '../../test.util';
+
+const baseNodes: TestNode[] = [
+  { id: 'file-b', type: 'file', name: 'b.ts', filePath: 'b.ts' },
+  { id: 'b-first', type: 'function', name: 'first', filePath: 'b.ts', visibility: 'public', startLine: 1, endLine: 2, codeSnippet: 'function first()' },
+  { id: 'b-second', type: 'function', name: 'second', filePath: 'b.ts', visibility: 'public', startLine: 4, endLine: 5, codeSnippet: 'function second()' },
+  { id: 'file-c', type: 'file', name: 'c.ts', filePath: 'c.ts' },
+  { id: 'c-main', type: 'function', name: 'main', filePath: 'c.ts', startLine: 1, endLine: 3, codeSnippet: 'function main()' },
+];
+
+// The same project after an edit: a new file sorting first, and a new function above `first`.
+const editedNodes: TestNode[] = [
+  { id: 'file-a', type: 'file', name: 'a.ts', filePath: 'a.ts' },
+  { id: 'a-helper', type: 'function', name: 'helper', filePath: 'a.ts', startLine: 1, endLine: 2, codeSnippet: 'function helper()' },
+  { id: 'file-b', type: 'file', name: 'b.ts', filePath: 'b.ts' },
+  { id: 'b-zero', type: 'function', name: 'zero', filePath: 'b.ts', visibility: 'public', startLine: 1, endLine: 2, codeSnippet: 'function zero()' },
+  { id: 'b-first', type: 'function', name: 'first', filePath: 'b.ts', visibility: 'public', startLine: 4, endLine: 5, codeSnippet: 'function first()' },
+  { id: 'b-second', type: 'function', name: 'second', filePath: 'b.ts', visibility: 'public', startLine: 7, endLine: 8, codeSnippet: 'function second()' },
+  { id: 'file-c', type: 'file', name: 'c.ts', filePath: 'c.ts' },
+  { id: 'c-main', type: 'function', name: 'main', filePath: 'c.ts', startLine: 1, endLine: 3, codeSnippet: 'function main()' },
+];
+
+describe('SCN Generation: Stable IDs', () => {
+  let project: TestProject | undefined;
+
+  afterEach(async () => {
+    if (project) {
+      await project.cleanup();
+      project = undefined;
+    }
+  });
+
+  it('should keep existing IDs and append fresh ones after an edit', () => {
+    const lock = updateIdLock(createRankedGraph(baseNodes, []));
+    const edited = createRankedGraph(editedNodes, [{ fromId: 'c-main', toId: 'b-second', type: 'calls' }]);
+    const scn = serializeGraph(edited, undefined, { idLock: lock });
+
+    expect(scn).toBe([
+      '§ (3) a.ts\n  ~ (3.1) helper()',
+      '§ (1) b.ts\n  + ~ (1.3) zero()\n  + ~ (1.1) first()\n  + ~ (1.2) second()\n    <- (2.1)',
+      '§ (2) c.ts\n  ~ (2.1) main()\n    -> (1.2)',
+    ].join('\n\n'));
+  });
+
+  it('should never reuse the numbers of removed entities unless compacted', () => {
+    const lock = updateIdLock(createRankedGraph(editedNodes, []), updateIdLock(createRankedGraph(baseNodes, [])));
+    const withoutZero = createRankedGraph(editedNodes.filter(n => n.id !== 'b-zero' && n.filePath !== 'a.ts'), []);
+
+    const next = updateIdLock(withoutZero, lock);
+    expect(next.files['b.ts']).toEqual({ id: 1, nextEntityId: 4, entities: { first: 1, second: 2 } });
+    expect(updateIdLock(createRankedGraph([...withoutZero.nodes.values()], []), next).files['b.ts']!.entities)
+      .toEqual({ first: 1, second: 2 });
+
+    const compacted = updateIdLock(withoutZero, next, { compact: true });
+    expect(compacted.nextFileId).toBe(3);
+    expect(serializeGraph(withoutZero, undefined, { idLock: compacted }))
+      .toBe(serializeGraph(withoutZero));
+  });
+
+  it('should keep the entries of files outside the graph until compacted', () => {
+    const lock = updateIdLock(createRankedGraph(editedNodes, []));
+    // A run over narrower globs only sees c.ts.
+    const partial = updateIdLock(createRankedGraph(editedNodes.filter(n => n.filePath === 'c.ts'), []), lock);
+    expect(Object.keys(partial.files)).toEqual(['a.ts', 'b.ts', 'c.ts']);
+    expect(partial.files['b.ts']).toEqual(lock.files['b.ts']!);
+
+    const full = createRankedGraph(editedNodes, []);
+    expect(serializeGraph(full, undefined, { idLock: updateIdLock(full, partial) })).toBe(serializeGraph(full, undefined, { idLock: lock }));
+    expect(Object.keys(updateIdLock(createRankedGraph(editedNodes.filter(n => n.filePath === 'c.ts'), []), partial, { compact: true }).files)).toEqual(['c.ts']);
+  });
+
+  it('should disambiguate repeated names and persist the lock to disk', async () => {
+    project = await setupTestProject({});
+    const graph = createRankedGraph([
+      { id: 'file', type: 'file', name: 'App.tsx', filePath: 'App.tsx' },
+      { id: 'div-1', type: 'html_element', name: 'div', filePath: 'App.tsx', startLine: 3, endLine: 8 },
+      { id: 'div-2', type: 'html_element', name: 'div', filePath: 'App.tsx', startLine: 4, endLine: 6 },
+    ], []);
+    const lockPath = join(project.projectDir, '.scn-ids.json');
+
+    expect(await readIdLock(lockPath)).toBeUndefined();
+    await writeIdLock(lockPath, updateIdLock(graph));
+    expect((await readIdLock(lockPath))!.files['App.tsx']!.entities).toEqual({ div: 1, 'div#2': 2 });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { serializeGraph, serializeGraphWithStats } from '../../../src/serializer';
+import { formatStats } from '../../../src/stats';
+import { estimateTokens } from '../../../src/tokens';
+import { createRankedGraph, setupTestProject, type TestProject } from '../../test.util';
+
+const files = {
+  'src/db.ts': [
+    'export class Database {',
+    '  query(sql: string) {',
+    '    // Runs the query against the connection pool and returns the rows.',
+    '    return this.pool.run(sql);',
+    '  }',
+    '}',
+  ].join('\n'),
+  'src/api.ts': [
+    "import { Database } from './db';",
+    'export function handle(sql: string) {',
+    '  return new Database().query(sql);',
+    '}',
+  ].join('\n'),
+};
+
+const graph = createRankedGraph([
+  { id: 'db', type: 'file', name: 'db.ts', filePath: 'src/db.ts' },
+  { id: 'database', type: 'class', name: 'Database', filePath: 'src/db.ts', startLine: 1, endLine: 6 },
+  { id: 'query', type: 'method', name: 'Database.query', filePath: 'src/db.ts', startLine: 2, endLine: 5, codeSnippet: 'query(sql: string)' },
+  { id: 'api', type: 'file', name: 'api.ts', filePath: 'src/api.ts' },
+  { id: 'handle', type: 'function', name: 'handle', filePath: 'src/api.ts', startLine: 2, endLine: 4, codeSnippet: 'export function handle(sql: string)' },
+], [
+  { fromId: 'api', toId: 'db', type: 'imports' },
+  { fromId: 'handle', toId: 'query', type: 'calls' },
+  { fromId: 'handle', toId: 'database', type: 'references' },
+]);
+
+describe('SCN Generation: Stats', () => {
+  let project: TestProject | undefined;
+
+  afterEach(async () => {
+    if (project) {
+      await project.cleanup();
+      project = undefined;
+    }
+  });
+
+  it('should measure source and SCN tokens per file and in total', async () => {
+    project = await setupTestProject(files);
+    const { scn, stats } = serializeGraphWithStats(graph, project.projectDir, {});
+
+    expect(scn).toBe(serializeGraph(graph, project.projectDir));
+    expect(stats.files.map(file => file.path)).toEqual(['src/api.ts', 'src/db.ts']);
+    expect(stats.files.map(file => file.sourceTokens)).toEqual([estimateTokens(files['src/api.ts']), estimateTokens(files['src/db.ts'])]);
+    expect(stats.files.map(file => file.entities)).toEqual([1, 2]);
+    expect(stats.sourceTokens).toBe(estimateTokens(files['src/api.ts']) + estimateTokens(files['src/db.ts']));
+    expect(stats.scnTokens).toBe(estimateTokens(scn));
+    expect(stats.reduction).toBeCloseTo(1 - stats.scnTokens / stats.sourceTokens);
+    expect(stats.largestFiles.map(file => file.path)).toEqual(['src/db.ts', 'src/api.ts']);
+  });
+
+  it('should count entities by symbol and edges by type within the map', async () => {
+    project = await setupTestProject(files);
+    const { stats } = serializeGraphWithStats(graph, project.projectDir, {});
+    expect(stats.entities).toEqual({ '~': 2, '◇': 1 });
+    expect(stats.edges).toEqual({ imports: 1, calls: 1, references: 1 });
+
+    const focused = serializeGraphWithStats(graph, project.projectDir, { focus: ['src/db.ts'], depth: 0 }).stats;
+    expect(focused.files.map(file => file.path)).toEqual(['src/db.ts']);
+    expect(focused.edges).toEqual({});
+  });
+
+  it('should count with a custom tokenizer and render a report', async () => {
+    project = await setupTestProject(files);
+    const words = (text: string) => text.split(/\s+/).filter(Boolean).length;
+    const { scn, stats } = serializeGraphWithStats(graph, project.projectDir, {}, words);
+
+    expect(stats.scnTokens).toBe(words(scn));
+    expect(stats.files[1]!.sourceTokens).toBe(words(files['src/db.ts']));
+
+    const report = formatStats(stats);
+    expect(report).toStartWith(`Tokens: ${stats.sourceTokens} source -> ${stats.scnTokens} SCN (`);
+    expect(report).toContain('Entities: ~ 2, ◇ 1');
+    expect(report).toContain('Edges: calls 1, imports 1, references 1');
+    expect(report).toContain(`\n  src/db.ts   ${stats.files[1]!.scnTokens} / ${stats.files[1]!.sourceTokens} (`);
+  });
+});
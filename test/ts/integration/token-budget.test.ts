@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'bun:test';
+import { serializeGraph } from '../../../src/serializer';
+import { parseScn, type ScnEntity, type ScnReference } from '../../../src/parser';
+import { estimateTokens } from '../../../src/tokens';
+import { createRankedGraph } from '../../test.util';
+
+const graph = createRankedGraph([
+  { id: 'file-core', type: 'file', name: 'core.ts', filePath: 'core.ts' },
+  { id: 'core-db', type: 'class', name: 'Database', filePath: 'core.ts', visibility: 'public', startLine: 1, endLine: 10 },
+  { id: 'core-query', type: 'method', name: 'Database.query', filePath: 'core.ts', visibility: 'public', startLine: 2, endLine: 4, codeSnippet: 'query(sql: string): Row[]' },
+  { id: 'core-close', type: 'method', name: 'Database.close', filePath: 'core.ts', visibility: 'public', startLine: 5, endLine: 7, codeSnippet: 'close(): void' },
+  { id: 'file-api', type: 'file', name: 'api.ts', filePath: 'api.ts' },
+  { id: 'api-handler', type: 'function', name: 'handleRequest', filePath: 'api.ts', visibility: 'public', startLine: 1, endLine: 5, codeSnippet: 'function handleRequest(req: Request): Response' },
+  { id: 'api-debug', type: 'function', name: 'debugDump', filePath: 'api.ts', startLine: 7, endLine: 9, codeSnippet: 'function debugDump(value: unknown)' },
+  { id: 'file-legacy', type: 'file', name: 'legacy.ts', filePath: 'legacy.ts' },
+  { id: 'legacy-old', type: 'function', name: 'oldHelper', filePath: 'legacy.ts', startLine: 1, endLine: 3, codeSnippet: 'function oldHelper()' },
+], [
+  { fromId: 'file-api', toId: 'file-core', type: 'imports' },
+  { fromId: 'file-legacy', toId: 'file-core', type: 'imports' },
+  { fromId: 'api-handler', toId: 'core-query', type: 'calls' },
+  { fromId: 'api-debug', toId: 'core-close', type: 'calls' },
+  { fromId: 'legacy-old', toId: 'core-close', type: 'calls' },
+], {
+  'file-core': 0.5, 'core-db': 0.4, 'core-query': 0.35, 'core-close': 0.05,
+  'file-api': 0.3, 'api-handler': 0.3, 'api-debug': 0.01,
+  'file-legacy': 0.02, 'legacy-old': 0.02,
+});
+
+const collectIds = (entities: ScnEntity[], into = new Set<string>()): Set<string> => {
+  for (const entity of entities) {
+    if (entity.id) into.add(entity.id);
+    collectIds(entity.children, into);
+  }
+  return into;
+};
+
+const collectRefs = (entities: ScnEntity[], into: ScnReference[] = []): ScnReference[] => {
+  for (const entity of entities) {
+    into.push(...entity.dependencies, ...entity.callers);
+    collectRefs(entity.children, into);
+  }
+  return into;
+};
+
+const expectNoDanglingReferences = (scn: string) => {
+  const { files } = parseScn(scn);
+  const declared = new Set(files.map(f => `${f.id}.0`));
+  files.forEach(f => collectIds(f.entities, declared));
+  const refs = files.flatMap(f => [...f.dependencies, ...f.callers, ...collectRefs(f.entities)]);
+  for (const ref of refs) {
+    expect(ref.kind === 'id' && declared.has(ref.id)).toBe(true);
+  }
+};
+
+describe('SCN Generation: Token Budget', () => {
+  it('should emit the full map without a footer when it fits the budget', () => {
+    const full = serializeGraph(graph);
+    expect(serializeGraph(graph, undefined, { maxTokens: 10_000 })).toBe(full);
+  });
+
+  it('should drop the lowest-ranked entities first and keep IDs stable', () => {
+    const full = serializeGraph(graph);
+    const scn = serializeGraph(graph, undefined, { maxTokens: estimateTokens(full) - 10 });
+
+    expect(estimateTokens(scn)).toBeLessThanOrEqual(estimateTokens(full) - 10);
+    expect(scn).not.toContain('debugDump');
+    expect(scn).toContain('+ ◇ (2.1) Database');
+    expect(scn).toContain('+ ~ (1.1) handleRequest(req: #(Request)): #(Response)');
+    expect(scn).toMatch(/\/\/ Omitted \d+ entit(y|ies) with the lowest rank to fit the \d+-token budget\.$/);
+    expectNoDanglingReferences(scn);
+  });
+
+  it('should omit whole files once their entities are gone', () => {
+    const scn = serializeGraph(graph, undefined, { maxTokens: 30 });
+
+    expect(estimateTokens(scn)).toBeLessThanOrEqual(30);
+    expect(scn).toContain('§ (2) core.ts');
+    expect(scn).not.toContain('legacy.ts');
+    expect(scn).toMatch(/entities and \d+ files? with the lowest rank/);
+    expectNoDanglingReferences(scn);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { join } from 'path';
+import { serializeGraph } from '../../../src/serializer';
+import { createTsProgram, enrichGraphWithTypeChecker } from '../../../src/type-checker';
+import { createRankedGraph, setupTestProject, type TestProject } from '../../test.util';
+
+const files = {
+  'tsconfig.json': JSON.stringify({ compilerOptions: { strict: true, target: 'ES2022', module: 'ESNext' }, include: ['src'] }),
+  'src/models.ts': [
+    'export interface User { id: string }',
+    'export const double = (n: number) => n * 2;',
+  ].join('\n'),
+  'src/users.ts': [
+    "import type { User } from './models';",
+    '',
+    'export async function loadUser(',
+    '  id: string,',
+    '  retries?: number,',
+    '): Promise<User> {',
+    "  if (!id) throw new Error('missing id');",
+    '  return fetchUser(id);',
+    '}',
+    '',
+    'function fetchUser(id: string) {',
+    '  return Promise.resolve({ id });',
+    '}',
+    '',
+    'export { fetchUser as rawFetch };',
+    '',
+    'export class Cache {',
+    '  #entries = new Map<string, User>();',
+    '  protected evict(id: string) { this.#entries.delete(id); }',
+    '}',
+  ].join('\n'),
+};
+
+// The nodes repograph would produce, without the modifiers it cannot see.
+const graph = createRankedGraph([
+  { id: 'file-models', type: 'file', name: 'models.ts', filePath: 'src/models.ts' },
+  { id: 'models-user', type: 'interface', name: 'User', filePath: 'src/models.ts', startLine: 1, endLine: 1 },
+  { id: 'models-double', type: 'arrow_function', name: 'double', filePath: 'src/models.ts', startLine: 2, endLine: 2, codeSnippet: 'export const double = (n: number) => n * 2;' },
+  { id: 'file-users', type: 'file', name: 'users.ts', filePath: 'src/users.ts' },
+  { id: 'users-load', type: 'function', name: 'loadUser', filePath: 'src/users.ts', startLine: 3, endLine: 9, codeSnippet: 'export async function loadUser(' },
+  { id: 'users-fetch', type: 'function', name: 'fetchUser', filePath: 'src/users.ts', startLine: 11, endLine: 13, codeSnippet: 'function fetchUser(id: string) {' },
+  { id: 'users-cache', type: 'class', name: 'Cache', filePath: 'src/users.ts', startLine: 17, endLine: 20 },
+  { id: 'users-entries', type: 'property', name: 'Cache.#entries', filePath: 'src/users.ts', startLine: 18, endLine: 18, codeSnippet: '#entries = new Map<string, User>();' },
+  { id: 'users-evict', type: 'method', name: 'Cache.evict', filePath: 'src/users.ts', startLine: 19, endLine: 19, codeSnippet: 'protected evict(id: string) { this.#entries.delete(id); }' },
+], [
+  { fromId: 'file-users', toId: 'file-models', type: 'imports' },
+]);
+
+describe('SCN Generation: Type Checker Analysis', () => {
+  let project: TestProject | undefined;
+
+  afterEach(async () => {
+    if (project) {
+      await project.cleanup();
+      project = undefined;
+    }
+  });
+
+  const generate = async () => {
+    project = await setupTestProject(files);
+    const program = createTsProgram(join(project.projectDir, 'tsconfig.json'));
+    const enriched = enrichGraphWithTypeChecker(graph, program, project.projectDir);
+    return serializeGraph(enriched, project.projectDir);
+  };
+
+  it('should read multi-line signatures, modifiers and throws from the checker', async () => {
+    const scn = await generate();
+
+    expect(scn).toContain('  + ~ (2.1) loadUser(id: #(string), retries?: #(number | undefined)): #(Promise<(1.1)>) ... !');
+    expect(scn).toContain('  + ◇ (2.3) Cache\n    - @ (2.4) #entries\n      <- (2.5)\n    - ~ (2.5) evict(id: #(string))');
+  });
+
+  it('should treat aliased exports as public and infer return types', async () => {
+    const scn = await generate();
+
+    expect(scn).toContain('  + ~ (2.2) fetchUser(id: #(string)): #(Promise<{ id: string; }>)');
+    expect(scn).toContain('  + ~ (1.2) double(n: #(number)): #(number)');
+  });
+
+  it('should add references between entities that repograph did not link', async () => {
+    const scn = await generate();
+
+    expect(scn).toContain('... !\n    -> (2.2)');
+    expect(scn).toContain('fetchUser(id: #(string)): #(Promise<{ id: string; }>)\n    <- (2.1)');
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'bun:test';
+import { serializeGraph } from '../../../src/serializer';
+import { createRankedGraph } from '../../test.util';
+
+const graph = createRankedGraph([
+  { id: 'file-db', type: 'file', name: 'db.ts', filePath: 'db.ts' },
+  { id: 'db-class', type: 'class', name: 'Database', filePath: 'db.ts', visibility: 'public', startLine: 1, endLine: 3 },
+  { id: 'file-legacy', type: 'file', name: 'legacy.ts', filePath: 'legacy.ts' },
+  { id: 'legacy-user', type: 'interface', name: 'User', filePath: 'legacy.ts', startLine: 1, endLine: 3 },
+  { id: 'file-models', type: 'file', name: 'models.ts', filePath: 'models.ts' },
+  { id: 'models-user', type: 'interface', name: 'User', filePath: 'models.ts', visibility: 'public', startLine: 1, endLine: 4 },
+  { id: 'file-service', type: 'file', name: 'service.ts', filePath: 'service.ts' },
+  { id: 'service-class', type: 'class', name: 'UserService', filePath: 'service.ts', visibility: 'public', startLine: 3, endLine: 12 },
+  { id: 'service-db', type: 'property', name: 'UserService.db', filePath: 'service.ts', visibility: 'private', startLine: 4, endLine: 4, codeSnippet: 'private db: Database;' },
+  { id: 'service-list', type: 'method', name: 'UserService.list', filePath: 'service.ts', visibility: 'public', startLine: 5, endLine: 8, codeSnippet: "async list(filter: Partial<User>, limit = 10): Promise<User[]>" },
+  { id: 'service-find', type: 'method', name: 'UserService.find', filePath: 'service.ts', visibility: 'public', startLine: 9, endLine: 11, codeSnippet: "find(id: string, onMissing: (id: string) => void): User | undefined" },
+], [
+  { fromId: 'file-service', toId: 'file-models', type: 'imports' },
+  { fromId: 'file-service', toId: 'file-db', type: 'imports' },
+]);
+
+describe('SCN Generation: Type References', () => {
+  it('should resolve parameter, return and property types to entity IDs', () => {
+    const scn = serializeGraph(graph);
+
+    expect(scn).toContain('    - @ (4.2) db: #(1.1)');
+    expect(scn).toContain('    + ~ (4.3) list(filter: #(Partial<(3.1)>), limit = 10): #(Promise<(3.1)[]>) ...');
+    expect(scn).toContain('    + ~ (4.4) find(id: #(string), onMissing: #((id: string) => void)): #((3.1) | undefined)');
+  });
+
+  it('should fall back to the type name when the declaration is not in the output', () => {
+    const scn = serializeGraph(graph, undefined, { focus: ['service.ts#UserService.find'], depth: 0 });
+
+    expect(scn).toContain('find(id: #(string), onMissing: #((id: string) => void)): #(User | undefined)');
+    expect(scn).not.toContain('(3.1)');
+  });
+});
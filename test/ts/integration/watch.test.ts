@@ -0,0 +1,81 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+import { parseScn } from '../../../src/parser';
+import { diffEntitySnapshots, formatEntityChanges, snapshotEntities, watchProject } from '../../../src/watch';
+import { setupTestProject, type TestProject } from '../../test.util';
+
+const sleep = (ms: number) => new Promise(done => setTimeout(done, ms));
+
+describe('SCN Generation: Watch Mode', () => {
+  let project: TestProject | undefined;
+  let close: (() => void) | undefined;
+
+  afterEach(async () => {
+    close?.();
+    close = undefined;
+    if (project) {
+      await project.cleanup();
+      project = undefined;
+    }
+  });
+
+  it('should summarize added, removed and changed entities regardless of their IDs', () => {
+    const before = parseScn([
+      '§ (1) src/auth.ts',
+      '  + ~ (1.1) login(user: #)',
+      '  + ◇ (1.2) Session',
+      '    + ~ (1.3) refresh()',
+      '  - ~ (1.4) hash()',
+    ].join('\n'));
+    const after = parseScn([
+      '§ (1) src/auth.ts',
+      '  + ~ (1.1) login(user: #, password: #)',
+      '  + ◇ (1.5) Session',
+      '    + ~ (1.6) refresh()',
+      '    + ~ (1.7) revoke()',
+    ].join('\n'));
+
+    const changes = diffEntitySnapshots(snapshotEntities(before.files), snapshotEntities(after.files));
+    expect(changes).toEqual({
+      added: ['src/auth.ts#Session.revoke'],
+      removed: ['src/auth.ts#hash'],
+      changed: ['src/auth.ts#login'],
+    });
+    expect(formatEntityChanges(changes)).toBe([
+      '1 added, 1 removed, 1 changed',
+      '  + src/auth.ts#Session.revoke',
+      '  - src/auth.ts#hash',
+      '  ~ src/auth.ts#login',
+    ].join('\n'));
+  });
+
+  it('should debounce bursts of matching changes and ignore its own output', async () => {
+    project = await setupTestProject({
+      'src/a.ts': 'export const a = 1;',
+      'src/b.ts': 'export const b = 1;',
+      'src/a.test.ts': 'export const t = 1;',
+    });
+    const { projectDir } = project;
+    const runs: string[][] = [];
+    ({ close } = watchProject({
+      root: projectDir,
+      include: ['src/**/*.ts'],
+      exclude: ['**/*.test.ts'],
+      ignore: [join(projectDir, 'src/map.scn.ts')],
+      debounceMs: 50,
+      onChange: async changedPaths => {
+        runs.push(changedPaths);
+      },
+    }));
+    await sleep(50);
+
+    await writeFile(join(projectDir, 'src/a.ts'), 'export const a = 2;');
+    await writeFile(join(projectDir, 'src/b.ts'), 'export const b = 2;');
+    await writeFile(join(projectDir, 'src/a.test.ts'), 'export const t = 2;');
+    await writeFile(join(projectDir, 'src/map.scn.ts'), '// generated');
+    await sleep(300);
+
+    expect(runs).toEqual([['src/a.ts', 'src/b.ts']]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { serializeGraph } from '../../../src/serializer';
+import { addResolvedImportEdges, createModuleResolver } from '../../../src/module-resolver';
+import { discoverWorkspacePackages, selectWorkspacePackages } from '../../../src/workspace';
+import { parseScn } from '../../../src/parser';
+import { createRankedGraph, setupTestProject, type TestProject } from '../../test.util';
+
+const files = {
+  'package.json': JSON.stringify({ name: 'acme', private: true, workspaces: ['packages/*', 'apps/**', '!packages/legacy'] }),
+  'packages/shared/package.json': JSON.stringify({ name: '@acme/shared', main: './src/index.ts' }),
+  'packages/shared/src/index.ts': [
+    'export function formatDate(date: Date) {',
+    '  return date.toISOString();',
+    '}',
+  ].join('\n'),
+  'packages/ui/package.json': JSON.stringify({ name: '@acme/ui', dependencies: { '@acme/shared': 'workspace:*', react: '^18' } }),
+  'packages/ui/src/index.ts': 'export const Button = {};',
+  'packages/legacy/package.json': JSON.stringify({ name: '@acme/legacy' }),
+  'apps/web/package.json': JSON.stringify({ name: 'web', devDependencies: { '@acme/ui': 'workspace:*' } }),
+  'apps/web/src/main.ts': [
+    "import { formatDate as format } from '@acme/shared';",
+    '',
+    'export function render() {',
+    '  return format(new Date());',
+    '}',
+  ].join('\n'),
+};
+
+const graph = createRankedGraph([
+  { id: 'main', type: 'file', name: 'main.ts', filePath: 'apps/web/src/main.ts' },
+  { id: 'main-render', type: 'function', name: 'render', filePath: 'apps/web/src/main.ts', startLine: 3, endLine: 5, codeSnippet: 'export function render()' },
+  { id: 'shared', type: 'file', name: 'index.ts', filePath: 'packages/shared/src/index.ts' },
+  { id: 'shared-format', type: 'function', name: 'formatDate', filePath: 'packages/shared/src/index.ts', startLine: 1, endLine: 3, codeSnippet: 'export function formatDate(date: Date)' },
+], []);
+
+describe('SCN Generation: Workspaces', () => {
+  let project: TestProject | undefined;
+
+  afterEach(async () => {
+    if (project) {
+      await project.cleanup();
+      project = undefined;
+    }
+  });
+
+  it('should discover packages and their workspace dependencies', async () => {
+    project = await setupTestProject(files);
+    const packages = discoverWorkspacePackages(project.projectDir);
+
+    expect(packages).toEqual([
+      { name: 'web', dir: 'apps/web', dependencies: ['@acme/ui'] },
+      { name: '@acme/shared', dir: 'packages/shared', dependencies: [] },
+      { name: '@acme/ui', dir: 'packages/ui', dependencies: ['@acme/shared'] },
+    ]);
+    expect(selectWorkspacePackages(packages, ['@acme/ui']).map(pkg => pkg.name)).toEqual(['@acme/shared', '@acme/ui']);
+    expect(() => selectWorkspacePackages(packages, ['@acme/legacy'])).toThrow("Package '@acme/legacy' is not part of the workspace");
+  });
+
+  it('should read pnpm-workspace.yaml', async () => {
+    project = await setupTestProject({
+      ...files,
+      'package.json': JSON.stringify({ name: 'acme', private: true }),
+      'pnpm-workspace.yaml': "packages:\n  - 'packages/*'\n  - \"!packages/legacy\" # retired\n",
+    });
+
+    expect(discoverWorkspacePackages(project.projectDir).map(pkg => pkg.dir)).toEqual(['packages/shared', 'packages/ui']);
+  });
+
+  it('should group the map by package and link entities across packages', async () => {
+    project = await setupTestProject(files);
+    const packages = discoverWorkspacePackages(project.projectDir);
+    const filePaths = [...graph.nodes.values()].map(node => node.filePath);
+    const resolveModule = createModuleResolver(undefined, project.projectDir, filePaths);
+    const scn = serializeGraph(addResolvedImportEdges(graph, resolveModule, project.projectDir), project.projectDir, { packages, resolveModule });
+
+    expect(scn).toBe([
+      '// package web (apps/web)\n§ (1) apps/web/src/main.ts\n  -> (2.0)\n  + ~ (1.1) render()\n    -> (2.1)',
+      '// package @acme/shared (packages/shared)\n§ (2) packages/shared/src/index.ts\n  <- (1.0)\n  + ~ (2.1) formatDate(date: #(Date))\n    <- (1.1)',
+    ].join('\n\n'));
+    expect(parseScn(scn).files.map(file => file.path)).toEqual(['apps/web/src/main.ts', 'packages/shared/src/index.ts']);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'bun:test';
+import { parseScn, ScnParseError } from '../../../src/parser';
+import { serializeGraph } from '../../../src/serializer';
+import { createRankedGraph } from '../../test.util';
+
+describe('SCN Parsing: parseScn', () => {
+  it('should round-trip the output of serializeGraph', () => {
+    const graph = createRankedGraph([
+      { id: 'file-a', type: 'file', name: 'a.ts', filePath: 'a.ts' },
+      { id: 'class-a', type: 'class', name: 'Service', filePath: 'a.ts', visibility: 'public', startLine: 2, endLine: 6 },
+      { id: 'method-a', type: 'method', name: 'Service.load', filePath: 'a.ts', visibility: 'private', startLine: 3, endLine: 5, codeSnippet: 'async load(id: string): Promise<void>', isAsync: true, canThrow: true },
+      { id: 'file-b', type: 'file', name: 'my utils.ts', filePath: 'my utils.ts' },
+      { id: 'func-b', type: 'function', name: 'helper', filePath: 'my utils.ts', visibility: 'public', startLine: 2, endLine: 2, codeSnippet: 'function helper(x: number): number' },
+      { id: 'file-c', type: 'file', name: 'c.css', filePath: 'c.css' },
+      { id: 'rule-c', type: 'css_rule', name: '.btn .icon', filePath: 'c.css', startLine: 1, endLine: 3, cssIntents: ['layout', 'appearance'] },
+    ], [
+      { fromId: 'file-a', toId: 'file-b', type: 'imports' },
+      { fromId: 'method-a', toId: 'func-b', type: 'calls' },
+    ]);
+
+    const doc = parseScn(serializeGraph(graph));
+
+    expect(doc.files.map(f => [f.id, f.path])).toEqual([['1', 'a.ts'], ['2', 'c.css'], ['3', 'my utils.ts']]);
+    const [fileA, fileC, fileB] = doc.files;
+    expect(fileA!.dependencies).toMatchObject([{ kind: 'id', id: '3.0', fileId: 3, entityId: 0 }]);
+    expect(fileB!.callers).toMatchObject([{ kind: 'id', id: '1.0' }]);
+
+    const service = fileA!.entities[0]!;
+    expect(service).toMatchObject({ id: '1.1', access: '+', symbol: '◇', name: 'Service', line: 3 });
+    expect(service.children[0]).toMatchObject({
+      id: '1.2',
+      access: '-',
+      symbol: '~',
+      name: 'load',
+      signature: '(id: #(string)): #(Promise<void>)',
+      qualifiers: ['...', '!'],
+    });
+    expect(service.children[0]!.dependencies).toMatchObject([{ kind: 'id', id: '3.1' }]);
+
+    expect(fileB!.entities[0]).toMatchObject({ id: '3.1', name: 'helper', signature: '(x: #(number)): #(number)' });
+    expect(fileB!.entities[0]!.callers).toMatchObject([{ kind: 'id', id: '1.2' }]);
+    expect(fileC!.entities[0]).toMatchObject({ symbol: '¶', name: '.btn .icon', signature: '{ 💧 📐 }' });
+  });
+
+  it('should parse named references, inline links and trailing comments', () => {
+    const doc = parseScn([
+      '§ (1) services/auth.js',
+      '  -> (utils.js), (Promise<(2.3)[]>)       // File-level dependency',
+      '  ◇ (1.1) AuthService',
+      '    + @ db: #(Database)',
+      '    + ~ login(email: #, pass: #): #(User) ...! -> (2.1) <- (3.4)',
+    ].join('\n'));
+
+    const [file] = doc.files;
+    expect(file!.dependencies).toMatchObject([
+      { kind: 'name', name: 'utils.js', line: 2, column: 6 },
+      { kind: 'name', name: 'Promise<(2.3)[]>' },
+    ]);
+    const [db, login] = file!.entities[0]!.children;
+    expect(db).toMatchObject({ id: undefined, name: 'db', signature: ': #(Database)', qualifiers: [] });
+    expect(login).toMatchObject({ name: 'login', signature: '(email: #, pass: #): #(User)', qualifiers: ['...', '!'] });
+    expect(login!.dependencies).toMatchObject([{ id: '2.1' }]);
+    expect(login!.callers).toMatchObject([{ id: '3.4' }]);
+  });
+
+  it('should report malformed input with line and column', () => {
+    const expectError = (text: string, line: number, column: number) => {
+      try {
+        parseScn(text);
+      } catch (e) {
+        expect(e).toBeInstanceOf(ScnParseError);
+        expect(e).toMatchObject({ line, column });
+        return;
+      }
+      throw new Error(`Expected a parse error for:\n${text}`);
+    };
+
+    expectError('  ~ (1.1) orphan()', 1, 3);
+    expectError('§ (1) a.ts\n  % (1.1) what', 2, 3);
+    expectError('§ (1) a.ts\n  ~ (1.1) a()\n      ~ (1.2) b()', 3, 7);
+    expectError('§ (1) a.ts\n   ~ (1.1) a()', 2, 4);
+    expectError('§ (1) a.ts\n  -> 2.0', 2, 6);
+    expectError('§ (1) a.ts\n  ~ (2.1) a()', 2, 3);
+    expectError('§ (1) a b.ts', 1, 7);
+  });
+});
@@ -71,6 +71,6 @@ describe('SCN Generation: 1.5 Function & Method Qualifiers', () => {
       'test.ts': `export function add(a: number, b: number): number { return a + b; }`,
     });
     const scn = await generateScn({ root: project.projectDir, include: ['**/*.ts'] });
-    expect(scn).toContain('+ ~ (1.1) add(a: #, b: #): #number o');
+    expect(scn).toContain('+ ~ (1.1) add(a: #(number), b: #(number)): #(number) o');
   });
 });
\ No newline at end of file
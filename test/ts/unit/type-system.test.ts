@@ -24,25 +24,25 @@ describe('SCN Generation: 1.4 Type System Symbols', () => {
     expect(scn).toContain('+ =: (1.1) UserID = string');
   });
 
-  it('should represent type references in function parameters with #', async () => {
+  it('should represent type references in function parameters with #(Type)', async () => {
     project = await setupTestProject({ 'test.ts': `function process(id: string, value: number) {}` });
     const scn = await generateScn({ root: project.projectDir, include: ['**/*.ts'] });
-    expect(scn).toContain('~ (1.1) process(id: #, value: #)');
+    expect(scn).toContain('~ (1.1) process(id: #(string), value: #(number))');
   });
   
-  it('should represent a function return type with :#Type', async () => {
+  it('should represent a function return type with :#(Type)', async () => {
     project = await setupTestProject({ 'test.ts': `function isActive(): boolean {}` });
     const scn = await generateScn({ root: project.projectDir, include: ['**/*.ts'] });
-    expect(scn).toContain('~ (1.1) isActive(): #boolean');
+    expect(scn).toContain('~ (1.1) isActive(): #(boolean)');
   });
   
-  it('should correctly represent complex types like Promise<User>', async () => {
+  it('should resolve in-project types inside generics like Promise<User>', async () => {
     project = await setupTestProject({ 'test.ts': `
       interface User {}
       function getUser(): Promise<User> { return Promise.resolve({} as User); }
     `});
     const scn = await generateScn({ root: project.projectDir, include: ['**/*.ts'] });
-    expect(scn).toContain('~ (1.2) getUser(): #Promise<User>');
+    expect(scn).toContain('~ (1.2) getUser(): #(Promise<(1.1)>)');
   });
 
   it('should correctly represent generic type parameters and return types', async () => {
@@ -50,6 +50,6 @@ describe('SCN Generation: 1.4 Type System Symbols', () => {
       function transform<T, U>(data: T[], func: (item: T) => U): U[] { return []; }
     `});
     const scn = await generateScn({ root: project.projectDir, include: ['**/*.ts'] });
-    expect(scn).toContain('~ (1.1) transform(data: #, func: #): #U[]');
+    expect(scn).toContain('~ (1.1) transform(data: #(T[]), func: #((item: T) => U)): #(U[])');
   });
 });
\ No newline at end of file